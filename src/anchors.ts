@@ -0,0 +1,310 @@
+import { createHash } from "crypto";
+import fs from "fs";
+import path from "path";
+import type { MemoryBackend } from "./backend.js";
+import { codeAnchorSchema } from "./schemas.js";
+import type {
+  AnchorCheck,
+  AnchoredMemory,
+  AnchorLocation,
+  AnchorReport,
+  CodeAnchor,
+  MemoryFilters,
+  MemoryRecord,
+} from "./types.js";
+
+export const ANCHORS_METADATA_KEY = "anchors";
+
+/** Files in the anchor's folder larger than this are not searched for a moved snippet. */
+const MAX_SEARCH_BYTES = 1024 * 1024;
+
+/** A path outside the workspace, a missing file or a line range the file does not have. */
+export class AnchorError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AnchorError";
+  }
+}
+
+export type AnchorScope = Omit<MemoryFilters, "limit" | "offset" | "cursor" | "search">;
+
+/** Whether the absolute path `target` is `root` or lies below it. */
+export function isWithin(root: string, target: string) {
+  const relative = path.relative(root, target);
+  return relative !== ".." && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative);
+}
+
+/** `target` relative to `root`, with `/` separators; "" for the root itself. */
+export function workspacePath(root: string, target: string): string {
+  const absolute = path.resolve(root, target);
+  if (!isWithin(path.resolve(root), absolute)) {
+    throw new AnchorError(`${target} is outside the workspace ${root}`);
+  }
+  return path.relative(path.resolve(root), absolute).split(path.sep).join("/");
+}
+
+/**
+ * Whether a stored anchor path stays in the workspace, symlinks included.
+ * Anchors can arrive through imports and sync, so their paths are checked
+ * before every read. A missing file counts as inside: reading it finds nothing.
+ */
+function inWorkspace(root: string, relative: string): boolean {
+  try {
+    workspacePath(root, relative);
+  } catch (error) {
+    if (error instanceof AnchorError) return false;
+    throw error;
+  }
+  try {
+    return isWithin(fs.realpathSync(root), fs.realpathSync(path.resolve(root, relative)));
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException).code;
+    return code === "ENOENT" || code === "ENOTDIR";
+  }
+}
+
+/**
+ * Lines of a workspace file with surrounding whitespace trimmed, or null if
+ * there is none, it cannot be read or it lies outside the workspace.
+ */
+function readLines(root: string, relative: string): string[] | null {
+  if (!inWorkspace(root, relative)) return null;
+  let text: string;
+  try {
+    text = fs.readFileSync(path.join(root, relative), "utf8");
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException).code;
+    if (["ENOENT", "ENOTDIR", "EISDIR", "EACCES", "EPERM"].includes(code ?? "")) return null;
+    throw error;
+  }
+  const lines = text.split(/\r?\n/).map((line) => line.trim());
+  if (lines.length > 1 && lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+/** Reindenting a snippet keeps its hash; any other edit changes it. */
+function hashLines(lines: string[]) {
+  return createHash("sha256").update(lines.join("\n")).digest("hex").slice(0, 16);
+}
+
+/** Reads the anchored lines of a workspace file and records their hash. */
+export function createAnchor(root: string, location: AnchorLocation): CodeAnchor {
+  const relative = workspacePath(root, location.path);
+  const lines = relative ? readLines(root, relative) : null;
+  if (!lines) {
+    throw new AnchorError(`${location.path} is not a file in the workspace ${root}`);
+  }
+  const { startLine, endLine } = location;
+  if (endLine < startLine) {
+    throw new AnchorError(`${relative}: endLine ${endLine} comes before startLine ${startLine}`);
+  }
+  if (endLine > lines.length) {
+    throw new AnchorError(`${relative} has ${lines.length} lines, fewer than endLine ${endLine}`);
+  }
+  const snippet = lines.slice(startLine - 1, endLine);
+  if (snippet.every((line) => line === "")) {
+    throw new AnchorError(`${relative}: lines ${startLine}-${endLine} are blank`);
+  }
+  return { path: relative, startLine, endLine, hash: hashLines(snippet) };
+}
+
+/** The anchors in a memory's metadata; malformed entries are skipped. */
+export function readAnchors(memory: Pick<MemoryRecord, "metadata">): CodeAnchor[] {
+  const value = memory.metadata[ANCHORS_METADATA_KEY];
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((entry) => {
+    const parsed = codeAnchorSchema.safeParse(entry);
+    return parsed.success ? [parsed.data] : [];
+  });
+}
+
+/** `metadata` with its anchors replaced; an empty list removes the key. */
+export function withAnchors(
+  metadata: Record<string, unknown>,
+  anchors: CodeAnchor[]
+): Record<string, unknown> {
+  const { [ANCHORS_METADATA_KEY]: _anchors, ...rest } = metadata;
+  return anchors.length > 0 ? { ...rest, [ANCHORS_METADATA_KEY]: anchors } : rest;
+}
+
+export function formatAnchor(anchor: AnchorLocation) {
+  return `${anchor.path}:${anchor.startLine}-${anchor.endLine}`;
+}
+
+function inPath(anchor: AnchorLocation, prefix: string) {
+  return prefix === "" || anchor.path === prefix || anchor.path.startsWith(`${prefix}/`);
+}
+
+function anchoredMemories(store: MemoryBackend, scope: AnchorScope): MemoryRecord[] {
+  const memories: MemoryRecord[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = store.listMemories({
+      ...scope,
+      metadata: [...(scope.metadata ?? []), { path: ANCHORS_METADATA_KEY, exists: true }],
+      sort: "updated",
+      limit: 200,
+      cursor,
+    });
+    memories.push(...page.items);
+    cursor = page.nextCursor;
+  } while (cursor);
+  return memories;
+}
+
+/** Memories with an anchor in `target`, a workspace file or folder. */
+export function listAnchoredMemories(
+  store: MemoryBackend,
+  root: string,
+  target: string,
+  scope: AnchorScope = {}
+): AnchoredMemory[] {
+  const prefix = workspacePath(root, target);
+  return anchoredMemories(store, scope).flatMap((memory) => {
+    const anchors = readAnchors(memory).filter((anchor) => inPath(anchor, prefix));
+    return anchors.length > 0 ? [{ memory, anchors }] : [];
+  });
+}
+
+/** Start line of the copy of a snippet nearest to `near`, or null. */
+function findSnippet(lines: string[], anchor: CodeAnchor, near: number): number | null {
+  const size = anchor.endLine - anchor.startLine + 1;
+  let found: number | null = null;
+  for (let start = 1; start + size - 1 <= lines.length; start++) {
+    if (hashLines(lines.slice(start - 1, start - 1 + size)) !== anchor.hash) continue;
+    if (found === null || Math.abs(start - near) < Math.abs(found - near)) found = start;
+  }
+  return found;
+}
+
+/** The other files next to `relative`, small enough to search. */
+function siblingFiles(root: string, relative: string): string[] {
+  const folder = path.posix.dirname(relative);
+  if (!inWorkspace(root, folder)) return [];
+  let entries: fs.Dirent[];
+  try {
+    entries = fs.readdirSync(path.join(root, folder), { withFileTypes: true });
+  } catch {
+    return [];
+  }
+  const small = (candidate: string) => {
+    try {
+      return fs.statSync(path.join(root, candidate)).size <= MAX_SEARCH_BYTES;
+    } catch {
+      return false;
+    }
+  };
+  return entries
+    .filter((entry) => entry.isFile())
+    .map((entry) => path.posix.join(folder, entry.name))
+    .filter((candidate) => candidate !== relative && small(candidate))
+    .sort();
+}
+
+type Outcome = Pick<AnchorCheck, "status" | "movedTo" | "reason">;
+
+/**
+ * Looks for an anchor's snippet at its lines, elsewhere in its file, then in
+ * the other files of its folder.
+ */
+function checkAnchor(
+  root: string,
+  anchor: CodeAnchor,
+  read: (relative: string) => string[] | null
+): Outcome {
+  if (!inWorkspace(root, anchor.path)) {
+    return { status: "broken", reason: "the path is outside the workspace" };
+  }
+  const lines = read(anchor.path);
+  if (
+    lines &&
+    anchor.endLine <= lines.length &&
+    hashLines(lines.slice(anchor.startLine - 1, anchor.endLine)) === anchor.hash
+  ) {
+    return { status: "intact" };
+  }
+  const size = anchor.endLine - anchor.startLine;
+  for (const candidate of [anchor.path, ...siblingFiles(root, anchor.path)]) {
+    const candidateLines = candidate === anchor.path ? lines : read(candidate);
+    const start = candidateLines ? findSnippet(candidateLines, anchor, anchor.startLine) : null;
+    if (start !== null) {
+      return {
+        status: "moved",
+        movedTo: { path: candidate, startLine: start, endLine: start + size },
+      };
+    }
+  }
+  return {
+    status: "broken",
+    reason: lines
+      ? "the snippet changed and is not elsewhere in the file or its folder"
+      : "the file no longer exists and the snippet is not elsewhere in its folder",
+  };
+}
+
+export interface VerifyAnchorsOptions {
+  /** Only anchors in this workspace file or folder. Defaults to the whole workspace. */
+  path?: string;
+  scope?: AnchorScope;
+  /** Point moved anchors at their new lines and mark broken ones. False only reports. */
+  reanchor?: boolean;
+}
+
+/**
+ * Re-reads the files behind every anchor in scope and sorts the anchors
+ * into intact (the hash still matches at the anchored lines), moved (the
+ * snippet turned up elsewhere in the file or its folder) and broken.
+ */
+export function verifyAnchors(
+  store: MemoryBackend,
+  root: string,
+  options: VerifyAnchorsOptions = {}
+): AnchorReport {
+  const prefix = workspacePath(root, options.path ?? ".");
+  const reanchor = options.reanchor ?? true;
+  const files = new Map<string, string[] | null>();
+  const read = (relative: string) => {
+    if (!files.has(relative)) files.set(relative, readLines(root, relative));
+    return files.get(relative)!;
+  };
+  const report: AnchorReport = {
+    checked: 0,
+    intact: 0,
+    moved: 0,
+    broken: 0,
+    problems: [],
+    updated: [],
+  };
+
+  for (const memory of anchoredMemories(store, options.scope ?? {})) {
+    let changed = false;
+    const anchors = readAnchors(memory).map((anchor) => {
+      if (!inPath(anchor, prefix)) return anchor;
+      const outcome = checkAnchor(root, anchor, read);
+      report.checked++;
+      report[outcome.status]++;
+      const { hash: _hash, broken, ...location } = anchor;
+      if (outcome.status !== "intact") {
+        report.problems.push({
+          memoryId: memory.id,
+          title: memory.title,
+          anchor: location,
+          ...outcome,
+        });
+      }
+      if (outcome.movedTo || (outcome.status === "broken") !== Boolean(broken)) changed = true;
+      return {
+        ...location,
+        ...outcome.movedTo,
+        hash: anchor.hash,
+        ...(outcome.status === "broken" ? { broken: true } : {}),
+      };
+    });
+    if (changed && reanchor) {
+      if (store.updateMemory({ id: memory.id, metadata: withAnchors(memory.metadata, anchors) })) {
+        report.updated.push(memory.id);
+      }
+    }
+  }
+  return report;
+}
@@ -0,0 +1,123 @@
+import { AsyncLocalStorage } from "async_hooks";
+import type { McpServer, RegisteredTool } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import type { MemoryBackend } from "./backend.js";
+import type { Redactor } from "./redaction.js";
+import type { AuditEntry } from "./types.js";
+
+/** Longer argument strings are cut to this many characters in the log. */
+const MAX_ARGUMENT_LENGTH = 200;
+
+/** Arguments that name memories by id. */
+const ID_ARGUMENTS = ["id", "ids", "sourceId", "targetId"];
+
+type ToolHandler = (...params: unknown[]) => CallToolResult | Promise<CallToolResult>;
+
+function shorten(value: unknown): unknown {
+  if (typeof value === "string") {
+    return value.length > MAX_ARGUMENT_LENGTH
+      ? `${value.slice(0, MAX_ARGUMENT_LENGTH)}… (${value.length} characters)`
+      : value;
+  }
+  if (Array.isArray(value)) return value.map(shorten);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, shorten(item)]));
+  }
+  return value;
+}
+
+/** Tool arguments as the audit log keeps them: secrets masked, long strings cut. */
+export function summarizeArguments(
+  args: Record<string, unknown>,
+  redactor: Redactor
+): Record<string, unknown> {
+  return shorten(redactor.mask(args)) as Record<string, unknown>;
+}
+
+function namedIds(args: Record<string, unknown>): string[] {
+  return ID_ARGUMENTS.flatMap((name) => {
+    const value = args[name];
+    if (typeof value === "string") return [value];
+    return Array.isArray(value) ? value.filter((item) => typeof item === "string") : [];
+  });
+}
+
+/** The first line of a failed call's text, which states the error. */
+function errorText(result: CallToolResult): string {
+  const text = result.content.find((part) => part.type === "text")?.text ?? "";
+  return text.split("\n")[0].slice(0, MAX_ARGUMENT_LENGTH);
+}
+
+/**
+ * Records every tool call on `server` in the store's audit log: the tool,
+ * its arguments, the outcome, the client from the initialize handshake and
+ * the memories the call named or changed. Call it before registering tools;
+ * it wraps `server.registerTool`. Returns a function that detaches the
+ * store listener.
+ */
+export function auditToolCalls(
+  server: McpServer,
+  store: MemoryBackend,
+  redactor: Redactor
+): () => void {
+  // Change events fire synchronously inside the store call, so they land in
+  // the set of the tool call that caused them, even with calls in flight.
+  const changedIds = new AsyncLocalStorage<Set<string>>();
+  const detach = store.onChange((event) => changedIds.getStore()?.add(event.id));
+
+  const record = (
+    tool: string,
+    args: Record<string, unknown>,
+    sessionId: string | undefined,
+    memoryIds: Set<string>,
+    status: AuditEntry["status"],
+    error: string | null
+  ) => {
+    const client = server.server.getClientVersion();
+    try {
+      store.recordAudit({
+        tool,
+        clientName: client?.name ?? null,
+        clientVersion: client?.version ?? null,
+        sessionId: sessionId ?? null,
+        arguments: summarizeArguments(args, redactor),
+        status,
+        error,
+        memoryIds: [...memoryIds],
+      });
+    } catch (failure) {
+      console.error("Could not write the audit log", failure);
+    }
+  };
+
+  const register = server.registerTool.bind(server) as (
+    name: string,
+    config: object,
+    callback: ToolHandler
+  ) => RegisteredTool;
+  server.registerTool = ((name: string, config: object, callback: ToolHandler) =>
+    register(name, config, async (...params) => {
+      // Tools with an input schema get (args, extra); the others only extra.
+      const extra = params[params.length - 1] as { sessionId?: string };
+      const args = (params.length > 1 ? params[0] : {}) as Record<string, unknown>;
+      const memoryIds = new Set(namedIds(args));
+      let result: CallToolResult;
+      try {
+        result = await changedIds.run(memoryIds, () => callback(...params));
+      } catch (error) {
+        record(name, args, extra.sessionId, memoryIds, "error", (error as Error).message);
+        throw error;
+      }
+      record(
+        name,
+        args,
+        extra.sessionId,
+        memoryIds,
+        result.isError ? "error" : "ok",
+        result.isError ? errorText(result) : null
+      );
+      return result;
+    })) as McpServer["registerTool"];
+
+  return detach;
+}
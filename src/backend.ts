@@ -0,0 +1,127 @@
+import type { Embedder } from "./embeddings.js";
+import type {
+  AddedMemory,
+  AuditEntry,
+  AuditEntryInput,
+  AuditQuery,
+  ChangeLog,
+  DuplicateGroup,
+  DuplicatePolicy,
+  ImportanceDecayPolicy,
+  ImportEntry,
+  ImportOptions,
+  ImportReport,
+  MaintenanceReport,
+  MemoryChangeEvent,
+  MemoryCreateInput,
+  MemoryFilters,
+  MemoryLink,
+  MemoryLinks,
+  MemoryLinkType,
+  MemoryListResult,
+  MemoryRecord,
+  MemoryRevision,
+  MemoryUpdateInput,
+  MergeMemoriesInput,
+  NamespaceCount,
+  NamespaceScope,
+  PortableMemory,
+  PurgeOptions,
+  RedactionPolicy,
+  RelatedMemory,
+  RelatedMemoryQuery,
+  RelevanceOptions,
+  RevisionDiff,
+  RevisionRetentionPolicy,
+  SensitiveMemory,
+  SimilarMemory,
+  SimilarMemoryQuery,
+  SyncReport,
+  TagCount,
+} from "./types.js";
+
+/** Behaviour shared by every backend. */
+export interface BackendOptions {
+  /** Computes the vectors behind `findSimilar`. Defaults to {@link HashingEmbedder}. */
+  embedder?: Embedder;
+  /** How much revision history to keep. Everything, until deletion, by default. */
+  revisions?: RevisionRetentionPolicy;
+  /** Days trashed memories are kept before maintenance purges them. Defaults to 30. */
+  trashRetentionDays?: number;
+  /** Lower the importance of memories nobody reads. Off by default. */
+  importanceDecay?: ImportanceDecayPolicy;
+  /** Weights of the `relevance` list order. */
+  relevance?: RelevanceOptions;
+  /** Near-duplicate check in `addMemory`. Warns at 0.55 similarity by default. */
+  duplicates?: DuplicatePolicy;
+  /** Secret and PII scanning in `addMemory` and `updateMemory`. Built-in detectors by default. */
+  redaction?: RedactionPolicy;
+  /** Days audit log entries are kept before maintenance drops them. Defaults to 90; 0 keeps no log. */
+  auditRetentionDays?: number;
+}
+
+/**
+ * Everything the MCP tools, resources and prompts need from storage.
+ * {@link MemoryStore} keeps memories in SQLite; {@link InMemoryBackend} and
+ * {@link JsonFileBackend} implement the same behaviour without it, for tests
+ * and for hosts that bring their own persistence.
+ */
+export interface MemoryBackend {
+  /** Storage schema version, shown in the server instructions when set. */
+  readonly schemaVersion?: number;
+
+  /** Registers a listener for add/update/delete. Returns an unsubscribe function. */
+  onChange(listener: (event: MemoryChangeEvent) => void): () => void;
+  close(): void;
+
+  /**
+   * Stores a new memory after the redaction scan and the duplicate check.
+   * Throws `SensitiveContentError` or `DuplicateMemoryError` when a policy
+   * refuses it.
+   */
+  addMemory(input: MemoryCreateInput): AddedMemory;
+  getMemory(id: string, options?: { includeDeleted?: boolean }): MemoryRecord | null;
+  listMemories(filters?: MemoryFilters): MemoryListResult;
+  findSimilar(query: SimilarMemoryQuery): SimilarMemory[];
+  /** Returns null when the memory is missing or trashed. */
+  updateMemory(input: MemoryUpdateInput): MemoryRecord | null;
+  deleteMemory(id: string): boolean;
+  restoreMemory(id: string): MemoryRecord | null;
+  purgeTrash(options?: PurgeOptions): string[];
+  /** Notes that memories were read, for the `relevance` order and importance decay. */
+  recordAccess(ids: string[]): void;
+  /** Expiry sweep, importance decay and trash retention in one pass. */
+  runMaintenance(): MaintenanceReport;
+
+  listRevisions(memoryId: string, limit?: number): MemoryRevision[];
+  getRevision(memoryId: string, revision: number): MemoryRevision | null;
+  diffRevisions(memoryId: string, from?: number, to?: number): RevisionDiff | null;
+  revertMemory(memoryId: string, revision: number): MemoryRecord | null;
+
+  findDuplicates(scope?: NamespaceScope, threshold?: number): DuplicateGroup[];
+  mergeMemories(input: MergeMemoriesInput): MemoryRecord | null;
+  scanMemories(scope?: NamespaceScope): SensitiveMemory[];
+
+  listTags(scope?: NamespaceScope): TagCount[];
+  renameTag(from: string, to: string, scope?: NamespaceScope): string[];
+  mergeTags(sources: string[], target: string, scope?: NamespaceScope): string[];
+  listNamespaces(): NamespaceCount[];
+  moveMemories(ids: string[], namespace: string): MemoryRecord[];
+
+  linkMemories(sourceId: string, targetId: string, type: MemoryLinkType): MemoryLink | null;
+  unlinkMemories(sourceId: string, targetId: string, type?: MemoryLinkType): number;
+  getLinks(id: string): MemoryLinks;
+  findRelated(query: RelatedMemoryQuery): RelatedMemory[];
+
+  exportMemories(filters?: MemoryFilters): PortableMemory[];
+  importMemories(entries: ImportEntry[], options?: ImportOptions): ImportReport;
+
+  /** Appends a tool call to the audit log. Returns null when the log is turned off. */
+  recordAudit(entry: AuditEntryInput): AuditEntry | null;
+  listAudit(query?: AuditQuery): AuditEntry[];
+
+  /** Every change this backend has recorded or received. Only backends with a change log sync. */
+  exportChanges?(): ChangeLog;
+  /** Merges another vault's change log field by field and reports the conflicts. */
+  applyChanges?(log: ChangeLog): SyncReport;
+}
@@ -0,0 +1,763 @@
+import fs from "fs";
+import process from "process";
+import { parseArgs, type ParseArgsConfig } from "util";
+import { AnchorError, formatAnchor, listAnchoredMemories, verifyAnchors } from "./anchors.js";
+import { resolveEncryptionKeySource, VaultKeyError } from "./crypto.js";
+import { DuplicateMemoryError } from "./duplicates.js";
+import { startContextMemoryHttpServer } from "./http.js";
+import { InvalidFilterError } from "./filters.js";
+import { SchemaVersionError } from "./migrations.js";
+import { filterExpressionSchema } from "./schemas.js";
+import { recallForTask } from "./recall.js";
+import { SensitiveContentError } from "./redaction.js";
+import {
+  ConfigError,
+  expiryFromTtl,
+  openVault,
+  resolveNamespace,
+  resolveStoragePaths,
+  resolveWorkspaceRoot,
+  startContextMemoryServer,
+} from "./server.js";
+import { MemoryStore } from "./storage.js";
+import { serializeChangeLog, syncVault } from "./sync.js";
+import { exportMemories, importMemories, TransferFormatError } from "./transfer.js";
+import type {
+  MemoryFilterExpression,
+  MemoryListItem,
+  MemoryRecord,
+  MemorySort,
+  MetadataPredicate,
+  MetadataScalar,
+  TransferFormat,
+} from "./types.js";
+
+/** Bad arguments. Exits with status 2 and a pointer to the help text. */
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+const EXIT_OK = 0;
+const EXIT_FAILURE = 1;
+const EXIT_USAGE = 2;
+
+const HELP = `Usage: context-memory-mcp-server [command] [options]
+
+Commands:
+  serve                  Run the MCP server (default). --http, --host, --port
+  list                   List memories. --tag, --meta path=value, --where <json>,
+                         --sort, --limit, --offset, --cursor
+  search <query>         Full-text search. Same options as list
+  recall <task>          Pack the memories relevant to a task into a token budget.
+                         --budget, --tag
+  get <id>               Show one memory
+  add [content|-]        Store a memory; - or no content reads stdin.
+                         --title, --tag, --importance, --ttl
+  delete <id>            Move a memory to the trash
+  export                 Write memories as JSONL or Markdown. --format, --output, --trash
+  import <file|->        Import an export. --format, --conflict
+  sync <file>            Merge another vault file or change log into this vault
+  changes                Write this vault's change log, for sync. --output
+  anchors [path]         Memories anchored to a workspace file or folder
+  verify-anchors [path]  Check code anchors; moved ones are re-anchored. --dry-run
+  audit                  Recorded MCP tool calls, newest first. --id, --client,
+                         --tool, --since, --until, --limit
+  stats                  Counts, sizes and schema version
+  doctor                 Integrity check, vacuum and WAL checkpoint. --no-vacuum
+  encrypt                Encrypt an existing plain vault
+  rotate-key             Re-encrypt the vault with a new key
+
+Common options:
+  --namespace <name>     Scope to a namespace (defaults like the server's)
+  --all-namespaces       Do not scope list, search or export
+  --json                 Machine-readable output
+  -h, --help             Show this help
+
+The vault location and keys come from the same environment variables as the server.`;
+
+const COMMON_OPTIONS = {
+  json: { type: "boolean" },
+  namespace: { type: "string" },
+  "all-namespaces": { type: "boolean" },
+  help: { type: "boolean", short: "h" },
+} satisfies ParseArgsConfig["options"];
+
+const NEW_KEY_ENV = {
+  passphrase: "MCP_CONTEXT_MEMORY_NEW_PASSPHRASE",
+  keyFile: "MCP_CONTEXT_MEMORY_NEW_KEYFILE",
+};
+
+type Options = Record<string, string | boolean | string[] | undefined>;
+
+interface CommandContext {
+  positionals: string[];
+  options: Options;
+  json: boolean;
+}
+
+function parse(args: string[], options: ParseArgsConfig["options"]) {
+  try {
+    const { values, positionals } = parseArgs({
+      args,
+      options: { ...COMMON_OPTIONS, ...options },
+      allowPositionals: true,
+      strict: true,
+    });
+    return { values: values as Options, positionals };
+  } catch (error) {
+    throw new UsageError((error as Error).message);
+  }
+}
+
+function print(context: CommandContext, payload: unknown, text: string) {
+  console.log(context.json ? JSON.stringify(payload, null, 2) : text);
+}
+
+function readInput(source: string | undefined) {
+  if (source === undefined || source === "-") {
+    return fs.readFileSync(0, "utf8");
+  }
+  return fs.readFileSync(source, "utf8");
+}
+
+function integerOption(options: Options, name: string) {
+  const value = options[name];
+  if (value === undefined) return undefined;
+  const number = Number(value);
+  if (!Number.isInteger(number)) {
+    throw new UsageError(`--${name} must be an integer`);
+  }
+  return number;
+}
+
+function choiceOption<T extends string>(options: Options, name: string, choices: readonly T[]) {
+  const value = options[name];
+  if (value === undefined) return undefined;
+  if (!choices.includes(value as T)) {
+    throw new UsageError(`--${name} must be one of ${choices.join(", ")}`);
+  }
+  return value as T;
+}
+
+function requirePositional(context: CommandContext, name: string) {
+  const [value] = context.positionals;
+  if (!value) {
+    throw new UsageError(`Missing <${name}>`);
+  }
+  return value;
+}
+
+/** Namespace filter: `--namespace`, all of them, or the server's default. */
+function scope(options: Options) {
+  if (options["all-namespaces"]) return {};
+  return { namespace: (options.namespace as string | undefined) ?? resolveNamespace() };
+}
+
+function formatLine(memory: MemoryListItem) {
+  const label = memory.title ?? memory.content.split("\n")[0];
+  const shortened = label.length > 72 ? `${label.slice(0, 71)}…` : label;
+  const tags = memory.tags.length > 0 ? `  [${memory.tags.join(", ")}]` : "";
+  return `${memory.id}  ${memory.updatedAt}  ${memory.namespace}  ${shortened}${tags}`;
+}
+
+function formatMemory(memory: MemoryRecord) {
+  const lines = [
+    `id:         ${memory.id}`,
+    `namespace:  ${memory.namespace}`,
+    `title:      ${memory.title ?? "(untitled)"}`,
+    `importance: ${memory.importance ?? "-"}`,
+    `tags:       ${memory.tags.join(", ") || "-"}`,
+    `created:    ${memory.createdAt}`,
+    `updated:    ${memory.updatedAt}`,
+  ];
+  if (memory.expiresAt) lines.push(`expires:    ${memory.expiresAt}`);
+  if (Object.keys(memory.metadata).length > 0) {
+    lines.push(`metadata:   ${JSON.stringify(memory.metadata)}`);
+  }
+  return [...lines, "", memory.content].join("\n");
+}
+
+function formatBytes(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KiB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MiB`;
+}
+
+/**
+ * Opens the vault like the server does, without the periodic maintenance
+ * timer. Read-only commands open the file read-only and skip the maintenance
+ * pass, so looking at the vault never writes to it, not even to upgrade it.
+ */
+function withStore<T>(run: (store: MemoryStore) => T, { readOnly = false } = {}): T {
+  const store = openVault({ maintenanceIntervalMinutes: 0 }, { readOnly });
+  try {
+    return run(store);
+  } finally {
+    store.close();
+  }
+}
+
+/** {@link withStore} for commands that only read the vault. */
+function withReadOnlyStore<T>(run: (store: MemoryStore) => T): T {
+  return withStore(run, { readOnly: true });
+}
+
+const LIST_OPTIONS = {
+  tag: { type: "string", multiple: true },
+  meta: { type: "string", multiple: true },
+  where: { type: "string" },
+  sort: { type: "string" },
+  limit: { type: "string" },
+  offset: { type: "string" },
+  cursor: { type: "string" },
+} satisfies ParseArgsConfig["options"];
+
+const SORTS: readonly MemorySort[] = ["updated", "created", "importance", "accessed", "relevance"];
+
+/**
+ * `--meta path=value` matches the value as text, and also as the JSON
+ * scalar it spells: `ticket=123` matches both `"123"` and `123`.
+ */
+function metadataOptions(options: Options): MetadataPredicate[] | undefined {
+  const values = options.meta as string[] | undefined;
+  return values?.map((value) => {
+    const separator = value.indexOf("=");
+    if (separator < 1) {
+      throw new UsageError("--meta takes path=value");
+    }
+    const text = value.slice(separator + 1);
+    let scalar: unknown;
+    try {
+      scalar = JSON.parse(text);
+    } catch {
+      scalar = text;
+    }
+    const alternatives =
+      scalar !== text && (scalar === null || typeof scalar !== "object") ? [text, scalar] : [text];
+    return { path: value.slice(0, separator), in: alternatives as MetadataScalar[] };
+  });
+}
+
+function whereOption(options: Options): MemoryFilterExpression | undefined {
+  const value = options.where as string | undefined;
+  if (value === undefined) return undefined;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    throw new UsageError("--where must be JSON");
+  }
+  const result = filterExpressionSchema.safeParse(parsed);
+  if (!result.success) {
+    throw new UsageError(`--where is not a valid filter: ${result.error.issues[0].message}`);
+  }
+  return result.data;
+}
+
+function listCommand(context: CommandContext, search?: string) {
+  const { options } = context;
+  return withReadOnlyStore((store) => {
+    const result = store.listMemories({
+      ...scope(options),
+      search,
+      tags: options.tag as string[] | undefined,
+      metadata: metadataOptions(options),
+      where: whereOption(options),
+      sort: choiceOption(options, "sort", SORTS),
+      limit: integerOption(options, "limit"),
+      offset: integerOption(options, "offset"),
+      cursor: options.cursor as string | undefined,
+    });
+    const lines = result.items.map((item) =>
+      item.snippet ? `${formatLine(item)}\n    ${item.snippet}` : formatLine(item)
+    );
+    print(
+      context,
+      result,
+      lines.length > 0
+        ? `${lines.join("\n")}\n\n${result.total} total, showing ${result.items.length}` +
+            (result.nextCursor ? `\nnext page: --cursor ${result.nextCursor}` : "")
+        : "No memories matched."
+    );
+    return EXIT_OK;
+  });
+}
+
+interface Command {
+  options?: ParseArgsConfig["options"];
+  run: (context: CommandContext) => Promise<number> | number;
+}
+
+const COMMANDS: Record<string, Command> = {
+  serve: {
+    options: {
+      http: { type: "boolean" },
+      host: { type: "string" },
+      port: { type: "string" },
+    },
+    run: async ({ options }) => {
+      const http = options.http || process.env.MCP_CONTEXT_MEMORY_TRANSPORT === "http";
+      if (http) {
+        const { url, waitUntilClosed } = await startContextMemoryHttpServer({
+          host: options.host as string | undefined,
+          port: integerOption(options, "port"),
+        });
+        console.error(`Context memory MCP server listening on ${url}`);
+        await waitUntilClosed;
+        return EXIT_OK;
+      }
+      const { waitUntilClosed } = await startContextMemoryServer();
+      await waitUntilClosed;
+      return EXIT_OK;
+    },
+  },
+  list: {
+    options: LIST_OPTIONS,
+    run: (context) => listCommand(context),
+  },
+  search: {
+    options: LIST_OPTIONS,
+    run: (context) => {
+      requirePositional(context, "query");
+      return listCommand(context, context.positionals.join(" "));
+    },
+  },
+  recall: {
+    options: {
+      budget: { type: "string" },
+      tag: { type: "string", multiple: true },
+    },
+    run: (context) => {
+      requirePositional(context, "task");
+      const { options } = context;
+      return withReadOnlyStore((store) => {
+        const result = recallForTask(store, {
+          task: context.positionals.join(" "),
+          budget: integerOption(options, "budget") ?? 2000,
+          tags: options.tag as string[] | undefined,
+          filters: scope(options),
+        });
+        const ids = (memories: typeof result.included) =>
+          memories.map((memory) => memory.id).join(", ") || "-";
+        print(
+          context,
+          result,
+          [
+            result.context || "No memories relevant to this task were found.",
+            "",
+            `${result.usedTokens} of ${result.budget} tokens (estimated)`,
+            `included: ${ids(result.included)}`,
+            `trimmed:  ${ids(result.trimmed)}`,
+            `omitted:  ${ids(result.omitted)}`,
+          ].join("\n")
+        );
+        return EXIT_OK;
+      });
+    },
+  },
+  get: {
+    run: (context) => {
+      const id = requirePositional(context, "id");
+      return withReadOnlyStore((store) => {
+        const memory = store.getMemory(id);
+        if (!memory) {
+          console.error(`No memory found for id ${id}`);
+          return EXIT_FAILURE;
+        }
+        print(context, { memory, links: store.getLinks(id) }, formatMemory(memory));
+        return EXIT_OK;
+      });
+    },
+  },
+  add: {
+    options: {
+      title: { type: "string" },
+      tag: { type: "string", multiple: true },
+      importance: { type: "string" },
+      ttl: { type: "string" },
+      "allow-duplicate": { type: "boolean" },
+    },
+    run: (context) => {
+      const { options, positionals } = context;
+      const content = (
+        positionals.length > 0 && positionals[0] !== "-"
+          ? positionals.join(" ")
+          : readInput("-")
+      ).trim();
+      if (!content) {
+        throw new UsageError("Content is empty");
+      }
+      const importance = integerOption(options, "importance");
+      if (importance !== undefined && (importance < 0 || importance > 10)) {
+        throw new UsageError("--importance must be between 0 and 10");
+      }
+      const expiresAt = options.ttl ? expiryFromTtl(options.ttl as string) : undefined;
+      if (expiresAt === null) {
+        throw new UsageError("--ttl must look like 30m, 12h, 7d or 2w");
+      }
+      return withStore((store) => {
+        const { duplicates, redactions, ...memory } = store.addMemory({
+          namespace: (options.namespace as string | undefined) ?? resolveNamespace(),
+          title: options.title as string | undefined,
+          content,
+          importance,
+          tags: options.tag as string[] | undefined,
+          expiresAt,
+          allowDuplicate: options["allow-duplicate"] as boolean | undefined,
+        });
+        const notes = [`Stored ${memory.id}`];
+        if (redactions) notes.push(`${redactions.length} sensitive value(s) masked or flagged`);
+        if (duplicates) {
+          notes.push(`similar: ${duplicates.map((duplicate) => duplicate.id).join(", ")}`);
+        }
+        print(context, { memory, duplicates, redactions }, notes.join("; "));
+        return EXIT_OK;
+      });
+    },
+  },
+  delete: {
+    run: (context) => {
+      const id = requirePositional(context, "id");
+      return withStore((store) => {
+        if (!store.deleteMemory(id)) {
+          console.error(`No memory found for id ${id}`);
+          return EXIT_FAILURE;
+        }
+        print(context, { deleted: id }, `Moved ${id} to the trash`);
+        return EXIT_OK;
+      });
+    },
+  },
+  export: {
+    options: {
+      format: { type: "string" },
+      output: { type: "string", short: "o" },
+      trash: { type: "string" },
+    },
+    run: (context) => {
+      const { options } = context;
+      const format = choiceOption<TransferFormat>(options, "format", ["jsonl", "markdown"]);
+      const trash = choiceOption(options, "trash", ["exclude", "include", "only"] as const);
+      return withReadOnlyStore((store) => {
+        const { count, data } = exportMemories(store, {
+          format,
+          filters: { ...scope(options), trash },
+        });
+        if (options.output) {
+          fs.writeFileSync(options.output as string, data);
+          console.error(`Exported ${count} memories to ${options.output}`);
+        } else {
+          process.stdout.write(data);
+        }
+        return EXIT_OK;
+      });
+    },
+  },
+  import: {
+    options: {
+      format: { type: "string" },
+      conflict: { type: "string" },
+    },
+    run: (context) => {
+      const { options } = context;
+      const format = choiceOption<TransferFormat>(options, "format", ["jsonl", "markdown"]);
+      const conflict = choiceOption(options, "conflict", [
+        "skip",
+        "overwrite",
+        "keep-newer",
+        "duplicate",
+      ] as const);
+      const data = readInput(context.positionals[0]);
+      return withStore((store) => {
+        const report = importMemories(store, data, {
+          format,
+          conflict,
+          namespace: options.namespace as string | undefined,
+          defaultNamespace: resolveNamespace(),
+        });
+        print(
+          context,
+          report,
+          [
+            `Imported ${report.total}: ${report.created} created, ${report.overwritten} overwritten, ` +
+              `${report.duplicated} duplicated, ${report.skipped} skipped, ${report.rejected} rejected`,
+            ...report.items.flatMap((item, index) =>
+              item.action === "rejected" ? [`  rejected entry ${index + 1}: ${item.reason}`] : []
+            ),
+          ].join("\n")
+        );
+        return EXIT_OK;
+      });
+    },
+  },
+  sync: {
+    run: (context) => {
+      const source = requirePositional(context, "file");
+      return withStore((store) => {
+        const report = syncVault(store, source, { encryption: resolveEncryptionKeySource() });
+        const lines = [
+          `Received ${report.received} changes from ${report.source}: ${report.created} created, ` +
+            `${report.updated} updated, ${report.trashed} trashed, ${report.restored} restored, ` +
+            `${report.purged} purged, ${report.links} links`,
+          ...report.conflicts.map(
+            (conflict) =>
+              `  conflict ${conflict.memoryId} ${conflict.field}: kept ${conflict.kept}` +
+              (conflict.title ? ` (${conflict.title})` : "")
+          ),
+          ...report.rejected.map((change) => `  rejected ${change.memoryId}: ${change.reason}`),
+        ];
+        print(context, report, lines.join("\n"));
+        return EXIT_OK;
+      });
+    },
+  },
+  changes: {
+    options: {
+      output: { type: "string", short: "o" },
+    },
+    // Not read-only: a copied vault must mint its own device id before its log is shared.
+    run: (context) =>
+      withStore((store) => {
+        const log = store.exportChanges();
+        const data = serializeChangeLog(log);
+        if (context.options.output) {
+          fs.writeFileSync(context.options.output as string, data);
+          console.error(`Wrote ${log.changes.length} changes to ${context.options.output}`);
+        } else {
+          process.stdout.write(data);
+        }
+        return EXIT_OK;
+      }),
+  },
+  anchors: {
+    run: (context) =>
+      withReadOnlyStore((store) => {
+        const target = context.positionals[0] ?? ".";
+        const items = listAnchoredMemories(
+          store,
+          resolveWorkspaceRoot(),
+          target,
+          scope(context.options)
+        );
+        const lines = items.map(({ memory, anchors }) =>
+          [
+            formatLine(memory),
+            ...anchors.map(
+              (anchor) => `    ${formatAnchor(anchor)}${anchor.broken ? "  broken" : ""}`
+            ),
+          ].join("\n")
+        );
+        print(context, items, lines.join("\n") || `No memories are anchored to ${target}`);
+        return EXIT_OK;
+      }),
+  },
+  "verify-anchors": {
+    options: {
+      "dry-run": { type: "boolean" },
+    },
+    run: (context) =>
+      withStore(
+        (store) => {
+          const report = verifyAnchors(store, resolveWorkspaceRoot(), {
+            path: context.positionals[0],
+            reanchor: !context.options["dry-run"],
+            scope: scope(context.options),
+          });
+          const lines = [
+            `checked: ${report.checked} anchor(s)`,
+            `status:  ${report.intact} intact, ${report.moved} moved, ${report.broken} broken`,
+            ...report.problems.map(
+              (problem) =>
+                `  ${problem.status.padEnd(7)} ${problem.memoryId}  ${formatAnchor(problem.anchor)}  ` +
+                (problem.movedTo ? `→ ${formatAnchor(problem.movedTo)}` : problem.reason)
+            ),
+            `updated: ${report.updated.join(", ") || "-"}`,
+          ];
+          print(context, report, lines.join("\n"));
+          return report.broken === 0 ? EXIT_OK : EXIT_FAILURE;
+        },
+        { readOnly: Boolean(context.options["dry-run"]) }
+      ),
+  },
+  audit: {
+    options: {
+      id: { type: "string" },
+      client: { type: "string" },
+      tool: { type: "string" },
+      since: { type: "string" },
+      until: { type: "string" },
+      limit: { type: "string" },
+    },
+    run: (context) => {
+      const { options } = context;
+      const query = {
+        memoryId: options.id as string | undefined,
+        clientName: options.client as string | undefined,
+        tool: options.tool as string | undefined,
+        since: options.since as string | undefined,
+        until: options.until as string | undefined,
+        limit: integerOption(options, "limit"),
+      };
+      return withReadOnlyStore((store) => {
+        const entries = store.listAudit(query);
+        const lines = entries.map(
+          (entry) =>
+            `${entry.at}  ${entry.tool.padEnd(20)} ${entry.clientName ?? "-"}` +
+            (entry.status === "error" ? `  failed: ${entry.error ?? "error"}` : "") +
+            (entry.memoryIds.length ? `  ${entry.memoryIds.join(", ")}` : "")
+        );
+        print(context, entries, lines.join("\n") || "No recorded tool calls");
+        return EXIT_OK;
+      });
+    },
+  },
+  stats: {
+    run: (context) =>
+      withReadOnlyStore((store) => {
+        const stats = store.getStats();
+        const namespaces = stats.namespaces
+          .map(({ namespace, count }) => `${namespace} (${count})`)
+          .join(", ");
+        const lines = [
+          `vault:      ${stats.dbPath} (${formatBytes(stats.sizeBytes)})`,
+          `schema:     v${stats.schemaVersion}${stats.encrypted ? ", encrypted" : ""}`,
+          `memories:   ${stats.memories} (${stats.expired} expired, ${stats.trashed} in trash)`,
+          `namespaces: ${namespaces || "-"}`,
+          `tags:       ${stats.tags}`,
+          `links:      ${stats.links}`,
+          `revisions:  ${stats.revisions}`,
+        ];
+        if (stats.oldest) lines.push(`range:      ${stats.oldest} – ${stats.newest}`);
+        print(context, stats, lines.join("\n"));
+        return EXIT_OK;
+      }),
+  },
+  doctor: {
+    options: {
+      "no-vacuum": { type: "boolean" },
+    },
+    run: (context) =>
+      withStore((store) => {
+        const before = store.getStats().sizeBytes;
+        const problems = store.checkIntegrity();
+        // Vacuuming a damaged file could make things worse.
+        const vacuumed = problems.length === 0 && !context.options["no-vacuum"];
+        if (vacuumed) store.vacuum();
+        const checkpoint = store.checkpoint();
+        const after = store.getStats().sizeBytes;
+        const lines = [
+          problems.length === 0 ? "integrity:  ok" : `integrity:  ${problems.length} problem(s)`,
+          ...problems.map((problem) => `  - ${problem}`),
+          checkpoint.busy
+            ? "checkpoint: busy, another connection holds the WAL"
+            : `checkpoint: ${checkpoint.checkpointedFrames} frame(s) written back`,
+          `vacuum:     ${vacuumed ? `${formatBytes(before)} → ${formatBytes(after)}` : "skipped"}`,
+        ];
+        const report = {
+          ok: problems.length === 0,
+          problems,
+          checkpoint,
+          vacuumed,
+          sizeBefore: before,
+          sizeAfter: after,
+        };
+        print(context, report, lines.join("\n"));
+        return problems.length === 0 ? EXIT_OK : EXIT_FAILURE;
+      }),
+  },
+  encrypt: {
+    run: () => {
+      const source = resolveEncryptionKeySource();
+      if (!source) {
+        throw new VaultKeyError("Set MCP_CONTEXT_MEMORY_PASSPHRASE or MCP_CONTEXT_MEMORY_KEYFILE");
+      }
+      const { dbPath } = resolveStoragePaths();
+      const store = new MemoryStore(dbPath);
+      try {
+        store.enableEncryption(source);
+      } finally {
+        store.close();
+      }
+      console.error(`Encrypted memory vault at ${dbPath}`);
+      return EXIT_OK;
+    },
+  },
+  "rotate-key": {
+    run: () => {
+      const current = resolveEncryptionKeySource();
+      const next = resolveEncryptionKeySource(undefined, NEW_KEY_ENV);
+      if (!current || !next) {
+        throw new VaultKeyError(
+          "Set the current key (MCP_CONTEXT_MEMORY_PASSPHRASE or MCP_CONTEXT_MEMORY_KEYFILE) and the new key (MCP_CONTEXT_MEMORY_NEW_PASSPHRASE or MCP_CONTEXT_MEMORY_NEW_KEYFILE)"
+        );
+      }
+      const { dbPath } = resolveStoragePaths();
+      const store = new MemoryStore(dbPath, { encryption: current });
+      try {
+        store.rotateKey(next);
+      } finally {
+        store.close();
+      }
+      console.error(`Rotated the key of memory vault at ${dbPath}`);
+      return EXIT_OK;
+    },
+  },
+};
+
+/** Errors whose message says everything; no stack trace needed. */
+function isUserError(error: unknown): error is Error {
+  return (
+    error instanceof VaultKeyError ||
+    error instanceof SchemaVersionError ||
+    error instanceof TransferFormatError ||
+    error instanceof DuplicateMemoryError ||
+    error instanceof SensitiveContentError ||
+    error instanceof InvalidFilterError ||
+    error instanceof AnchorError ||
+    error instanceof ConfigError
+  );
+}
+
+/**
+ * Runs one subcommand and resolves with its exit status: 0 on success, 1
+ * when the command failed (or `doctor` found problems), 2 for bad arguments.
+ */
+export async function runCli(argv: string[] = process.argv.slice(2)): Promise<number> {
+  const [first, ...rest] = argv;
+  if (first === "help" || first === "--help" || first === "-h") {
+    console.log(HELP);
+    return EXIT_OK;
+  }
+  const name = first === undefined || first.startsWith("-") ? "serve" : first;
+  const command = COMMANDS[name];
+  if (!command) {
+    console.error(`Unknown command: ${name}\n\n${HELP}`);
+    return EXIT_USAGE;
+  }
+
+  try {
+    const { values, positionals } = parse(name === first ? rest : argv, command.options ?? {});
+    if (values.help) {
+      console.log(HELP);
+      return EXIT_OK;
+    }
+    return await command.run({ positionals, options: values, json: Boolean(values.json) });
+  } catch (error) {
+    if (error instanceof UsageError) {
+      console.error(`${error.message}\nRun context-memory-mcp-server --help for usage.`);
+      return EXIT_USAGE;
+    }
+    if (name === "serve") {
+      console.error(
+        "Failed to start context memory MCP server",
+        isUserError(error) ? error.message : error
+      );
+    } else {
+      console.error(isUserError(error) ? error.message : error);
+    }
+    return EXIT_FAILURE;
+  }
+}
@@ -0,0 +1,147 @@
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from "crypto";
+import fs from "fs";
+import process from "process";
+
+const PREFIX = "enc:v1:";
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+const KEY_BYTES = 32;
+const CHECK_PLAINTEXT = "context-memory-vault";
+
+/** Thrown when an encrypted vault is opened without a key or with the wrong one. */
+export class VaultKeyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "VaultKeyError";
+  }
+}
+
+/** Where the vault key comes from. Exactly one of the two should be set. */
+export interface EncryptionKeySource {
+  passphrase?: string;
+  /** Path to a file whose raw bytes are used as the secret. */
+  keyFile?: string;
+}
+
+export interface KdfParams {
+  algorithm: "scrypt";
+  salt: string;
+  N: number;
+  r: number;
+  p: number;
+}
+
+export function resolveEncryptionKeySource(
+  source?: EncryptionKeySource,
+  env: { passphrase: string; keyFile: string } = {
+    passphrase: "MCP_CONTEXT_MEMORY_PASSPHRASE",
+    keyFile: "MCP_CONTEXT_MEMORY_KEYFILE",
+  }
+): EncryptionKeySource | undefined {
+  const passphrase = source?.passphrase ?? process.env[env.passphrase];
+  const keyFile = source?.keyFile ?? process.env[env.keyFile];
+  if (passphrase && keyFile) {
+    throw new VaultKeyError(
+      `Set either ${env.passphrase} or ${env.keyFile}, not both`
+    );
+  }
+  if (passphrase) return { passphrase };
+  if (keyFile) return { keyFile };
+  return undefined;
+}
+
+function readSecret(source: EncryptionKeySource): Buffer {
+  if (source.keyFile) {
+    let secret: Buffer;
+    try {
+      secret = fs.readFileSync(source.keyFile);
+    } catch (error) {
+      throw new VaultKeyError(
+        `Unable to read key file ${source.keyFile}: ${(error as Error).message}`
+      );
+    }
+    if (secret.length < 16) {
+      throw new VaultKeyError(`Key file ${source.keyFile} must contain at least 16 bytes`);
+    }
+    return secret;
+  }
+  if (source.passphrase) {
+    return Buffer.from(source.passphrase, "utf8");
+  }
+  throw new VaultKeyError("No passphrase or key file supplied");
+}
+
+export function createKdfParams(): KdfParams {
+  return { algorithm: "scrypt", salt: randomBytes(16).toString("base64"), N: 2 ** 15, r: 8, p: 1 };
+}
+
+/**
+ * Authenticated encryption (AES-256-GCM) for values stored in the vault. The
+ * key is derived from the passphrase or key file with scrypt.
+ */
+export class VaultCipher {
+  private constructor(private readonly key: Buffer) {}
+
+  static derive(source: EncryptionKeySource, params: KdfParams): VaultCipher {
+    const key = scryptSync(readSecret(source), Buffer.from(params.salt, "base64"), KEY_BYTES, {
+      N: params.N,
+      r: params.r,
+      p: params.p,
+      maxmem: 256 * params.N * params.r,
+    });
+    return new VaultCipher(key);
+  }
+
+  static isEncrypted(value: unknown): value is string {
+    return typeof value === "string" && value.startsWith(PREFIX);
+  }
+
+  encryptBuffer(plain: Buffer): Buffer {
+    const iv = randomBytes(IV_BYTES);
+    const cipher = createCipheriv("aes-256-gcm", this.key, iv);
+    const body = Buffer.concat([cipher.update(plain), cipher.final()]);
+    return Buffer.concat([iv, cipher.getAuthTag(), body]);
+  }
+
+  decryptBuffer(sealed: Buffer): Buffer {
+    const iv = sealed.subarray(0, IV_BYTES);
+    const tag = sealed.subarray(IV_BYTES, IV_BYTES + TAG_BYTES);
+    const body = sealed.subarray(IV_BYTES + TAG_BYTES);
+    try {
+      const decipher = createDecipheriv("aes-256-gcm", this.key, iv);
+      decipher.setAuthTag(tag);
+      return Buffer.concat([decipher.update(body), decipher.final()]);
+    } catch {
+      throw new VaultKeyError("Unable to decrypt vault data: wrong passphrase or key file");
+    }
+  }
+
+  encrypt(plain: string): string {
+    return PREFIX + this.encryptBuffer(Buffer.from(plain, "utf8")).toString("base64");
+  }
+
+  decrypt(value: string): string {
+    if (!VaultCipher.isEncrypted(value)) {
+      return value;
+    }
+    const sealed = Buffer.from(value.slice(PREFIX.length), "base64");
+    return this.decryptBuffer(sealed).toString("utf8");
+  }
+
+  /** A known value encrypted with this key, stored to detect a wrong key on open. */
+  createCheck(): string {
+    return this.encrypt(CHECK_PLAINTEXT);
+  }
+
+  verifyCheck(check: string) {
+    let plain: string;
+    try {
+      plain = this.decrypt(check);
+    } catch {
+      throw new VaultKeyError("Wrong passphrase or key file for this memory vault");
+    }
+    if (plain !== CHECK_PLAINTEXT) {
+      throw new VaultKeyError("Wrong passphrase or key file for this memory vault");
+    }
+  }
+}
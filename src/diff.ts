@@ -0,0 +1,53 @@
+export interface DiffLine {
+  type: "equal" | "added" | "removed";
+  text: string;
+}
+
+/**
+ * Line diff based on the longest common subsequence. Memories are short, so
+ * the quadratic table is cheap; very long inputs fall back to a plain
+ * remove-all/add-all diff to keep memory bounded.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split("\n");
+  const b = after.split("\n");
+  if (a.length * b.length > 4_000_000) {
+    return [
+      ...a.map((text) => ({ type: "removed" as const, text })),
+      ...b.map((text) => ({ type: "added" as const, text })),
+    ];
+  }
+
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: "equal", text: a[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      lines.push({ type: "removed", text: a[i++] });
+    } else {
+      lines.push({ type: "added", text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ type: "removed", text: a[i++] });
+  while (j < b.length) lines.push({ type: "added", text: b[j++] });
+  return lines;
+}
+
+export function formatDiff(lines: DiffLine[]): string {
+  const prefix = { equal: " ", added: "+", removed: "-" } as const;
+  return lines.map((line) => `${prefix[line.type]} ${line.text}`).join("\n");
+}
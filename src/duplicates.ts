@@ -0,0 +1,185 @@
+import { fnv1a, tokenizeWords } from "./embeddings.js";
+import { duplicateText } from "./records.js";
+import type { DuplicateCandidate, DuplicateGroup, MemoryRecord } from "./types.js";
+
+/** Thrown by `addMemory` when the duplicate policy rejects a near-duplicate. */
+export class DuplicateMemoryError extends Error {
+  constructor(readonly candidates: DuplicateCandidate[]) {
+    super(
+      `Similar memories already exist: ${candidates
+        .map((candidate) => `${candidate.id} (${Math.round(candidate.similarity * 100)}%)`)
+        .join(", ")}. Update or merge them instead, or pass allowDuplicate.`
+    );
+    this.name = "DuplicateMemoryError";
+  }
+}
+
+export const DEFAULT_DUPLICATE_THRESHOLD = 0.55;
+
+const SHINGLE_SIZE = 3;
+/** 16 bands of 3 rows: pairs at the default threshold become candidates ~95% of the time. */
+const MINHASH_BANDS = 16;
+const MINHASH_ROWS = 3;
+const MINHASH_SEEDS = Array.from({ length: MINHASH_BANDS * MINHASH_ROWS }, (_, index) =>
+  fnv1a(`minhash-${index}`)
+);
+
+/**
+ * Character trigrams of the lowercased words, so rewordings that keep most
+ * of the wording ("API server listens on port 8080" / "API server runs on
+ * port 8080") still overlap strongly.
+ */
+export function shingle(text: string): Set<string> {
+  const normalized = tokenizeWords(text).join(" ");
+  const shingles = new Set<string>();
+  if (normalized.length > 0 && normalized.length < SHINGLE_SIZE) {
+    shingles.add(normalized);
+  }
+  for (let i = 0; i + SHINGLE_SIZE <= normalized.length; i++) {
+    shingles.add(normalized.slice(i, i + SHINGLE_SIZE));
+  }
+  return shingles;
+}
+
+export function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+  let shared = 0;
+  for (const value of small) {
+    if (large.has(value)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+/** Murmur3's 32-bit finalizer, used to derive one hash function per seed. */
+function mix(value: number) {
+  let hash = value;
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return hash >>> 0;
+}
+
+function minHashSignature(shingles: Set<string>): Uint32Array {
+  const signature = new Uint32Array(MINHASH_SEEDS.length).fill(0xffffffff);
+  for (const value of shingles) {
+    const base = fnv1a(value);
+    for (let i = 0; i < MINHASH_SEEDS.length; i++) {
+      const hash = mix(base ^ MINHASH_SEEDS[i]);
+      if (hash < signature[i]) signature[i] = hash;
+    }
+  }
+  return signature;
+}
+
+export interface DuplicatePair {
+  a: number;
+  b: number;
+  similarity: number;
+}
+
+/**
+ * Pairs of texts whose shingle sets overlap by at least `threshold`. MinHash
+ * with banded locality-sensitive hashing picks candidate pairs, which are
+ * then checked exactly, so the whole vault is never compared pairwise.
+ */
+export function findDuplicatePairs(texts: string[], threshold: number): DuplicatePair[] {
+  const shingles = texts.map(shingle);
+  const buckets = new Map<string, number[]>();
+  shingles.forEach((set, index) => {
+    if (set.size === 0) return;
+    const signature = minHashSignature(set);
+    for (let band = 0; band < MINHASH_BANDS; band++) {
+      const rows = signature.subarray(band * MINHASH_ROWS, (band + 1) * MINHASH_ROWS);
+      const key = `${band}:${rows.join(",")}`;
+      const bucket = buckets.get(key);
+      if (bucket) bucket.push(index);
+      else buckets.set(key, [index]);
+    }
+  });
+
+  const seen = new Set<string>();
+  const pairs: DuplicatePair[] = [];
+  for (const bucket of buckets.values()) {
+    for (let i = 0; i < bucket.length; i++) {
+      for (let j = i + 1; j < bucket.length; j++) {
+        const key = `${bucket[i]}:${bucket[j]}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+        const similarity = jaccard(shingles[bucket[i]], shingles[bucket[j]]);
+        if (similarity >= threshold) {
+          pairs.push({ a: bucket[i], b: bucket[j], similarity });
+        }
+      }
+    }
+  }
+  return pairs;
+}
+
+/**
+ * Groups of near-duplicate memories, largest first. Memories are only
+ * compared within their own namespace; each member's `similarity` is its
+ * best match within the group.
+ */
+export function groupDuplicates(
+  memories: Array<Pick<MemoryRecord, "id" | "namespace" | "title" | "content">>,
+  threshold: number
+): DuplicateGroup[] {
+  const byNamespace = new Map<string, DuplicateCandidate[]>();
+  const texts = new Map<string, string[]>();
+  for (const memory of memories) {
+    if (!byNamespace.has(memory.namespace)) {
+      byNamespace.set(memory.namespace, []);
+      texts.set(memory.namespace, []);
+    }
+    byNamespace.get(memory.namespace)!.push({ id: memory.id, title: memory.title, similarity: 0 });
+    texts.get(memory.namespace)!.push(duplicateText(memory));
+  }
+
+  const groups: DuplicateGroup[] = [];
+  for (const [namespace, members] of byNamespace) {
+    const parent = members.map((_, index) => index);
+    const root = (index: number): number =>
+      parent[index] === index ? index : (parent[index] = root(parent[index]));
+    for (const { a, b, similarity } of findDuplicatePairs(texts.get(namespace)!, threshold)) {
+      members[a].similarity = Math.max(members[a].similarity, similarity);
+      members[b].similarity = Math.max(members[b].similarity, similarity);
+      parent[root(a)] = root(b);
+    }
+    const clusters = new Map<number, DuplicateCandidate[]>();
+    members.forEach((member, index) => {
+      if (member.similarity === 0) return;
+      const cluster = clusters.get(root(index)) ?? [];
+      cluster.push(member);
+      clusters.set(root(index), cluster);
+    });
+    for (const cluster of clusters.values()) {
+      groups.push({ memories: cluster.sort((a, b) => b.similarity - a.similarity) });
+    }
+  }
+  return groups.sort(
+    (a, b) =>
+      b.memories.length - a.memories.length ||
+      b.memories[0].similarity - a.memories[0].similarity
+  );
+}
+
+/** The `candidates` most similar to `text`, at or above `threshold`, best first. */
+export function rankNearDuplicates(
+  text: string,
+  candidates: Array<Pick<MemoryRecord, "id" | "title" | "content">>,
+  threshold: number
+): DuplicateCandidate[] {
+  const target = shingle(text);
+  return candidates
+    .map((candidate) => ({
+      id: candidate.id,
+      title: candidate.title,
+      similarity: jaccard(target, shingle(duplicateText(candidate))),
+    }))
+    .filter((candidate) => candidate.similarity >= threshold)
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, 5);
+}
@@ -0,0 +1,105 @@
+/**
+ * Turns text into a fixed-length vector. Implementations must be
+ * deterministic: stored vectors are only recomputed when `id` changes.
+ */
+export interface Embedder {
+  /** Stable identifier for the model and its settings, stored next to each vector. */
+  readonly id: string;
+  readonly dimensions: number;
+  embed(text: string): Float32Array | number[];
+}
+
+export interface HashingEmbedderOptions {
+  dimensions?: number;
+  /** Weight of character trigrams relative to whole words. */
+  ngramWeight?: number;
+}
+
+export function fnv1a(value: string, seed = 0x811c9dc5) {
+  let hash = seed;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export function tokenizeWords(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+/**
+ * Offline default embedder: hashes words and character trigrams into a
+ * signed feature vector (the "hashing trick") and L2-normalises it. It knows
+ * nothing about synonyms, but needs no model download or network access.
+ */
+export class HashingEmbedder implements Embedder {
+  readonly id: string;
+  readonly dimensions: number;
+  private readonly ngramWeight: number;
+
+  constructor(options: HashingEmbedderOptions = {}) {
+    this.dimensions = options.dimensions ?? 512;
+    this.ngramWeight = options.ngramWeight ?? 0.5;
+    this.id = `hashing-v1-${this.dimensions}-${this.ngramWeight}`;
+  }
+
+  embed(text: string): Float32Array {
+    const vector = new Float32Array(this.dimensions);
+    const add = (feature: string, weight: number) => {
+      const hash = fnv1a(feature);
+      const sign = fnv1a(feature, 0x9747b28c) & 1 ? 1 : -1;
+      vector[hash % this.dimensions] += sign * weight;
+    };
+
+    for (const word of tokenizeWords(text)) {
+      add(`w:${word}`, 1);
+      const padded = `^${word}$`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        add(`g:${padded.slice(i, i + 3)}`, this.ngramWeight);
+      }
+    }
+
+    return normalize(vector);
+  }
+}
+
+export function normalize(vector: Float32Array): Float32Array {
+  let norm = 0;
+  for (let i = 0; i < vector.length; i++) {
+    norm += vector[i] * vector[i];
+  }
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (let i = 0; i < vector.length; i++) {
+      vector[i] /= norm;
+    }
+  }
+  return vector;
+}
+
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  const length = Math.min(a.length, b.length);
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) {
+    return 0;
+  }
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+export function vectorToBuffer(vector: Float32Array | number[]): Buffer {
+  const floats = vector instanceof Float32Array ? vector : Float32Array.from(vector);
+  return Buffer.from(floats.buffer, floats.byteOffset, floats.byteLength);
+}
+
+export function bufferToVector(buffer: Buffer): Float32Array {
+  const copy = buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength);
+  return new Float32Array(copy);
+}
@@ -0,0 +1,339 @@
+import { isTagWithin, normalizeTags } from "./records.js";
+import { matchSearch, parseSearchQuery } from "./search.js";
+import type {
+  MemoryFilterCondition,
+  MemoryFilterExpression,
+  MemoryFilters,
+  MemoryRecord,
+  MemorySort,
+  MetadataPredicate,
+  MetadataScalar,
+} from "./types.js";
+
+/** Thrown for filters that cannot be run, such as a malformed cursor or metadata path. */
+export class InvalidFilterError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidFilterError";
+  }
+}
+
+/** Adds a parameter to the query and returns its placeholder. */
+export type BindParameter = (value: unknown) => string;
+
+const JSON_PATH = /^\$(?:\.(?:"[^"]*"|[^."[\]]+)|\[\d+\])*$/;
+
+/**
+ * Turns `owner.name` or `links.0` into the JSON path `$."owner"."name"` or
+ * `$."links"[0]`. Paths that already start with `$` are used as given.
+ */
+export function metadataJsonPath(path: string): string {
+  if (path.startsWith("$")) {
+    if (!JSON_PATH.test(path)) {
+      throw new InvalidFilterError(`Invalid metadata path: ${path}`);
+    }
+    return path;
+  }
+  const segments = path.split(".");
+  if (segments.some((segment) => segment.length === 0 || segment.includes('"'))) {
+    throw new InvalidFilterError(`Invalid metadata path: ${path}`);
+  }
+  return `$${segments
+    .map((segment) => (/^\d+$/.test(segment) ? `[${segment}]` : `."${segment}"`))
+    .join("")}`;
+}
+
+// JSON types as reported by json_type() and json_each().type.
+function scalarEquals(type: string, value: string, scalar: MetadataScalar, bind: BindParameter) {
+  if (scalar === null) return `${type} = 'null'`;
+  if (typeof scalar === "boolean") return `${type} = '${scalar}'`;
+  if (typeof scalar === "number") {
+    return `(${type} IN ('integer', 'real') AND ${value} = ${bind(scalar)})`;
+  }
+  return `(${type} = 'text' AND ${value} = ${bind(scalar)})`;
+}
+
+const RANGE_OPERATORS = [
+  ["gt", ">"],
+  ["gte", ">="],
+  ["lt", "<"],
+  ["lte", "<="],
+] as const;
+
+/**
+ * SQL condition for one metadata predicate, run through `json_extract` on
+ * `column` (the JSON text of a memory's metadata). Every operator set on
+ * the predicate must hold. Values only match their own JSON type: `"5"`
+ * does not equal `5`.
+ */
+export function metadataClause(
+  column: string,
+  predicate: MetadataPredicate,
+  bind: BindParameter
+): string {
+  const path = bind(metadataJsonPath(predicate.path));
+  const type = `json_type(${column}, ${path})`;
+  const value = `json_extract(${column}, ${path})`;
+  const clauses: string[] = [];
+
+  if (predicate.exists !== undefined) {
+    clauses.push(`${type} IS ${predicate.exists ? "NOT " : ""}NULL`);
+  }
+  if (predicate.equals !== undefined) {
+    clauses.push(scalarEquals(type, value, predicate.equals, bind));
+  }
+  if (predicate.in) {
+    const options = predicate.in.map((scalar) => scalarEquals(type, value, scalar, bind));
+    clauses.push(options.length > 0 ? `(${options.join(" OR ")})` : "0");
+  }
+  for (const [name, operator] of RANGE_OPERATORS) {
+    const bound = predicate[name];
+    if (typeof bound === "number") {
+      clauses.push(`(${type} IN ('integer', 'real') AND ${value} ${operator} ${bind(bound)})`);
+    }
+  }
+  if (predicate.contains !== undefined) {
+    const element = scalarEquals("element.type", "element.value", predicate.contains, bind);
+    const substring =
+      typeof predicate.contains === "string"
+        ? ` WHEN 'text' THEN instr(${value}, ${bind(predicate.contains)}) > 0`
+        : "";
+    clauses.push(
+      `(CASE ${type} WHEN 'array' THEN EXISTS (SELECT 1 FROM json_each(${column}, ${path}) AS element WHERE ${element})${substring} ELSE 0 END)`
+    );
+  }
+  return clauses.length > 0 ? `(${clauses.join(" AND ")})` : "1";
+}
+
+export type CursorKey = Array<string | number>;
+
+/** List orders that support cursors. `deleted` lists the trash by deletion time. */
+export type ListOrder = Exclude<MemorySort, "relevance"> | "deleted";
+
+/** The keyed order of a listing, or null when it is ranked by search or relevance. */
+export function resolveListOrder(
+  filters: Pick<MemoryFilters, "sort" | "trash">,
+  searching: boolean
+): ListOrder | null {
+  if (filters.sort === "relevance") return null;
+  if (filters.sort) return filters.sort;
+  if (searching) return null;
+  return filters.trash === "only" ? "deleted" : "updated";
+}
+
+/**
+ * Sort key of a memory in a keyed order; lists sort by it descending.
+ * Missing values sort last and the id breaks ties.
+ */
+export function listOrderKey(order: ListOrder, memory: MemoryRecord): CursorKey {
+  switch (order) {
+    case "updated":
+      return [memory.updatedAt, memory.id];
+    case "created":
+      return [memory.createdAt, memory.id];
+    case "importance":
+      return [memory.importance ?? -1, memory.updatedAt, memory.id];
+    case "accessed":
+      return [memory.lastAccessedAt ?? "", memory.updatedAt, memory.id];
+    case "deleted":
+      return [memory.deletedAt ?? "", memory.id];
+  }
+}
+
+const LIST_ORDER_KEY_LENGTHS: Record<ListOrder, number> = {
+  updated: 2,
+  created: 2,
+  importance: 3,
+  accessed: 3,
+  deleted: 2,
+};
+
+export function decodeListCursor(cursor: string, order: ListOrder | null): CursorKey {
+  if (!order) {
+    throw new InvalidFilterError(
+      "Cursors need a fixed order; sort by updated, created, importance or accessed"
+    );
+  }
+  return decodeCursor(cursor, order, LIST_ORDER_KEY_LENGTHS[order]);
+}
+
+/** An opaque page token: the list order and the sort key of the last item returned. */
+export function encodeCursor(order: string, key: CursorKey): string {
+  return Buffer.from(JSON.stringify({ order, key })).toString("base64url");
+}
+
+export function decodeCursor(cursor: string, order: string, length: number): CursorKey {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    throw new InvalidFilterError("Invalid cursor");
+  }
+  const { order: cursorOrder, key } = (decoded ?? {}) as { order?: unknown; key?: unknown };
+  if (
+    !Array.isArray(key) ||
+    key.length !== length ||
+    !key.every((part) => typeof part === "string" || typeof part === "number")
+  ) {
+    throw new InvalidFilterError("Invalid cursor");
+  }
+  if (cursorOrder !== order) {
+    throw new InvalidFilterError(
+      `This cursor belongs to the ${String(cursorOrder)} order; list with the same filters and sort`
+    );
+  }
+  return key as CursorKey;
+}
+
+/** Compares sort keys the way SQLite compares row values of the same types. */
+export function compareCursorKeys(a: CursorKey, b: CursorKey): number {
+  for (let index = 0; index < a.length; index += 1) {
+    const [left, right] = [a[index], b[index]];
+    if (left === right) continue;
+    if (typeof left === "number" && typeof right === "number") return left - right;
+    if (typeof left === "number") return -1;
+    if (typeof right === "number") return 1;
+    return Buffer.compare(Buffer.from(left), Buffer.from(right));
+  }
+  return 0;
+}
+
+// The functions below evaluate filters in JavaScript, for backends without
+// SQL. They follow the SQL built by MemoryStore clause for clause.
+
+type JsonType = "null" | "true" | "false" | "integer" | "real" | "text" | "array" | "object";
+
+function jsonType(value: unknown): JsonType | null {
+  if (value === undefined) return null;
+  if (value === null) return "null";
+  if (typeof value === "boolean") return value ? "true" : "false";
+  if (typeof value === "number") return Number.isInteger(value) ? "integer" : "real";
+  if (typeof value === "string") return "text";
+  return Array.isArray(value) ? "array" : "object";
+}
+
+/** The value at a JSON path, or undefined when the path does not exist. */
+function extractJson(value: unknown, jsonPath: string): unknown {
+  let current = value;
+  const segments = jsonPath.slice(1).matchAll(/\.(?:"([^"]*)"|([^."[\]]+))|\[(\d+)\]/g);
+  for (const [, quoted, plain, index] of segments) {
+    if (index !== undefined) {
+      if (!Array.isArray(current)) return undefined;
+      current = current[Number(index)];
+    } else {
+      if (!current || typeof current !== "object" || Array.isArray(current)) return undefined;
+      const key = quoted ?? plain;
+      current = Object.prototype.hasOwnProperty.call(current, key)
+        ? (current as Record<string, unknown>)[key]
+        : undefined;
+    }
+  }
+  return current;
+}
+
+function scalarMatches(value: unknown, scalar: MetadataScalar) {
+  const type = jsonType(value);
+  if (scalar === null) return type === "null";
+  if (typeof scalar === "boolean") return type === String(scalar);
+  if (typeof scalar === "number") return (type === "integer" || type === "real") && value === scalar;
+  return type === "text" && value === scalar;
+}
+
+/** Whether a memory's metadata satisfies a predicate, like {@link metadataClause}. */
+export function matchesMetadata(
+  metadata: Record<string, unknown>,
+  predicate: MetadataPredicate
+): boolean {
+  const value = extractJson(metadata, metadataJsonPath(predicate.path));
+  const type = jsonType(value);
+  const numeric = type === "integer" || type === "real";
+
+  if (predicate.exists !== undefined && (type !== null) !== predicate.exists) return false;
+  if (predicate.equals !== undefined && !scalarMatches(value, predicate.equals)) return false;
+  if (predicate.in && !predicate.in.some((scalar) => scalarMatches(value, scalar))) return false;
+  const number = value as number;
+  if (typeof predicate.gt === "number" && !(numeric && number > predicate.gt)) return false;
+  if (typeof predicate.gte === "number" && !(numeric && number >= predicate.gte)) return false;
+  if (typeof predicate.lt === "number" && !(numeric && number < predicate.lt)) return false;
+  if (typeof predicate.lte === "number" && !(numeric && number <= predicate.lte)) return false;
+  if (predicate.contains !== undefined) {
+    const { contains } = predicate;
+    const found =
+      type === "array"
+        ? (value as unknown[]).some((element) => scalarMatches(element, contains))
+        : type === "text" && typeof contains === "string" && (value as string).includes(contains);
+    if (!found) return false;
+  }
+  return true;
+}
+
+function matchesCondition(memory: MemoryRecord, condition: MemoryFilterCondition): boolean {
+  if (condition.namespace) {
+    if (memory.namespace !== condition.namespace) return false;
+  } else if (condition.namespaces && condition.namespaces.length > 0) {
+    if (!condition.namespaces.includes(memory.namespace)) return false;
+  }
+
+  if (condition.search) {
+    const tokens = parseSearchQuery(condition.search);
+    if (tokens.length > 0 && !matchSearch(tokens, memory)) return false;
+  }
+
+  const tags = normalizeTags(condition.tags);
+  if (tags.length > 0) {
+    const carries = (tag: string) => memory.tags.some((own) => isTagWithin(own, tag));
+    const tagMode = condition.tagMode ?? "all";
+    if (tagMode === "any" && !tags.some(carries)) return false;
+    if (tagMode === "none" && tags.some(carries)) return false;
+    if (tagMode === "all" && !tags.every(carries)) return false;
+  }
+
+  // Like SQL comparisons with NULL, a missing importance matches no bound.
+  const { importance } = memory;
+  if (typeof condition.minImportance === "number") {
+    if (importance === null || importance < condition.minImportance) return false;
+  }
+  if (typeof condition.maxImportance === "number") {
+    if (importance === null || importance > condition.maxImportance) return false;
+  }
+
+  if (condition.before && memory.updatedAt > condition.before) return false;
+  if (condition.after && memory.updatedAt < condition.after) return false;
+  if (condition.createdBefore && memory.createdAt > condition.createdBefore) return false;
+  if (condition.createdAfter && memory.createdAt < condition.createdAfter) return false;
+
+  return (condition.metadata ?? []).every((predicate) =>
+    matchesMetadata(memory.metadata, predicate)
+  );
+}
+
+function matchesExpression(memory: MemoryRecord, expression: MemoryFilterExpression): boolean {
+  if ("and" in expression) return expression.and.every((part) => matchesExpression(memory, part));
+  if ("or" in expression) return expression.or.some((part) => matchesExpression(memory, part));
+  if ("not" in expression) return !matchesExpression(memory, expression.not);
+  return matchesCondition(memory, expression);
+}
+
+/**
+ * Whether a memory passes the filters, apart from `limit`, `offset`,
+ * `cursor` and `sort`. `now` decides which memories count as expired.
+ */
+export function matchesFilters(
+  memory: MemoryRecord,
+  filters: MemoryFilters,
+  now = new Date().toISOString()
+): boolean {
+  const { trash, expired } = filters;
+  if (trash === "only" ? !memory.deletedAt : trash !== "include" && memory.deletedAt) {
+    return false;
+  }
+  const isExpired = memory.expiresAt !== undefined && memory.expiresAt <= now;
+  if (expired === "only" && !isExpired) return false;
+  if (expired !== "only" && expired !== "include" && isExpired && !memory.deletedAt) {
+    return false;
+  }
+  return (
+    matchesCondition(memory, filters) &&
+    (filters.where === undefined || matchesExpression(memory, filters.where))
+  );
+}
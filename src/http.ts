@@ -0,0 +1,297 @@
+import { randomUUID, timingSafeEqual } from "crypto";
+import http, { type IncomingMessage, type ServerResponse } from "http";
+import type { AddressInfo } from "net";
+import process from "process";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import type { MemoryBackend } from "./backend.js";
+import { createLifecycle } from "./lifecycle.js";
+import {
+  createContextMemoryServer,
+  openMemoryStore,
+  resolveStoragePaths,
+  type ContextMemoryServerOptions,
+} from "./server.js";
+
+export const DEFAULT_HTTP_HOST = "127.0.0.1";
+export const DEFAULT_HTTP_PORT = 3939;
+export const DEFAULT_HTTP_PATH = "/mcp";
+export const DEFAULT_SESSION_IDLE_MINUTES = 30;
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+export interface StartHttpServerOptions extends ContextMemoryServerOptions {
+  host?: string;
+  port?: number;
+  /** URL path serving the MCP endpoint. */
+  path?: string;
+  /** Static bearer token clients must send. Required unless bound to loopback. */
+  token?: string;
+  /**
+   * Minutes without a request after which a session is closed; its client
+   * gets a 404 and initializes a new one. Defaults to 30; 0 keeps sessions
+   * until the client deletes them or the server stops.
+   */
+  sessionIdleMinutes?: number;
+  enableSignalHandlers?: boolean;
+}
+
+export interface StartHttpServerResult {
+  httpServer: http.Server;
+  store: MemoryBackend;
+  url: string;
+  dataDir: string;
+  dbPath: string;
+  /** Number of MCP sessions currently open. */
+  sessionCount: () => number;
+  waitUntilClosed: Promise<void>;
+  shutdown: () => Promise<void>;
+}
+
+interface Session {
+  server: McpServer;
+  transport: StreamableHTTPServerTransport;
+  lastSeen: number;
+  /** Requests still being answered, such as an open SSE stream. */
+  active: number;
+}
+
+function isLoopback(host: string) {
+  return host === "localhost" || host === "::1" || host.startsWith("127.");
+}
+
+export function resolveHttpOptions(options: StartHttpServerOptions = {}) {
+  const envPort = process.env.MCP_CONTEXT_MEMORY_HTTP_PORT;
+  const port = options.port ?? (envPort ? Number(envPort) : DEFAULT_HTTP_PORT);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid HTTP port: ${envPort ?? options.port}`);
+  }
+  const envIdle = process.env.MCP_CONTEXT_MEMORY_HTTP_SESSION_IDLE_MINUTES;
+  const sessionIdleMinutes =
+    options.sessionIdleMinutes ?? (envIdle ? Number(envIdle) : DEFAULT_SESSION_IDLE_MINUTES);
+  if (!Number.isFinite(sessionIdleMinutes) || sessionIdleMinutes < 0) {
+    throw new Error(`Invalid session idle minutes: ${envIdle ?? options.sessionIdleMinutes}`);
+  }
+  return {
+    host: options.host ?? process.env.MCP_CONTEXT_MEMORY_HTTP_HOST ?? DEFAULT_HTTP_HOST,
+    port,
+    path: options.path ?? DEFAULT_HTTP_PATH,
+    token: options.token ?? process.env.MCP_CONTEXT_MEMORY_TOKEN ?? undefined,
+    sessionIdleMinutes,
+  };
+}
+
+function hasValidToken(req: IncomingMessage, token: string) {
+  const header = req.headers.authorization ?? "";
+  const match = /^Bearer\s+(.+)$/i.exec(header);
+  if (!match) return false;
+  const supplied = Buffer.from(match[1].trim());
+  const expected = Buffer.from(token);
+  return supplied.length === expected.length && timingSafeEqual(supplied, expected);
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, message: string) {
+  if (res.headersSent) return;
+  res.writeHead(status, { "Content-Type": "application/json" }).end(
+    JSON.stringify({
+      jsonrpc: "2.0",
+      error: { code: -32000, message },
+      id: null,
+    })
+  );
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error("Request body too large");
+    }
+    chunks.push(chunk as Buffer);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+}
+
+/**
+ * Serves the vault over the MCP streamable HTTP transport so several editors
+ * can share one database. Each client session gets its own `McpServer`, all
+ * backed by a single store.
+ */
+export async function startContextMemoryHttpServer(
+  options: StartHttpServerOptions = {}
+): Promise<StartHttpServerResult> {
+  const { enableSignalHandlers = true } = options;
+  const { host, port, path: endpoint, token, sessionIdleMinutes } = resolveHttpOptions(options);
+  if (!token && !isLoopback(host)) {
+    throw new Error(
+      `Refusing to listen on ${host} without a bearer token; set MCP_CONTEXT_MEMORY_TOKEN`
+    );
+  }
+
+  const { dataDir, dbPath } = resolveStoragePaths(options);
+  const store = openMemoryStore(options);
+  const sessions = new Map<string, Session>();
+  let allowedHosts: string[] = [];
+
+  const openSession = async () => {
+    const { server } = createContextMemoryServer({ ...options, store });
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (sessionId) => {
+        sessions.set(sessionId, { server, transport, lastSeen: Date.now(), active: 0 });
+      },
+      enableDnsRebindingProtection: isLoopback(host),
+      allowedHosts,
+    });
+    // connect() chains this handler with the server's own close handling.
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        sessions.delete(transport.sessionId);
+      }
+    };
+    await server.connect(transport);
+    return transport;
+  };
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    if (url.pathname !== endpoint) {
+      res.writeHead(404).end();
+      return;
+    }
+    if (token && !hasValidToken(req, token)) {
+      res.writeHead(401, { "WWW-Authenticate": 'Bearer realm="context-memory"' });
+      res.end();
+      return;
+    }
+
+    const sessionId = req.headers["mcp-session-id"];
+    const existing = typeof sessionId === "string" ? sessions.get(sessionId) : undefined;
+    if (sessionId && !existing) {
+      sendJsonRpcError(res, 404, "Unknown or expired session");
+      return;
+    }
+
+    let body: unknown;
+    if (req.method === "POST") {
+      try {
+        body = await readJsonBody(req);
+      } catch (error) {
+        sendJsonRpcError(res, 400, `Invalid request body: ${(error as Error).message}`);
+        return;
+      }
+    }
+
+    if (existing) {
+      existing.lastSeen = Date.now();
+      existing.active++;
+      res.once("close", () => {
+        existing.active--;
+        existing.lastSeen = Date.now();
+      });
+      await existing.transport.handleRequest(req, res, body);
+      return;
+    }
+    if (req.method === "POST" && isInitializeRequest(body)) {
+      const transport = await openSession();
+      await transport.handleRequest(req, res, body);
+      return;
+    }
+    sendJsonRpcError(res, 400, "Missing mcp-session-id header; initialize a session first");
+  };
+
+  const httpServer = http.createServer((req, res) => {
+    handle(req, res).catch((error: unknown) => {
+      console.error("Context memory HTTP request failed", error);
+      sendJsonRpcError(res, 500, "Internal server error");
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(port, host, () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+
+  const boundPort = (httpServer.address() as AddressInfo).port;
+  // Host headers bracket IPv6 addresses, as URLs do.
+  const displayHost = host.includes(":") ? `[${host}]` : host;
+  allowedHosts = [
+    ...new Set([
+      `${displayHost}:${boundPort}`,
+      `localhost:${boundPort}`,
+      `127.0.0.1:${boundPort}`,
+    ]),
+  ];
+  const url = `http://${displayHost}:${boundPort}${endpoint}`;
+
+  const closeIdleSessions = () => {
+    const cutoff = Date.now() - sessionIdleMinutes * 60 * 1000;
+    for (const { server, lastSeen, active } of [...sessions.values()]) {
+      if (active > 0 || lastSeen > cutoff) continue;
+      // The transport's onclose removes the session from the map.
+      server.close().catch((error: unknown) => {
+        console.error("Failed to close idle context memory MCP session", error);
+      });
+    }
+  };
+  const idleTimer =
+    sessionIdleMinutes > 0
+      ? setInterval(closeIdleSessions, Math.min(sessionIdleMinutes * 60 * 1000, 60 * 1000))
+      : undefined;
+  idleTimer?.unref();
+
+  const lifecycle = createLifecycle({
+    enableSignalHandlers,
+    onSignal: async (signal) => {
+      await Promise.all(
+        [...sessions.values()].map(({ server }) =>
+          server.sendLoggingMessage({
+            level: "info",
+            message: `Received ${signal}, shutting down context-memory-mcp-server`,
+          })
+        )
+      );
+    },
+    close: async () => {
+      clearInterval(idleTimer);
+      for (const { server } of [...sessions.values()]) {
+        try {
+          await server.close();
+        } catch (error) {
+          console.error("Failed to close context memory MCP session cleanly", error);
+        }
+      }
+      sessions.clear();
+
+      await new Promise<void>((resolve) => {
+        httpServer.close((error) => {
+          if (error) {
+            console.error("Failed to close context memory HTTP server cleanly", error);
+          }
+          resolve();
+        });
+        httpServer.closeAllConnections();
+      });
+    },
+  });
+  httpServer.on("error", (error) => {
+    console.error("Context memory HTTP server error", error);
+    lifecycle.fail(error);
+  });
+
+  return {
+    httpServer,
+    store,
+    url,
+    dataDir,
+    dbPath,
+    sessionCount: () => sessions.size,
+    waitUntilClosed: lifecycle.waitUntilClosed,
+    shutdown: () => lifecycle.shutdown(),
+  };
+}
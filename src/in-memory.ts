@@ -0,0 +1,1247 @@
+import { v4 as uuidv4 } from "uuid";
+import type { BackendOptions, MemoryBackend } from "./backend.js";
+import { diffLines, formatDiff } from "./diff.js";
+import {
+  DEFAULT_DUPLICATE_THRESHOLD,
+  DuplicateMemoryError,
+  groupDuplicates,
+  rankNearDuplicates,
+} from "./duplicates.js";
+import { cosineSimilarity, HashingEmbedder, type Embedder } from "./embeddings.js";
+import {
+  compareCursorKeys,
+  decodeListCursor,
+  encodeCursor,
+  listOrderKey,
+  matchesFilters,
+  resolveListOrder,
+  type CursorKey,
+} from "./filters.js";
+import { relevanceScore } from "./ranking.js";
+import {
+  changedFields,
+  clampImportance,
+  DEFAULT_NAMESPACE,
+  duplicateText,
+  embeddingText,
+  isTagWithin,
+  MEMORY_FIELDS,
+  normalizeTag,
+  normalizeTags,
+} from "./records.js";
+import { flagSensitive, Redactor, SensitiveContentError } from "./redaction.js";
+import { matchSearch, parseSearchQuery } from "./search.js";
+import type {
+  AddedMemory,
+  AuditEntry,
+  AuditEntryInput,
+  AuditQuery,
+  DuplicateCandidate,
+  DuplicateGroup,
+  DuplicatePolicy,
+  FieldChange,
+  ImportanceDecayPolicy,
+  ImportEntry,
+  ImportOptions,
+  ImportReport,
+  LinkedMemory,
+  MaintenanceReport,
+  MemoryChangeEvent,
+  MemoryCreateInput,
+  MemoryField,
+  MemoryFilters,
+  MemoryLink,
+  MemoryLinks,
+  MemoryLinkType,
+  MemoryListItem,
+  MemoryListResult,
+  MemoryRecord,
+  MemoryRevision,
+  MemoryUpdateInput,
+  MergeMemoriesInput,
+  NamespaceCount,
+  NamespaceScope,
+  PortableMemory,
+  PurgeOptions,
+  RedactionFinding,
+  RelatedMemory,
+  RelatedMemoryQuery,
+  RelevanceOptions,
+  RevisionDiff,
+  RevisionRetentionPolicy,
+  SensitiveMemory,
+  SimilarMemory,
+  SimilarMemoryQuery,
+  TagCount,
+} from "./types.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** A memory as the backend keeps it, with its access statistics and decay time. */
+export interface StoredMemory extends MemoryRecord {
+  accessCount: number;
+  /** When importance decay last lowered the importance. */
+  decayedAt?: string;
+}
+
+/** Everything an {@link InMemoryBackend} holds. */
+export interface BackendSnapshot {
+  memories: StoredMemory[];
+  revisions: MemoryRevision[];
+  links: MemoryLink[];
+  audit: AuditEntry[];
+}
+
+/**
+ * Keeps the vault in plain JavaScript structures, with the same filtering,
+ * ordering, revisions and policies as {@link MemoryStore}. Nothing survives
+ * the process; {@link JsonFileBackend} adds a file on top.
+ */
+export class InMemoryBackend implements MemoryBackend {
+  private memories = new Map<string, StoredMemory>();
+  private revisions = new Map<string, MemoryRevision[]>();
+  private links: MemoryLink[] = [];
+  private audit: AuditEntry[] = [];
+  private vectors = new Map<string, Float32Array>();
+  private readonly embedder: Embedder;
+  private readonly revisionPolicy: RevisionRetentionPolicy;
+  private readonly trashRetentionDays: number;
+  private readonly auditRetentionDays: number;
+  private readonly changeListeners = new Set<(event: MemoryChangeEvent) => void>();
+  private readonly decayPolicy: ImportanceDecayPolicy | undefined;
+  private readonly relevanceOptions: RelevanceOptions;
+  private readonly duplicatePolicy: DuplicatePolicy;
+  private readonly redactor: Redactor;
+  private transactionDepth = 0;
+
+  constructor(options: BackendOptions = {}) {
+    this.embedder = options.embedder ?? new HashingEmbedder();
+    this.revisionPolicy = options.revisions ?? {};
+    this.trashRetentionDays = options.trashRetentionDays ?? 30;
+    this.auditRetentionDays = options.auditRetentionDays ?? 90;
+    this.decayPolicy = options.importanceDecay;
+    this.relevanceOptions = options.relevance ?? {};
+    this.duplicatePolicy = options.duplicates ?? {};
+    this.redactor = new Redactor(options.redaction);
+  }
+
+  close() {}
+
+  /** Registers a listener for add/update/delete. Returns an unsubscribe function. */
+  onChange(listener: (event: MemoryChangeEvent) => void): () => void {
+    this.changeListeners.add(listener);
+    return () => {
+      this.changeListeners.delete(listener);
+    };
+  }
+
+  private emitChange(event: MemoryChangeEvent) {
+    for (const listener of this.changeListeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error("Memory change listener failed", error);
+      }
+    }
+  }
+
+  /** A deep copy of the vault. */
+  protected snapshot(): BackendSnapshot {
+    return structuredClone({
+      memories: [...this.memories.values()],
+      revisions: [...this.revisions.values()].flat(),
+      links: this.links,
+      audit: this.audit,
+    });
+  }
+
+  /** Replaces the vault with `snapshot`. */
+  protected restore(snapshot: BackendSnapshot) {
+    const copy = structuredClone(snapshot);
+    this.memories = new Map(copy.memories.map((memory) => [memory.id, memory]));
+    this.revisions = new Map();
+    for (const revision of copy.revisions.sort((a, b) => a.revision - b.revision)) {
+      const history = this.revisions.get(revision.memoryId) ?? [];
+      history.push(revision);
+      this.revisions.set(revision.memoryId, history);
+    }
+    this.links = copy.links;
+    this.audit = copy.audit;
+    this.vectors = new Map();
+    for (const memory of this.memories.values()) {
+      this.saveEmbedding(memory);
+    }
+  }
+
+  /** Called after every successful write; override to save the vault somewhere. */
+  protected persist() {}
+
+  /**
+   * Runs `write` as one unit: if it throws, every change it made is undone.
+   * Writes nested inside another share the outer one.
+   */
+  protected transaction<T>(write: () => T): T {
+    if (this.transactionDepth > 0) return write();
+    const before = this.snapshot();
+    this.transactionDepth++;
+    try {
+      const result = write();
+      this.persist();
+      return result;
+    } catch (error) {
+      this.restore(before);
+      throw error;
+    } finally {
+      this.transactionDepth--;
+    }
+  }
+
+  private saveEmbedding(memory: Pick<MemoryRecord, "id" | "title" | "content" | "tags">) {
+    this.vectors.set(memory.id, Float32Array.from(this.embedder.embed(embeddingText(memory))));
+  }
+
+  /** The caller's copy of a stored memory. */
+  private toRecord(memory: StoredMemory): MemoryRecord {
+    return {
+      id: memory.id,
+      namespace: memory.namespace,
+      title: memory.title,
+      content: memory.content,
+      importance: memory.importance,
+      tags: [...memory.tags],
+      metadata: structuredClone(memory.metadata),
+      createdAt: memory.createdAt,
+      updatedAt: memory.updatedAt,
+      ...(memory.deletedAt ? { deletedAt: memory.deletedAt } : {}),
+      ...(memory.expiresAt ? { expiresAt: memory.expiresAt } : {}),
+      ...(memory.lastAccessedAt ? { lastAccessedAt: memory.lastAccessedAt } : {}),
+      accessCount: memory.accessCount,
+    };
+  }
+
+  private insertMemory(record: MemoryRecord) {
+    const {
+      accessCount: _accessCount,
+      lastAccessedAt: _lastAccessedAt,
+      ...fields
+    } = structuredClone(record);
+    this.memories.set(record.id, { ...fields, accessCount: 0 });
+    this.saveEmbedding(record);
+  }
+
+  /**
+   * Stores a new memory. Secrets are masked, flagged or rejected (with a
+   * `SensitiveContentError`) per the redaction policy. Unless the duplicate
+   * policy is `off`, live memories in the same namespace are compared next:
+   * `reject` throws a {@link DuplicateMemoryError}, `warn` stores it and
+   * reports them.
+   */
+  addMemory(input: MemoryCreateInput): AddedMemory {
+    const id = uuidv4();
+    const now = new Date().toISOString();
+    const normalizedTags = normalizeTags(input.tags);
+    const namespace = input.namespace?.trim() || DEFAULT_NAMESPACE;
+
+    const { fields, findings: redactions } = this.redactor.redact({
+      title: input.title ?? null,
+      content: input.content,
+      metadata: input.metadata ?? {},
+    });
+    const title = fields.title ?? null;
+    const content = fields.content ?? input.content;
+
+    const action = this.duplicatePolicy.action ?? "warn";
+    const duplicates =
+      action === "off" ? [] : this.findNearDuplicates(duplicateText({ title, content }), namespace);
+    if (duplicates.length > 0 && action === "reject" && !input.allowDuplicate) {
+      throw new DuplicateMemoryError(duplicates);
+    }
+
+    const record: MemoryRecord = {
+      id,
+      namespace,
+      title,
+      content,
+      importance: clampImportance(input.importance),
+      tags: normalizedTags,
+      metadata: flagSensitive(fields.metadata ?? {}, redactions, Object.keys(fields)),
+      createdAt: now,
+      updatedAt: now,
+      ...(input.expiresAt ? { expiresAt: input.expiresAt } : {}),
+    };
+
+    this.transaction(() => {
+      this.insertMemory(record);
+      this.writeRevision(record, "create", MEMORY_FIELDS);
+    });
+
+    this.emitChange({ type: "added", id, tags: normalizedTags });
+
+    return {
+      ...record,
+      ...(duplicates.length > 0 ? { duplicates } : {}),
+      ...(redactions.length > 0 ? { redactions } : {}),
+    };
+  }
+
+  /** Live memories in `namespace` whose title and content resemble `text`, most similar first. */
+  findNearDuplicates(
+    text: string,
+    namespace: string,
+    threshold = this.duplicatePolicy.threshold ?? DEFAULT_DUPLICATE_THRESHOLD
+  ): DuplicateCandidate[] {
+    return rankNearDuplicates(
+      text,
+      [...this.memories.values()].filter(
+        (memory) => memory.namespace === namespace && !memory.deletedAt
+      ),
+      threshold
+    );
+  }
+
+  /**
+   * Groups of near-duplicate live memories in scope, largest first. Memories
+   * are only compared within their own namespace.
+   */
+  findDuplicates(
+    scope: NamespaceScope = {},
+    threshold = this.duplicatePolicy.threshold ?? DEFAULT_DUPLICATE_THRESHOLD
+  ): DuplicateGroup[] {
+    return groupDuplicates(this.select({ ...scope, expired: "include" }), threshold);
+  }
+
+  getMemory(id: string, options: { includeDeleted?: boolean } = {}): MemoryRecord | null {
+    const memory = this.memories.get(id);
+    if (!memory || (memory.deletedAt && !options.includeDeleted)) return null;
+    return this.toRecord(memory);
+  }
+
+  /** Stored memories passing the filters, search included, in insertion order. */
+  private select(filters: MemoryFilters): StoredMemory[] {
+    const now = new Date().toISOString();
+    return [...this.memories.values()].filter((memory) => matchesFilters(memory, filters, now));
+  }
+
+  listMemories(filters: MemoryFilters = {}): MemoryListResult {
+    const { limit = 50, offset = 0 } = filters;
+    const limitSafe = Math.min(Math.max(limit, 1), 200);
+    // A cursor replaces the offset.
+    const offsetSafe = filters.cursor ? 0 : Math.max(offset, 0);
+    const tokens = parseSearchQuery(filters.search ?? "");
+    const order = resolveListOrder(filters, tokens.length > 0);
+    const cursorKey = filters.cursor ? decodeListCursor(filters.cursor, order) : null;
+
+    const now = Date.now();
+    const matches: Array<{ memory: StoredMemory; key: CursorKey; score?: number; snippet?: string }> =
+      [];
+    for (const memory of this.select({ ...filters, search: undefined })) {
+      const key = listOrderKey(order ?? "updated", memory);
+      if (tokens.length === 0) {
+        matches.push({ memory, key });
+        continue;
+      }
+      const match = matchSearch(tokens, memory);
+      if (match) {
+        matches.push({ memory, key, score: match.score, snippet: match.snippet });
+      }
+    }
+    if (filters.sort === "relevance") {
+      for (const match of matches) {
+        match.score = relevanceScore(match.memory, match.score ?? 0, this.relevanceOptions, now);
+      }
+    }
+    // Keys descend; ranked lists fall back to the most recently updated first.
+    matches.sort(
+      (a, b) =>
+        (order ? 0 : (b.score ?? 0) - (a.score ?? 0)) || compareCursorKeys(b.key, a.key)
+    );
+
+    let start = offsetSafe;
+    if (cursorKey) {
+      start = matches.findIndex((match) => compareCursorKeys(match.key, cursorKey) < 0);
+      if (start === -1) start = matches.length;
+    }
+    const page = matches.slice(start, start + limitSafe);
+    const last = page[page.length - 1];
+    return {
+      items: page.map(({ memory, score, snippet }) => {
+        const item: MemoryListItem = this.toRecord(memory);
+        if (score !== undefined) item.score = score;
+        if (snippet !== undefined) item.snippet = snippet;
+        return item;
+      }),
+      total: matches.length,
+      limit: limitSafe,
+      offset: offsetSafe,
+      ...(order && start + limitSafe < matches.length
+        ? { nextCursor: encodeCursor(order, last.key) }
+        : {}),
+    };
+  }
+
+  findSimilar(query: SimilarMemoryQuery): SimilarMemory[] {
+    const { text, id, limit = 10, minScore = 0, filters = {} } = query;
+
+    let target: Float32Array;
+    if (id) {
+      const source = this.getMemory(id);
+      if (!source) return [];
+      target = Float32Array.from(this.embedder.embed(embeddingText(source)));
+    } else if (text && text.trim()) {
+      target = Float32Array.from(this.embedder.embed(text));
+    } else {
+      return [];
+    }
+
+    const limitSafe = Math.min(Math.max(limit, 1), 50);
+    return this.select(filters)
+      .filter((memory) => memory.id !== id)
+      .map((memory) => ({ memory, score: cosineSimilarity(target, this.vectors.get(memory.id)!) }))
+      .filter((candidate) => candidate.score >= minScore)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limitSafe)
+      .map(({ memory, score }) => ({ memory: this.toRecord(memory), score }));
+  }
+
+  updateMemory(input: MemoryUpdateInput): MemoryRecord | null {
+    return this.applyUpdate(input, "update", null);
+  }
+
+  private applyUpdate(
+    change: MemoryUpdateInput,
+    action: "update" | "revert",
+    revertedFrom: number | null
+  ): MemoryRecord | null {
+    const existing = this.getMemory(change.id);
+    if (!existing) return null;
+
+    // Reverts restore text that was scanned when it was first written.
+    let input = change;
+    let redactions: RedactionFinding[] = [];
+    let scanned: string[] = [];
+    if (action === "update") {
+      const { fields, findings } = this.redactor.redact({
+        ...(typeof change.title === "string" ? { title: change.title } : {}),
+        ...(change.content !== undefined ? { content: change.content } : {}),
+        ...(change.metadata ? { metadata: change.metadata } : {}),
+      });
+      input = { ...change, ...fields };
+      redactions = findings;
+      scanned = Object.keys(fields);
+    }
+
+    const nextTitle = input.title !== undefined ? input.title : existing.title;
+    const nextContent = input.content ?? existing.content;
+    const nextImportance =
+      input.importance !== undefined ? input.importance : existing.importance;
+    const nextTags =
+      input.tags !== undefined ? normalizeTags(input.tags ?? undefined) : existing.tags;
+    const nextMetadata =
+      input.metadata !== undefined ? input.metadata ?? {} : existing.metadata;
+    const now = new Date().toISOString();
+
+    const { expiresAt: previousExpiry, ...unchanged } = existing;
+    const nextExpiry = input.expiresAt !== undefined ? input.expiresAt : previousExpiry;
+    const updated: MemoryRecord = {
+      ...unchanged,
+      title: nextTitle ?? null,
+      content: nextContent,
+      importance: clampImportance(nextImportance),
+      tags: nextTags,
+      metadata: flagSensitive(nextMetadata, redactions, scanned),
+      updatedAt: now,
+      ...(nextExpiry ? { expiresAt: nextExpiry } : {}),
+    };
+    const changed = changedFields(existing, updated);
+
+    this.transaction(() => {
+      const stored = this.memories.get(existing.id)!;
+      const { expiresAt: _expiresAt, ...kept } = stored;
+      this.memories.set(existing.id, {
+        ...kept,
+        title: updated.title,
+        content: updated.content,
+        importance: updated.importance,
+        tags: [...updated.tags],
+        metadata: structuredClone(updated.metadata),
+        updatedAt: now,
+        ...(updated.expiresAt ? { expiresAt: updated.expiresAt } : {}),
+      });
+      this.saveEmbedding(updated);
+      if (changed.length > 0) {
+        if (this.latestRevisionNumber(existing.id) === 0) {
+          this.writeRevision(existing, "baseline", []);
+        }
+        this.writeRevision(updated, action, changed, revertedFrom);
+      }
+    });
+
+    this.emitChange({
+      type: "updated",
+      id: input.id,
+      tags: normalizeTags([...existing.tags, ...nextTags]),
+    });
+
+    return updated;
+  }
+
+  private latestRevisionNumber(memoryId: string): number {
+    const history = this.revisions.get(memoryId) ?? [];
+    return history.length > 0 ? history[history.length - 1].revision : 0;
+  }
+
+  private writeRevision(
+    memory: MemoryRecord,
+    action: MemoryRevision["action"],
+    fields: MemoryField[],
+    revertedFrom: number | null = null
+  ) {
+    const revision = this.latestRevisionNumber(memory.id) + 1;
+    const history = this.revisions.get(memory.id) ?? [];
+    history.push({
+      memoryId: memory.id,
+      revision,
+      action,
+      title: memory.title,
+      content: memory.content,
+      importance: memory.importance,
+      tags: [...memory.tags],
+      metadata: structuredClone(memory.metadata),
+      changedFields: [...fields],
+      revertedFrom,
+      createdAt: action === "baseline" ? memory.updatedAt : new Date().toISOString(),
+    });
+    this.revisions.set(memory.id, history);
+    this.pruneRevisions(memory.id, revision);
+  }
+
+  private pruneRevisions(memoryId: string, latest: number) {
+    const { maxPerMemory, maxAgeDays } = this.revisionPolicy;
+    let history = this.revisions.get(memoryId) ?? [];
+    if (typeof maxPerMemory === "number" && maxPerMemory > 0) {
+      history = history.filter((entry) => entry.revision > latest - maxPerMemory);
+    }
+    if (typeof maxAgeDays === "number" && maxAgeDays > 0) {
+      const cutoff = new Date(Date.now() - maxAgeDays * DAY_MS).toISOString();
+      history = history.filter((entry) => entry.revision >= latest || entry.createdAt >= cutoff);
+    }
+    this.revisions.set(memoryId, history);
+  }
+
+  /** Revisions of a memory, newest first. Works for deleted memories whose history was kept. */
+  listRevisions(memoryId: string, limit = 50): MemoryRevision[] {
+    return structuredClone(
+      [...(this.revisions.get(memoryId) ?? [])]
+        .reverse()
+        .slice(0, Math.min(Math.max(limit, 1), 200))
+    );
+  }
+
+  getRevision(memoryId: string, revision: number): MemoryRevision | null {
+    const found = (this.revisions.get(memoryId) ?? []).find((entry) => entry.revision === revision);
+    return found ? structuredClone(found) : null;
+  }
+
+  /**
+   * Compares two revisions. `to` defaults to the latest revision and `from`
+   * to the one before `to`. Returns null when either revision is missing.
+   */
+  diffRevisions(memoryId: string, from?: number, to?: number): RevisionDiff | null {
+    const toRevision = to ?? this.latestRevisionNumber(memoryId);
+    const target = this.getRevision(memoryId, toRevision);
+    if (!target) return null;
+    const earlier = (this.revisions.get(memoryId) ?? []).filter(
+      (entry) => entry.revision < toRevision
+    );
+    const fromRevision = from ?? earlier[earlier.length - 1]?.revision;
+    const source = fromRevision ? this.getRevision(memoryId, fromRevision) : null;
+    if (!source) return null;
+
+    const changes: FieldChange[] = MEMORY_FIELDS.filter(
+      (field) => JSON.stringify(source[field]) !== JSON.stringify(target[field])
+    ).map((field) => ({ field, before: source[field], after: target[field] }));
+
+    return {
+      memoryId,
+      from: source.revision,
+      to: target.revision,
+      changes,
+      contentDiff:
+        source.content === target.content
+          ? ""
+          : formatDiff(diffLines(source.content, target.content)),
+    };
+  }
+
+  /** Restores the fields of an earlier revision, recorded as a new revision. */
+  revertMemory(memoryId: string, revision: number): MemoryRecord | null {
+    const snapshot = this.getRevision(memoryId, revision);
+    if (!snapshot) return null;
+    return this.applyUpdate(
+      {
+        id: memoryId,
+        title: snapshot.title,
+        content: snapshot.content,
+        importance: snapshot.importance,
+        tags: snapshot.tags,
+        metadata: snapshot.metadata,
+      },
+      "revert",
+      revision
+    );
+  }
+
+  /**
+   * Folds the other memories in `ids` into the first: contents are joined
+   * (unless `content` is given), tags and metadata combined with the kept
+   * memory's values winning, and the highest importance kept. Returns null
+   * when any memory is missing or trashed.
+   */
+  mergeMemories(input: MergeMemoriesInput): MemoryRecord | null {
+    const ids = [...new Set(input.ids)];
+    if (ids.length < 2) {
+      throw new Error("Merging needs at least two distinct memories");
+    }
+    const memories = ids.map((id) => this.getMemory(id));
+    if (memories.some((memory) => !memory)) return null;
+    const [kept, ...sources] = memories as MemoryRecord[];
+
+    const contents: string[] = [];
+    for (const memory of [kept, ...sources]) {
+      const content = memory.content.trim();
+      if (!contents.includes(content)) contents.push(content);
+    }
+    const importances = [kept, ...sources]
+      .map((memory) => memory.importance)
+      .filter((importance): importance is number => importance !== null);
+
+    return this.transaction(() => {
+      const merged = this.applyUpdate(
+        {
+          id: kept.id,
+          title:
+            input.title !== undefined
+              ? input.title
+              : kept.title ?? sources.find((memory) => memory.title)?.title ?? null,
+          content: input.content ?? contents.join("\n\n"),
+          importance: importances.length > 0 ? Math.max(...importances) : null,
+          tags: [kept, ...sources].flatMap((memory) => memory.tags),
+          metadata: Object.assign(
+            {},
+            ...[...sources].reverse().map((memory) => memory.metadata),
+            kept.metadata
+          ),
+        },
+        "update",
+        null
+      );
+
+      for (const source of sources) {
+        if (input.sources === "link") {
+          this.linkMemories(kept.id, source.id, "supersedes");
+          continue;
+        }
+        // Edges that would duplicate one of the kept memory's, or point at it, stay behind.
+        for (const link of this.links) {
+          if (link.sourceId === source.id && link.targetId !== kept.id) {
+            if (!this.findLink(kept.id, link.targetId, link.type)) link.sourceId = kept.id;
+          }
+        }
+        for (const link of this.links) {
+          if (link.targetId === source.id && link.sourceId !== kept.id) {
+            if (!this.findLink(link.sourceId, kept.id, link.type)) link.targetId = kept.id;
+          }
+        }
+        this.deleteMemory(source.id);
+      }
+      return merged;
+    });
+  }
+
+  deleteMemory(id: string): boolean {
+    const existing = this.getMemory(id);
+    if (!existing) return false;
+    this.transaction(() => {
+      this.memories.get(id)!.deletedAt = new Date().toISOString();
+    });
+    this.emitChange({ type: "deleted", id, tags: existing.tags });
+    return true;
+  }
+
+  restoreMemory(id: string): MemoryRecord | null {
+    const trashed = this.getMemory(id, { includeDeleted: true });
+    if (!trashed || !trashed.deletedAt) return null;
+    const now = new Date().toISOString();
+    this.transaction(() => {
+      const memory = this.memories.get(id)!;
+      delete memory.deletedAt;
+      // An expiry that has passed would send the memory straight back to the trash.
+      if (memory.expiresAt && memory.expiresAt <= now) delete memory.expiresAt;
+    });
+    this.emitChange({ type: "added", id, tags: trashed.tags });
+    return this.getMemory(id);
+  }
+
+  /**
+   * Permanently removes trashed memories, optionally limited to some ids or
+   * to entries trashed before a cutoff. Returns the purged ids.
+   */
+  purgeTrash(options: PurgeOptions = {}): string[] {
+    if (options.ids && options.ids.length === 0) return [];
+    const only = options.ids ? new Set(options.ids) : null;
+    const inScope = (namespace: string) =>
+      options.namespace
+        ? namespace === options.namespace
+        : !options.namespaces?.length || options.namespaces.includes(namespace);
+    const ids = [...this.memories.values()]
+      .filter(
+        (memory) =>
+          memory.deletedAt &&
+          (!options.deletedBefore || memory.deletedAt < options.deletedBefore) &&
+          (!only || only.has(memory.id)) &&
+          inScope(memory.namespace)
+      )
+      .map((memory) => memory.id);
+    if (ids.length === 0) return [];
+
+    return this.transaction(() => {
+      const purged = new Set(ids);
+      for (const id of ids) {
+        if (!this.revisionPolicy.keepAfterDelete) {
+          this.revisions.delete(id);
+        }
+        this.memories.delete(id);
+        this.vectors.delete(id);
+      }
+      this.links = this.links.filter(
+        (link) => !purged.has(link.sourceId) && !purged.has(link.targetId)
+      );
+      return ids;
+    });
+  }
+
+  /**
+   * Live memories in scope whose title, content or metadata match a
+   * redaction rule, most recently updated first. Nothing is changed.
+   */
+  scanMemories(scope: NamespaceScope = {}): SensitiveMemory[] {
+    return this.select({ ...scope, expired: "include" })
+      .sort((a, b) => compareCursorKeys([b.updatedAt], [a.updatedAt]))
+      .flatMap((memory) => {
+        const findings = this.redactor.scan(memory);
+        return findings.length > 0
+          ? [{ id: memory.id, namespace: memory.namespace, title: memory.title, findings }]
+          : [];
+      });
+  }
+
+  /**
+   * Notes that memories were read: bumps `accessCount` and `lastAccessedAt`,
+   * which feed the `relevance` order and hold off importance decay.
+   */
+  recordAccess(ids: string[]) {
+    if (ids.length === 0) return;
+    const now = new Date().toISOString();
+    this.transaction(() => {
+      for (const id of new Set(ids)) {
+        const memory = this.memories.get(id);
+        if (!memory) continue;
+        memory.lastAccessedAt = now;
+        memory.accessCount++;
+      }
+    });
+  }
+
+  /** Moves memories whose expiry has passed to the trash. Returns their ids. */
+  sweepExpired(): string[] {
+    const now = new Date().toISOString();
+    const expired = [...this.memories.values()].filter(
+      (memory) => !memory.deletedAt && memory.expiresAt && memory.expiresAt <= now
+    );
+    if (expired.length === 0) return [];
+    this.transaction(() => {
+      for (const memory of expired) memory.deletedAt = now;
+    });
+    for (const memory of expired) {
+      this.emitChange({ type: "deleted", id: memory.id, tags: [...memory.tags] });
+    }
+    return expired.map((memory) => memory.id);
+  }
+
+  /**
+   * Applies the importance decay policy: memories idle (not read, updated or
+   * decayed) for `afterDays` lose `step` importance, down to `floor`. Decay
+   * does not touch `updatedAt` or write a revision. Returns the decayed ids.
+   */
+  decayImportance(): string[] {
+    const policy = this.decayPolicy;
+    if (!policy || !(policy.afterDays > 0)) return [];
+    const step = policy.step ?? 1;
+    const floor = policy.floor ?? 0;
+    const now = new Date();
+    const cutoff = new Date(now.getTime() - policy.afterDays * DAY_MS).toISOString();
+    const idle = [...this.memories.values()].filter((memory) => {
+      if (memory.deletedAt || memory.importance === null || memory.importance <= floor) {
+        return false;
+      }
+      const touched = [memory.updatedAt, memory.lastAccessedAt ?? "", memory.decayedAt ?? ""];
+      return touched.every((time) => time < cutoff);
+    });
+    if (idle.length === 0) return [];
+    this.transaction(() => {
+      for (const memory of idle) {
+        memory.importance = Math.max(floor, memory.importance! - step);
+        memory.decayedAt = now.toISOString();
+      }
+    });
+    for (const memory of idle) {
+      this.emitChange({ type: "updated", id: memory.id, tags: [...memory.tags] });
+    }
+    return idle.map((memory) => memory.id);
+  }
+
+  /** Expiry sweep, importance decay and trash retention in one pass. */
+  runMaintenance(): MaintenanceReport {
+    return {
+      expired: this.sweepExpired(),
+      decayed: this.decayImportance(),
+      purged: this.purgeExpiredTrash(),
+      auditPruned: this.pruneAudit(),
+    };
+  }
+
+  /** Purges memories that have been in the trash longer than the retention window. */
+  purgeExpiredTrash(): string[] {
+    const cutoff = new Date(Date.now() - this.trashRetentionDays * DAY_MS).toISOString();
+    return this.purgeTrash({ deletedBefore: cutoff });
+  }
+
+  /** Drops audit log entries older than the retention window. Returns how many went. */
+  pruneAudit(): number {
+    const cutoff = new Date(Date.now() - this.auditRetentionDays * DAY_MS).toISOString();
+    const kept = this.audit.filter((entry) => entry.at >= cutoff);
+    const pruned = this.audit.length - kept.length;
+    if (pruned > 0) {
+      this.transaction(() => {
+        this.audit = kept;
+      });
+    }
+    return pruned;
+  }
+
+  /** Appends a tool call to the audit log. Returns null when the log is turned off. */
+  recordAudit(entry: AuditEntryInput): AuditEntry | null {
+    if (this.auditRetentionDays <= 0) return null;
+    const { at = new Date().toISOString(), ...fields } = entry;
+    const recorded: AuditEntry = {
+      id: (this.audit[this.audit.length - 1]?.id ?? 0) + 1,
+      at,
+      ...fields,
+      memoryIds: [...new Set(entry.memoryIds)],
+    };
+    this.transaction(() => {
+      this.audit.push(structuredClone(recorded));
+    });
+    return recorded;
+  }
+
+  /** Audit log entries matching `query`, newest first. */
+  listAudit(query: AuditQuery = {}): AuditEntry[] {
+    return this.audit
+      .filter(
+        (entry) =>
+          (!query.memoryId || entry.memoryIds.includes(query.memoryId)) &&
+          (!query.clientName || entry.clientName === query.clientName) &&
+          (!query.tool || entry.tool === query.tool) &&
+          (!query.status || entry.status === query.status) &&
+          (!query.since || entry.at >= query.since) &&
+          (!query.until || entry.at <= query.until)
+      )
+      .reverse()
+      .slice(0, query.limit ?? 50)
+      .map((entry) => structuredClone(entry));
+  }
+
+  /** Every tag in use with the number of memories carrying it, most used first. */
+  listTags(scope: NamespaceScope = {}): TagCount[] {
+    const counts = new Map<string, number>();
+    for (const memory of this.select({ namespace: scope.namespace, namespaces: scope.namespaces })) {
+      for (const tag of memory.tags) {
+        counts.set(tag, (counts.get(tag) ?? 0) + 1);
+      }
+    }
+    return [...counts]
+      .map(([tag, count]) => ({ tag, count }))
+      .sort((a, b) => b.count - a.count || compareCursorKeys([a.tag], [b.tag]));
+  }
+
+  /**
+   * Renames a tag, and the tags nested below it, on every memory in scope
+   * (trashed ones included). Returns the ids of the memories that changed.
+   */
+  renameTag(from: string, to: string, scope: NamespaceScope = {}): string[] {
+    return this.mergeTags([from], to, scope);
+  }
+
+  /**
+   * Replaces each source tag (and its children, re-rooted under `target`)
+   * with `target` in one transaction. Memories that end up with the same tag
+   * twice keep one copy. Returns the ids of the memories that changed.
+   */
+  mergeTags(sources: string[], target: string, scope: NamespaceScope = {}): string[] {
+    const parents = normalizeTags(sources);
+    const destination = normalizeTag(target);
+    const retag = (tag: string) => {
+      const parent = parents.find((candidate) => isTagWithin(tag, candidate));
+      return parent === undefined ? tag : destination + tag.slice(parent.length);
+    };
+
+    const candidates = this.select({
+      namespace: scope.namespace,
+      namespaces: scope.namespaces,
+      tags: parents,
+      tagMode: "any",
+      trash: "include",
+      expired: "include",
+    });
+    const events: MemoryChangeEvent[] = [];
+    const changedIds = this.transaction(() => {
+      const now = new Date().toISOString();
+      const changed: string[] = [];
+      for (const memory of candidates) {
+        const existing = this.toRecord(memory);
+        const tags = normalizeTags(existing.tags.map(retag));
+        if (JSON.stringify(tags) === JSON.stringify(existing.tags)) continue;
+
+        const updated: MemoryRecord = { ...existing, tags, updatedAt: now };
+        memory.tags = tags;
+        memory.updatedAt = now;
+        this.saveEmbedding(updated);
+        if (this.latestRevisionNumber(memory.id) === 0) {
+          this.writeRevision(existing, "baseline", []);
+        }
+        this.writeRevision(updated, "update", ["tags"]);
+        changed.push(memory.id);
+        if (!existing.deletedAt) {
+          events.push({
+            type: "updated",
+            id: memory.id,
+            tags: normalizeTags([...existing.tags, ...tags]),
+          });
+        }
+      }
+      return changed;
+    });
+
+    for (const event of events) {
+      this.emitChange(event);
+    }
+    return changedIds;
+  }
+
+  listNamespaces(): NamespaceCount[] {
+    const counts = new Map<string, number>();
+    for (const memory of this.memories.values()) {
+      if (memory.deletedAt) continue;
+      counts.set(memory.namespace, (counts.get(memory.namespace) ?? 0) + 1);
+    }
+    return [...counts]
+      .map(([namespace, count]) => ({ namespace, count }))
+      .sort((a, b) => compareCursorKeys([a.namespace], [b.namespace]));
+  }
+
+  /** Moves memories into another namespace. Returns the memories that were moved. */
+  moveMemories(ids: string[], namespace: string): MemoryRecord[] {
+    const target = namespace.trim();
+    const moved = this.transaction(() => {
+      const now = new Date().toISOString();
+      return ids.filter((id) => {
+        const memory = this.memories.get(id);
+        if (!memory || memory.deletedAt || memory.namespace === target) return false;
+        memory.namespace = target;
+        memory.updatedAt = now;
+        return true;
+      });
+    });
+
+    return moved.flatMap((id) => {
+      const memory = this.getMemory(id);
+      if (!memory) return [];
+      this.emitChange({ type: "updated", id, tags: memory.tags });
+      return [memory];
+    });
+  }
+
+  private findLink(sourceId: string, targetId: string, type: MemoryLinkType) {
+    return this.links.find(
+      (link) => link.sourceId === sourceId && link.targetId === targetId && link.type === type
+    );
+  }
+
+  /** Adds an edge unless the same one exists. Returns whether it was added. */
+  private insertLink(sourceId: string, targetId: string, type: MemoryLinkType, createdAt: string) {
+    if (this.findLink(sourceId, targetId, type)) return false;
+    this.links.push({ sourceId, targetId, type, createdAt });
+    return true;
+  }
+
+  /**
+   * Adds a directed, typed edge between two live memories. Linking the same
+   * pair with the same type again is a no-op. Returns null when either memory
+   * is missing or trashed.
+   */
+  linkMemories(sourceId: string, targetId: string, type: MemoryLinkType): MemoryLink | null {
+    if (sourceId === targetId) {
+      throw new Error("A memory cannot link to itself");
+    }
+    if (!this.getMemory(sourceId) || !this.getMemory(targetId)) {
+      return null;
+    }
+    this.transaction(() => {
+      this.insertLink(sourceId, targetId, type, new Date().toISOString());
+    });
+    return { ...this.findLink(sourceId, targetId, type)! };
+  }
+
+  /** Removes the edges from `sourceId` to `targetId`, of one type or all. Returns how many. */
+  unlinkMemories(sourceId: string, targetId: string, type?: MemoryLinkType): number {
+    const removed = (link: MemoryLink) =>
+      link.sourceId === sourceId && link.targetId === targetId && (!type || link.type === type);
+    const count = this.links.filter(removed).length;
+    if (count === 0) return 0;
+    this.transaction(() => {
+      this.links = this.links.filter((link) => !removed(link));
+    });
+    return count;
+  }
+
+  /** Edges in creation order. */
+  private sortedLinks(): MemoryLink[] {
+    return [...this.links].sort((a, b) => compareCursorKeys([a.createdAt], [b.createdAt]));
+  }
+
+  /**
+   * Links of a memory in both directions. Edges to trashed memories are
+   * hidden until they are restored; purging removes them for good.
+   */
+  getLinks(id: string): MemoryLinks {
+    const collect = (own: "sourceId" | "targetId", peer: "sourceId" | "targetId") =>
+      this.sortedLinks().flatMap((link): LinkedMemory[] => {
+        const memory = link[own] === id ? this.memories.get(link[peer]) : undefined;
+        if (!memory || memory.deletedAt) return [];
+        return [{ id: memory.id, title: memory.title, type: link.type, createdAt: link.createdAt }];
+      });
+    return { outbound: collect("sourceId", "targetId"), inbound: collect("targetId", "sourceId") };
+  }
+
+  /**
+   * Walks the link graph breadth first from a memory, returning every memory
+   * reachable within `depth` hops together with the edge that reached it.
+   */
+  findRelated(query: RelatedMemoryQuery): RelatedMemory[] {
+    const depth = Math.max(1, query.depth ?? 1);
+    const limit = query.limit ?? 50;
+    const direction = query.direction ?? "both";
+    const types = query.types && query.types.length > 0 ? new Set(query.types) : null;
+
+    const visited = new Set([query.id]);
+    const related: RelatedMemory[] = [];
+    let frontier = [query.id];
+    for (let level = 1; level <= depth && frontier.length > 0; level++) {
+      const frontierSet = new Set(frontier);
+      const edges = this.sortedLinks().filter(
+        (link) =>
+          (!types || types.has(link.type)) &&
+          ((direction !== "inbound" && frontierSet.has(link.sourceId)) ||
+            (direction !== "outbound" && frontierSet.has(link.targetId)))
+      );
+      const next: string[] = [];
+      for (const link of edges) {
+        const candidates = [
+          direction !== "inbound" && frontierSet.has(link.sourceId) ? link.targetId : null,
+          direction !== "outbound" && frontierSet.has(link.targetId) ? link.sourceId : null,
+        ];
+        for (const peerId of candidates) {
+          if (!peerId || visited.has(peerId)) continue;
+          visited.add(peerId);
+          const memory = this.getMemory(peerId);
+          if (!memory) continue;
+          related.push({ memory, depth: level, via: { ...link } });
+          next.push(peerId);
+          if (related.length >= limit) return related;
+        }
+      }
+      frontier = next;
+    }
+    return related;
+  }
+
+  /**
+   * Every memory matching the filters (ignoring `limit`/`offset`), with its
+   * outbound links, in the shape `importMemories` accepts back.
+   */
+  exportMemories(filters: MemoryFilters = {}): PortableMemory[] {
+    const exported: PortableMemory[] = [];
+    const pageSize = 200;
+    let cursor: string | undefined;
+    for (let offset = 0; ; offset += pageSize) {
+      const page = this.listMemories({ ...filters, limit: pageSize, offset, cursor });
+      // Access statistics are local to this vault and would churn every export.
+      for (const {
+        score: _score,
+        snippet: _snippet,
+        lastAccessedAt: _lastAccessedAt,
+        accessCount: _accessCount,
+        ...memory
+      } of page.items) {
+        exported.push({
+          ...memory,
+          links: this.sortedLinks()
+            .filter((link) => link.sourceId === memory.id)
+            .map((link) => ({ type: link.type, targetId: link.targetId })),
+        });
+      }
+      if (page.items.length < pageSize || offset + pageSize >= page.total) break;
+      cursor = page.nextCursor;
+    }
+    return exported;
+  }
+
+  /**
+   * Imports memories in a single transaction, keeping their ids and
+   * timestamps. `conflict` decides what happens when an id already exists:
+   * keep the vault copy (`skip`, the default), replace it (`overwrite`),
+   * replace it only if the import was updated later (`keep-newer`), or store
+   * the import under a new id (`duplicate`). Links are recreated once every
+   * entry is in, pointing at the new ids of duplicated memories. Entries to
+   * be written pass the redaction policy like `addMemory`; those a `reject`
+   * rule refuses are left out and reported as `rejected`.
+   */
+  importMemories(entries: ImportEntry[], options: ImportOptions = {}): ImportReport {
+    const conflict = options.conflict ?? "skip";
+    const report: ImportReport = {
+      total: entries.length,
+      created: 0,
+      overwritten: 0,
+      skipped: 0,
+      duplicated: 0,
+      rejected: 0,
+      links: 0,
+      items: [],
+    };
+    const events: MemoryChangeEvent[] = [];
+
+    this.transaction(() => {
+      const now = new Date().toISOString();
+      const vaultIds = new Map<string, string>();
+      const written: Array<{ id: string; entry: ImportEntry }> = [];
+
+      for (const entry of entries) {
+        const existing = entry.id ? this.getMemory(entry.id, { includeDeleted: true }) : null;
+        const createdAt = entry.createdAt ?? now;
+        const updatedAt = entry.updatedAt ?? createdAt;
+        if (
+          existing &&
+          (conflict === "skip" ||
+            (conflict === "keep-newer" && Date.parse(updatedAt) <= Date.parse(existing.updatedAt)))
+        ) {
+          report.skipped++;
+          report.items.push({ id: existing.id, action: "skipped" });
+          continue;
+        }
+
+        let redacted: ReturnType<Redactor["redact"]>;
+        try {
+          redacted = this.redactor.redact({
+            title: entry.title ?? null,
+            content: entry.content,
+            metadata: entry.metadata ?? {},
+          });
+        } catch (error) {
+          if (!(error instanceof SensitiveContentError)) throw error;
+          report.rejected++;
+          report.items.push({
+            ...(entry.id ? { sourceId: entry.id } : {}),
+            action: "rejected",
+            reason: error.message,
+          });
+          continue;
+        }
+        const { fields, findings } = redacted;
+        const record: MemoryRecord = {
+          id: entry.id ?? uuidv4(),
+          namespace:
+            options.namespace ?? entry.namespace ?? options.defaultNamespace ?? DEFAULT_NAMESPACE,
+          title: fields.title ?? null,
+          content: fields.content ?? entry.content,
+          importance: clampImportance(entry.importance),
+          tags: normalizeTags(entry.tags),
+          metadata: flagSensitive(fields.metadata ?? {}, findings, Object.keys(fields)),
+          createdAt,
+          updatedAt,
+          ...(entry.deletedAt ? { deletedAt: entry.deletedAt } : {}),
+          ...(entry.expiresAt ? { expiresAt: entry.expiresAt } : {}),
+        };
+
+        if (!existing) {
+          this.insertMemory(record);
+          this.writeRevision(record, "create", MEMORY_FIELDS);
+          report.created++;
+          report.items.push({ id: record.id, action: "created" });
+          written.push({ id: record.id, entry });
+          if (!record.deletedAt) {
+            events.push({ type: "added", id: record.id, tags: record.tags });
+          }
+        } else if (conflict === "duplicate") {
+          const duplicate = { ...record, id: uuidv4() };
+          this.insertMemory(duplicate);
+          this.writeRevision(duplicate, "create", MEMORY_FIELDS);
+          vaultIds.set(record.id, duplicate.id);
+          report.duplicated++;
+          report.items.push({ id: duplicate.id, sourceId: record.id, action: "duplicated" });
+          written.push({ id: duplicate.id, entry });
+          if (!duplicate.deletedAt) {
+            events.push({ type: "added", id: duplicate.id, tags: duplicate.tags });
+          }
+        } else {
+          // Replace in place so links pointing at the memory survive; access statistics stay.
+          const {
+            deletedAt: _deletedAt,
+            expiresAt: _expiresAt,
+            ...stats
+          } = this.memories.get(existing.id)!;
+          this.memories.set(existing.id, { ...stats, ...structuredClone(record) });
+          this.saveEmbedding(record);
+          const changed = changedFields(existing, record);
+          if (changed.length > 0) {
+            if (this.latestRevisionNumber(existing.id) === 0) {
+              this.writeRevision(existing, "baseline", []);
+            }
+            this.writeRevision(record, "update", changed);
+          }
+          report.overwritten++;
+          report.items.push({ id: record.id, action: "overwritten" });
+          written.push({ id: record.id, entry });
+          events.push({
+            type: record.deletedAt ? "deleted" : "updated",
+            id: record.id,
+            tags: normalizeTags([...existing.tags, ...record.tags]),
+          });
+        }
+      }
+
+      for (const { id, entry } of written) {
+        for (const link of entry.links ?? []) {
+          const targetId = vaultIds.get(link.targetId) ?? link.targetId;
+          if (targetId === id || !this.memories.has(targetId)) continue;
+          if (this.insertLink(id, targetId, link.type, now)) report.links++;
+        }
+      }
+    });
+
+    for (const event of events) {
+      this.emitChange(event);
+    }
+    return report;
+  }
+}
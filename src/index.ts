@@ -1,20 +1,50 @@
 import process from "process";
 import { pathToFileURL } from "url";
-import { startContextMemoryServer } from "./server.js";
+import { runCli } from "./cli.js";
 
 export * from "./server.js";
+export * from "./http.js";
+export { HashingEmbedder, cosineSimilarity, type Embedder } from "./embeddings.js";
+export { VaultKeyError, type EncryptionKeySource } from "./crypto.js";
+export { DuplicateMemoryError } from "./duplicates.js";
+export { InvalidFilterError } from "./filters.js";
+export { Redactor, SensitiveContentError } from "./redaction.js";
+export { DEFAULT_NAMESPACE } from "./records.js";
+export { MemoryStore, type MemoryStoreOptions } from "./storage.js";
+export type { BackendOptions, MemoryBackend } from "./backend.js";
+export { InMemoryBackend } from "./in-memory.js";
+export { JsonFileBackend } from "./json-file.js";
+export { SCHEMA_VERSION, SchemaVersionError, type MigrationResult } from "./migrations.js";
+export {
+  exportMemories,
+  importMemories,
+  parseMemories,
+  serializeMemories,
+  TransferFormatError,
+  type ExportOptions,
+  type ImportDataOptions,
+} from "./transfer.js";
+export {
+  parseChangeLog,
+  readChangeLog,
+  serializeChangeLog,
+  syncVault,
+  type ReadChangeLogOptions,
+} from "./sync.js";
+export { estimateTokens, recallForTask } from "./recall.js";
+export {
+  AnchorError,
+  createAnchor,
+  listAnchoredMemories,
+  verifyAnchors,
+  type VerifyAnchorsOptions,
+} from "./anchors.js";
+export { runCli, UsageError } from "./cli.js";
 export { createContextMemoryServer as default } from "./server.js";
 
-async function runCli() {
-  try {
-    const { waitUntilClosed } = await startContextMemoryServer();
-    await waitUntilClosed;
-  } catch (error) {
-    console.error("Failed to start context memory MCP server", error);
-    process.exit(1);
-  }
-}
-
 if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
-  void runCli();
+  void runCli().then((code) => {
+    // serve resolves once the server has shut down.
+    process.exitCode = code;
+  });
 }
@@ -0,0 +1,61 @@
+import fs from "fs";
+import path from "path";
+import type { BackendOptions } from "./backend.js";
+import { InMemoryBackend, type BackendSnapshot } from "./in-memory.js";
+import { SchemaVersionError } from "./migrations.js";
+
+const FORMAT = "context-memory-vault";
+const FORMAT_VERSION = 1;
+
+interface VaultFile extends BackendSnapshot {
+  format: typeof FORMAT;
+  version: number;
+}
+
+/**
+ * An {@link InMemoryBackend} saved to a plain JSON file after every write.
+ * The file is replaced atomically, so a crash leaves the previous version.
+ * Only one process should open a file at a time.
+ */
+export class JsonFileBackend extends InMemoryBackend {
+  constructor(
+    readonly filePath: string,
+    options: BackendOptions = {}
+  ) {
+    super(options);
+    if (fs.existsSync(filePath)) {
+      this.restore(readVaultFile(filePath));
+    }
+  }
+
+  protected override persist() {
+    const file: VaultFile = { format: FORMAT, version: FORMAT_VERSION, ...this.snapshot() };
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const temporary = `${this.filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(temporary, `${JSON.stringify(file, null, 2)}\n`);
+    fs.renameSync(temporary, this.filePath);
+  }
+}
+
+function readVaultFile(filePath: string): BackendSnapshot {
+  let parsed: Partial<VaultFile>;
+  try {
+    parsed = JSON.parse(fs.readFileSync(filePath, "utf8")) as Partial<VaultFile>;
+  } catch (error) {
+    throw new Error(`Could not read memory vault ${filePath}: ${(error as Error).message}`);
+  }
+  if (parsed?.format !== FORMAT || typeof parsed.version !== "number") {
+    throw new Error(`${filePath} is not a memory vault file`);
+  }
+  if (parsed.version > FORMAT_VERSION) {
+    throw new SchemaVersionError(
+      `${filePath} uses vault file version ${parsed.version}, newer than the supported ${FORMAT_VERSION}; upgrade the server`
+    );
+  }
+  return {
+    memories: parsed.memories ?? [],
+    revisions: parsed.revisions ?? [],
+    links: parsed.links ?? [],
+    audit: parsed.audit ?? [],
+  };
+}
@@ -0,0 +1,85 @@
+import process from "process";
+
+export interface LifecycleOptions {
+  enableSignalHandlers: boolean;
+  /** Announces the shutdown before closing, e.g. as an MCP log message. */
+  onSignal?: (signal: NodeJS.Signals) => Promise<void>;
+  /** Releases the server and transport(s). Errors are logged, never thrown. */
+  close: () => Promise<void>;
+}
+
+export interface Lifecycle {
+  waitUntilClosed: Promise<void>;
+  shutdown: (signal?: NodeJS.Signals) => Promise<void>;
+  /** Marks the server as closed without running `close` again. */
+  finalize: () => void;
+  /** Rejects `waitUntilClosed` and shuts down. */
+  fail: (error: unknown) => void;
+}
+
+/**
+ * Shared shutdown bookkeeping for every transport: idempotent shutdown,
+ * SIGINT/SIGTERM handling and a promise that settles once the server is gone.
+ */
+export function createLifecycle(options: LifecycleOptions): Lifecycle {
+  let closing = false;
+  let closed = false;
+
+  let resolveWait!: () => void;
+  let rejectWait!: (reason: unknown) => void;
+
+  const waitUntilClosed = new Promise<void>((resolve, reject) => {
+    resolveWait = resolve;
+    rejectWait = reject;
+  });
+
+  const signalHandlers: Array<{ signal: NodeJS.Signals; handler: () => void }> = [];
+  const finalize = () => {
+    if (closed) {
+      return;
+    }
+    closed = true;
+    for (const { signal, handler } of signalHandlers) {
+      process.off(signal, handler);
+    }
+    resolveWait();
+  };
+
+  const shutdown = async (signal?: NodeJS.Signals) => {
+    if (closing) {
+      return;
+    }
+    closing = true;
+
+    if (signal && options.onSignal) {
+      await options.onSignal(signal).catch(() => {
+        /* ignore logging errors during shutdown */
+      });
+    }
+
+    await options.close();
+    finalize();
+  };
+
+  const fail = (error: unknown) => {
+    rejectWait(error);
+    void shutdown();
+  };
+
+  if (options.enableSignalHandlers) {
+    const makeHandler = (signal: NodeJS.Signals) => () => {
+      void shutdown(signal);
+    };
+
+    const sigintHandler = makeHandler("SIGINT");
+    const sigtermHandler = makeHandler("SIGTERM");
+
+    signalHandlers.push({ signal: "SIGINT", handler: sigintHandler });
+    signalHandlers.push({ signal: "SIGTERM", handler: sigtermHandler });
+
+    process.once("SIGINT", sigintHandler);
+    process.once("SIGTERM", sigtermHandler);
+  }
+
+  return { waitUntilClosed, shutdown, finalize, fail };
+}
@@ -0,0 +1,238 @@
+import type Database from "better-sqlite3";
+
+/** Thrown when a database was written by a newer version of the server. */
+export class SchemaVersionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SchemaVersionError";
+  }
+}
+
+export interface Migration {
+  /** Value of `PRAGMA user_version` once the migration has run. */
+  version: number;
+  description: string;
+  up: (db: Database.Database) => void;
+}
+
+export interface MigrationResult {
+  from: number;
+  to: number;
+  /** Copy of the database taken before upgrading, if one was made. */
+  backupPath: string | null;
+}
+
+/**
+ * Adds a column unless it exists. Databases from before versioning started
+ * may already have some of the columns a migration introduces.
+ */
+function addColumn(db: Database.Database, table: string, column: string, definition: string) {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+  if (!columns.some((existing) => existing.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+/**
+ * Ordered schema changes. Append new entries with the next version number and
+ * never edit one that has shipped. Early steps use IF NOT EXISTS because
+ * unversioned databases (user_version 0) may already contain their tables.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "memories, embeddings and vault metadata",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS memories (
+          id TEXT PRIMARY KEY,
+          title TEXT,
+          content TEXT NOT NULL,
+          importance INTEGER,
+          tags TEXT NOT NULL DEFAULT '[]',
+          metadata TEXT NOT NULL DEFAULT '{}',
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_memories_updated_at ON memories(updated_at DESC);
+        CREATE INDEX IF NOT EXISTS idx_memories_importance ON memories(importance);
+
+        CREATE TABLE IF NOT EXISTS memory_embeddings (
+          memory_id TEXT PRIMARY KEY REFERENCES memories(id) ON DELETE CASCADE,
+          model TEXT NOT NULL,
+          dimensions INTEGER NOT NULL,
+          vector BLOB NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS vault_meta (
+          key TEXT PRIMARY KEY,
+          value TEXT NOT NULL
+        );
+      `);
+    },
+  },
+  {
+    version: 2,
+    description: "revision history",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS memory_revisions (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          memory_id TEXT NOT NULL,
+          revision INTEGER NOT NULL,
+          action TEXT NOT NULL,
+          title TEXT,
+          content TEXT NOT NULL,
+          importance INTEGER,
+          tags TEXT NOT NULL DEFAULT '[]',
+          metadata TEXT NOT NULL DEFAULT '{}',
+          changed_fields TEXT NOT NULL DEFAULT '[]',
+          reverted_from INTEGER,
+          created_at TEXT NOT NULL,
+          UNIQUE (memory_id, revision)
+        );
+      `);
+    },
+  },
+  {
+    version: 3,
+    description: "trash",
+    up: (db) => {
+      addColumn(db, "memories", "deleted_at", "TEXT");
+      db.exec(`CREATE INDEX IF NOT EXISTS idx_memories_deleted_at ON memories(deleted_at);`);
+    },
+  },
+  {
+    version: 4,
+    description: "namespaces",
+    up: (db) => {
+      addColumn(db, "memories", "namespace", `TEXT NOT NULL DEFAULT 'default'`);
+      db.exec(
+        `CREATE INDEX IF NOT EXISTS idx_memories_namespace ON memories(namespace, updated_at DESC);`
+      );
+    },
+  },
+  {
+    version: 5,
+    description: "links between memories",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS memory_links (
+          source_id TEXT NOT NULL REFERENCES memories(id) ON DELETE CASCADE,
+          target_id TEXT NOT NULL REFERENCES memories(id) ON DELETE CASCADE,
+          type TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          PRIMARY KEY (source_id, target_id, type)
+        );
+        CREATE INDEX IF NOT EXISTS idx_memory_links_target ON memory_links(target_id);
+      `);
+    },
+  },
+  {
+    version: 6,
+    description: "expiry and read tracking",
+    up: (db) => {
+      addColumn(db, "memories", "expires_at", "TEXT");
+      addColumn(db, "memories", "last_accessed_at", "TEXT");
+      addColumn(db, "memories", "decayed_at", "TEXT");
+      db.exec(`CREATE INDEX IF NOT EXISTS idx_memories_expires_at ON memories(expires_at);`);
+    },
+  },
+  {
+    version: 7,
+    description: "access counts",
+    up: (db) => {
+      addColumn(db, "memories", "access_count", "INTEGER NOT NULL DEFAULT 0");
+    },
+  },
+  {
+    version: 8,
+    description: "change log for sync",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS memory_changes (
+          device_id TEXT NOT NULL,
+          clock INTEGER NOT NULL,
+          memory_id TEXT NOT NULL,
+          fields TEXT NOT NULL,
+          changed_at TEXT NOT NULL,
+          PRIMARY KEY (device_id, clock)
+        );
+        CREATE INDEX IF NOT EXISTS idx_memory_changes_memory ON memory_changes(memory_id);
+      `);
+    },
+  },
+  {
+    version: 9,
+    description: "audit log of tool calls",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS audit_log (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          at TEXT NOT NULL,
+          tool TEXT NOT NULL,
+          client_name TEXT,
+          client_version TEXT,
+          session_id TEXT,
+          arguments TEXT NOT NULL,
+          status TEXT NOT NULL,
+          error TEXT,
+          memory_ids TEXT NOT NULL DEFAULT '[]'
+        );
+        CREATE INDEX IF NOT EXISTS idx_audit_log_at ON audit_log(at);
+      `);
+    },
+  },
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export function readSchemaVersion(db: Database.Database): number {
+  return db.pragma("user_version", { simple: true }) as number;
+}
+
+function backupPathFor(dbPath: string, version: number) {
+  const stamp = new Date().toISOString().replace(/[-:]/g, "").replace(/\.\d+Z$/, "Z");
+  return `${dbPath}.v${version}-${stamp}.bak`;
+}
+
+/**
+ * Brings the database up to {@link SCHEMA_VERSION}, one migration per
+ * transaction. Before touching a database that already holds data, a copy is
+ * written next to it (migrations have no way back). Databases from a newer
+ * release are refused rather than modified.
+ */
+export function migrate(
+  db: Database.Database,
+  dbPath: string,
+  options: { backup?: boolean } = {}
+): MigrationResult {
+  const from = readSchemaVersion(db);
+  if (from > SCHEMA_VERSION) {
+    throw new SchemaVersionError(
+      `${dbPath} uses schema version ${from}, but this server only understands up to ${SCHEMA_VERSION}. Upgrade context-memory-mcp-server to open it.`
+    );
+  }
+  const pending = MIGRATIONS.filter((migration) => migration.version > from);
+  if (pending.length === 0) {
+    return { from, to: from, backupPath: null };
+  }
+
+  let backupPath: string | null = null;
+  const hasData =
+    (db.prepare(`SELECT COUNT(*) AS count FROM sqlite_master`).get() as { count: number }).count >
+    0;
+  if ((options.backup ?? true) && hasData && dbPath !== ":memory:") {
+    backupPath = backupPathFor(dbPath, from);
+    db.prepare(`VACUUM INTO ?`).run(backupPath);
+  }
+
+  for (const migration of pending) {
+    db.transaction(() => {
+      migration.up(db);
+      db.pragma(`user_version = ${migration.version}`);
+    })();
+  }
+  return { from, to: SCHEMA_VERSION, backupPath };
+}
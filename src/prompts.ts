@@ -0,0 +1,165 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { GetPromptResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import type { MemoryBackend } from "./backend.js";
+import { InvalidFilterError } from "./filters.js";
+import { renderMemory } from "./recall.js";
+import {
+  captureSessionPromptArgsSchema,
+  recallForTaskPromptArgsSchema,
+  reviewStalePromptArgsSchema,
+} from "./schemas.js";
+import type { MemoryRecord } from "./types.js";
+
+type CaptureSessionArgs = z.infer<typeof captureSessionPromptArgsSchema>;
+type RecallForTaskArgs = z.infer<typeof recallForTaskPromptArgsSchema>;
+type ReviewStaleArgs = z.infer<typeof reviewStalePromptArgsSchema>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function splitList(value?: string) {
+  return (value ?? "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function toNumber(value: string | undefined, fallback: number, max: number) {
+  const parsed = value === undefined ? fallback : Number(value);
+  return Math.min(Math.max(parsed, 0), max);
+}
+
+function userPrompt(text: string): GetPromptResult {
+  return {
+    messages: [
+      {
+        role: "user",
+        content: { type: "text", text },
+      },
+    ],
+  };
+}
+
+/**
+ * Pulls memories for a task from both the full-text index and the embedding
+ * index, keeping the full-text order first since exact hits are the strongest
+ * signal.
+ */
+function recallMemories(
+  store: MemoryBackend,
+  namespace: string,
+  task: string,
+  tags: string[],
+  limit: number
+) {
+  const filters = tags.length > 0 ? { namespace, tags } : { namespace };
+  const found = new Map<string, MemoryRecord>();
+  try {
+    for (const memory of store.listMemories({ ...filters, search: task, limit }).items) {
+      found.set(memory.id, memory);
+    }
+  } catch (error) {
+    // A task that does not read as a search, such as "NOT sure why", still
+    // finds memories by similarity.
+    if (!(error instanceof InvalidFilterError)) throw error;
+  }
+  for (const { memory } of store.findSimilar({ text: task, limit, filters, minScore: 0.1 })) {
+    if (!found.has(memory.id)) {
+      found.set(memory.id, memory);
+    }
+  }
+  return [...found.values()].slice(0, limit);
+}
+
+export function registerMemoryPrompts(server: McpServer, store: MemoryBackend, namespace: string) {
+  server.registerPrompt(
+    "capture-session-learnings",
+    {
+      title: "Capture session learnings",
+      description:
+        "Turn a pasted transcript into suggested memory.add calls for facts worth keeping.",
+      argsSchema: captureSessionPromptArgsSchema.shape,
+    },
+    (args: CaptureSessionArgs) => {
+      const tags = splitList(args.tags);
+      const lines = [
+        "Read the session transcript below and extract the durable learnings: decisions, conventions, gotchas, environment facts and open follow-ups.",
+        "Skip small talk, transient state and anything already obvious from the code.",
+        "",
+        "For each learning, propose one `memory.add` call as JSON with:",
+        "- `title`: a short, specific headline (max 200 characters)",
+        "- `content`: a self-contained statement that still makes sense months from now",
+        "- `tags`: lower-case topic tags" + (tags.length > 0 ? `, always including ${tags.join(", ")}` : ""),
+        "- `importance`: 0-10, where 8+ means it should be recalled for most related tasks",
+        "",
+        "Before proposing a call, use memory.list or memory.similar to check whether the vault already holds the fact; prefer memory.update over a duplicate.",
+      ];
+      if (args.focus) {
+        lines.push("", `Focus on: ${args.focus}`);
+      }
+      lines.push("", "Transcript:", "```", args.transcript, "```");
+      return userPrompt(lines.join("\n"));
+    }
+  );
+
+  server.registerPrompt(
+    "recall-for-task",
+    {
+      title: "Recall memories for a task",
+      description: "Embed the memories most relevant to a task description into the prompt.",
+      argsSchema: recallForTaskPromptArgsSchema.shape,
+    },
+    (args: RecallForTaskArgs) => {
+      const limit = toNumber(args.limit, 8, 50);
+      const memories = recallMemories(store, namespace, args.task, splitList(args.tags), limit);
+      const lines = [`Task: ${args.task}`, ""];
+      if (memories.length === 0) {
+        lines.push("The memory vault holds nothing relevant to this task.");
+      } else {
+        lines.push(
+          `The memory vault holds ${memories.length} potentially relevant ${memories.length === 1 ? "entry" : "entries"}. Treat them as background knowledge, prefer higher importance when they conflict, and say so if any look outdated.`,
+          "",
+          memories.map((memory) => renderMemory(memory)).join("\n\n")
+        );
+      }
+      return userPrompt(lines.join("\n"));
+    }
+  );
+
+  server.registerPrompt(
+    "review-stale-memories",
+    {
+      title: "Review stale memories",
+      description: "List old, low-importance memories and suggest which to update or delete.",
+      argsSchema: reviewStalePromptArgsSchema.shape,
+    },
+    (args: ReviewStaleArgs) => {
+      const olderThanDays = toNumber(args.olderThanDays, 90, 3650);
+      const maxImportance = toNumber(args.maxImportance, 3, 10);
+      const limit = toNumber(args.limit, 25, 200);
+      const cutoff = new Date(Date.now() - olderThanDays * DAY_MS).toISOString();
+
+      // Unset importance counts as low, which an SQL range filter would drop.
+      const stale = store
+        .listMemories({ namespace, before: cutoff, limit: 200 })
+        .items.filter((memory) => memory.importance === null || memory.importance <= maxImportance)
+        .sort((a, b) => a.updatedAt.localeCompare(b.updatedAt))
+        .slice(0, limit);
+
+      const lines = [
+        `Memories not updated in the last ${olderThanDays} days with importance ${maxImportance} or lower (or unset):`,
+        "",
+      ];
+      if (stale.length === 0) {
+        lines.push("None found. The vault needs no cleanup right now.");
+      } else {
+        lines.push(
+          stale.map((memory) => renderMemory(memory)).join("\n\n"),
+          "",
+          "For each entry decide whether to keep it as is, refresh it with memory.update, raise or lower its importance, or remove it with memory.delete. Explain each recommendation in one line and ask before deleting anything."
+        );
+      }
+      return userPrompt(lines.join("\n"));
+    }
+  );
+}
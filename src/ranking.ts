@@ -0,0 +1,58 @@
+import type { MemoryRecord, RelevanceOptions, RelevanceWeights } from "./types.js";
+
+export const DEFAULT_RELEVANCE_WEIGHTS: RelevanceWeights = {
+  recency: 1,
+  frequency: 1,
+  importance: 1,
+  match: 2,
+};
+
+export const DEFAULT_RECENCY_HALF_LIFE_DAYS = 14;
+
+/** Reads at which the frequency signal reaches one half. */
+const FREQUENCY_MIDPOINT = 5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 1 for a memory updated or read just now, halving every `halfLifeDays`
+ * (14 by default) it stays untouched.
+ */
+export function recencySignal(
+  memory: Pick<MemoryRecord, "updatedAt" | "lastAccessedAt">,
+  halfLifeDays = DEFAULT_RECENCY_HALF_LIFE_DAYS,
+  now = Date.now()
+): number {
+  const touched = Math.max(
+    Date.parse(memory.updatedAt),
+    memory.lastAccessedAt ? Date.parse(memory.lastAccessedAt) : 0
+  );
+  const ageDays = Math.max(0, now - touched) / DAY_MS;
+  return halfLifeDays > 0 ? 0.5 ** (ageDays / halfLifeDays) : 0;
+}
+
+/**
+ * Weighted sum of four signals, each scaled to 0..1: recency of the last
+ * update or read (halving every `recencyHalfLifeDays`), read frequency,
+ * importance, and how well the search matched. `match` is the raw search
+ * score (higher is better), or 0 without a search.
+ */
+export function relevanceScore(
+  memory: Pick<MemoryRecord, "updatedAt" | "lastAccessedAt" | "accessCount" | "importance">,
+  match: number,
+  options: RelevanceOptions = {},
+  now = Date.now()
+): number {
+  const weights = { ...DEFAULT_RELEVANCE_WEIGHTS, ...options.weights };
+  const recency = recencySignal(memory, options.recencyHalfLifeDays, now);
+  const accessCount = memory.accessCount ?? 0;
+  const frequency = accessCount / (accessCount + FREQUENCY_MIDPOINT);
+  const importance = (memory.importance ?? 0) / 10;
+  const matchSignal = match > 0 ? match / (match + 1) : 0;
+
+  return (
+    weights.recency * recency +
+    weights.frequency * frequency +
+    weights.importance * importance +
+    weights.match * matchSignal
+  );
+}
@@ -0,0 +1,284 @@
+import type { MemoryBackend } from "./backend.js";
+import { tokenizeWords } from "./embeddings.js";
+import { recencySignal } from "./ranking.js";
+import { matchSearch, parseSearchQuery, type SearchToken } from "./search.js";
+import type { MemoryRecord, RecalledMemory, RecallQuery, RecallResult } from "./types.js";
+
+export const DEFAULT_RECALL_CANDIDATES = 50;
+
+/** Relative weight of each signal in a recall score. */
+const RECALL_WEIGHTS = { match: 3, tags: 1, importance: 1, recency: 1 };
+
+/** Task words searched for; the rest of a long description is left out. */
+const MAX_KEYWORDS = 32;
+/** Share of the budget one memory may take while lower ranked candidates wait. */
+const MAX_SHARE = 0.5;
+/** Excerpts with less room than this are not worth their header. */
+const MIN_EXCERPT_TOKENS = 16;
+const MIN_SIMILARITY = 0.1;
+
+const STOPWORDS = new Set(
+  (
+    "the and for are but not you all any can had her was one our out has him his how its may " +
+    "new now see who did get let put say she too use that with have this will your from they " +
+    "been more when what were which their there would about could should into than then them " +
+    "these those some also just like need want make sure please does doing done being only"
+  ).split(" ")
+);
+
+/**
+ * Local estimate of the tokens `text` costs a language model: one per four
+ * characters of a word, and one per punctuation mark. It needs no tokenizer
+ * and errs on the high side for English prose.
+ */
+export function estimateTokens(text: string): number {
+  let tokens = 0;
+  for (const [piece] of text.matchAll(/[\p{L}\p{N}]+|[^\s\p{L}\p{N}]/gu)) {
+    tokens += Math.ceil(piece.length / 4);
+  }
+  return tokens;
+}
+
+/** The distinct words of a task description worth searching for. */
+export function taskKeywords(task: string): string[] {
+  const words = tokenizeWords(task);
+  const meaningful = words.filter((word) => word.length > 2 && !STOPWORDS.has(word));
+  return [...new Set(meaningful.length > 0 ? meaningful : words)].slice(0, MAX_KEYWORDS);
+}
+
+/**
+ * A memory as it appears in recalled context. An excerpt replaces a trimmed
+ * memory's content under a one-line header, so small budgets go to its text;
+ * its id is in the result's `trimmed` list.
+ */
+export function renderMemory(memory: MemoryRecord, excerpt?: string) {
+  if (excerpt !== undefined) {
+    return [`### ${memory.title ?? memory.id} (excerpt)`, "", excerpt].join("\n");
+  }
+  const header = [
+    `### ${memory.title ?? memory.id}`,
+    `id: ${memory.id} | updated: ${memory.updatedAt}`,
+    `tags: ${memory.tags.join(", ") || "(none)"} | importance: ${memory.importance ?? "unset"}`,
+  ];
+  return [...header, "", memory.content].join("\n");
+}
+
+interface PackedBlock {
+  text: string;
+  tokens: number;
+  trimmed: boolean;
+}
+
+/** Smallest room worth trimming `memory` into: its excerpt header and a few words. */
+function minExcerptRoom(memory: MemoryRecord) {
+  return estimateTokens(renderMemory(memory, "")) + 1 + MIN_EXCERPT_TOKENS;
+}
+
+/** Sentences and lines of `text`, in order. */
+function splitSentences(text: string): string[] {
+  return text
+    .split(/\n+|(?<=[.!?])\s+/)
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+}
+
+/**
+ * The most relevant sentences of `memory` that fit in `available` tokens
+ * with its header, in their original order and with `…` marking the gaps.
+ * Null when not even a few words fit.
+ */
+function excerpt(memory: MemoryRecord, query: SearchToken[], available: number): string | null {
+  // One token is held back per sentence for the `…` that may follow it.
+  let room = available - estimateTokens(renderMemory(memory, "")) - 1;
+  if (room < MIN_EXCERPT_TOKENS) return null;
+
+  const sentences = splitSentences(memory.content).map((text, index) => ({
+    text,
+    index,
+    tokens: estimateTokens(text) + 1,
+    relevance: matchSearch(query, { title: null, content: text, tags: [] })?.score ?? 0,
+  }));
+  // Sentences without a task word only fill in when none has one.
+  const relevant = sentences.filter((sentence) => sentence.relevance > 0);
+  const ranked = (relevant.length > 0 ? relevant : sentences).sort(
+    (a, b) => b.relevance - a.relevance || a.index - b.index
+  );
+  const chosen = ranked.filter((sentence) => {
+    if (sentence.tokens > room) return false;
+    room -= sentence.tokens;
+    return true;
+  });
+
+  if (chosen.length === 0) {
+    // Not even the best sentence fits: keep as many of its words as do.
+    const best = ranked[0];
+    const words = best.text.split(/\s+/);
+    const fits = room - (best.index > 0 ? 1 : 0);
+    let count = 0;
+    while (count < words.length && estimateTokens(words.slice(0, count + 1).join(" ")) <= fits) {
+      count++;
+    }
+    if (count === 0) return null;
+    return `${best.index > 0 ? "… " : ""}${words.slice(0, count).join(" ")} …`;
+  }
+
+  chosen.sort((a, b) => a.index - b.index);
+  let text = chosen[0].index > 0 ? "… " : "";
+  chosen.forEach((sentence, position) => {
+    if (position > 0) {
+      text += sentence.index === chosen[position - 1].index + 1 ? " " : " … ";
+    }
+    text += sentence.text;
+  });
+  return chosen[chosen.length - 1].index < sentences.length - 1 ? `${text} …` : text;
+}
+
+/**
+ * Share of `tags` a memory carries, parents matching nested tags. Without
+ * requested tags, a tag naming one of the task's words counts fully.
+ */
+function tagSignal(memory: MemoryRecord, tags: string[], keywords: string[]) {
+  if (tags.length === 0) {
+    return memory.tags.some((tag) => tag.split("/").some((part) => keywords.includes(part)))
+      ? 1
+      : 0;
+  }
+  const matched = tags.filter((tag) =>
+    memory.tags.some((own) => own === tag || own.startsWith(`${tag}/`))
+  );
+  return matched.length / tags.length;
+}
+
+/**
+ * Picks the memories most relevant to a task and packs them into a token
+ * budget. Candidates come from a full-text search for the task's words, the
+ * embedding index and the requested tags. Each is scored from 0 to 1 on how
+ * well it matches (the share of task words it contains and its similarity),
+ * its tags, its importance and its recency, then packed best first. A memory
+ * too large for the room left, or for half the budget while others wait, is
+ * cut to its most relevant sentences; candidates that still do not fit are
+ * reported as omitted.
+ */
+export function recallForTask(store: MemoryBackend, query: RecallQuery): RecallResult {
+  const limit = query.candidates ?? DEFAULT_RECALL_CANDIDATES;
+  const filters = query.filters ?? {};
+  const tags = (query.tags ?? []).map((tag) => tag.trim().toLowerCase()).filter(Boolean);
+  const keywords = taskKeywords(query.task);
+  const searchText = keywords.join(" OR ");
+  const search = parseSearchQuery(searchText);
+
+  const found = new Map<string, MemoryRecord>();
+  const similarity = new Map<string, number>();
+  if (search.length > 0) {
+    for (const memory of store.listMemories({ ...filters, search: searchText, limit }).items) {
+      found.set(memory.id, memory);
+    }
+  }
+  for (const { memory, score } of store.findSimilar({
+    text: query.task,
+    limit,
+    filters,
+    minScore: MIN_SIMILARITY,
+  })) {
+    found.set(memory.id, found.get(memory.id) ?? memory);
+    similarity.set(memory.id, score);
+  }
+  if (tags.length > 0) {
+    for (const memory of store.listMemories({ ...filters, tags, tagMode: "any", limit }).items) {
+      found.set(memory.id, found.get(memory.id) ?? memory);
+    }
+  }
+
+  const now = Date.now();
+  const totalWeight = Object.values(RECALL_WEIGHTS).reduce((sum, weight) => sum + weight, 0);
+  const ranked = [...found.values()]
+    .map((memory) => {
+      const text = { title: memory.title, content: memory.content, tags: memory.tags };
+      const covered = keywords.filter(
+        (value) => matchSearch([{ type: "term", value, prefix: false }], text) !== null
+      ).length;
+      const coverage = keywords.length > 0 ? covered / keywords.length : 0;
+      const match = 0.6 * coverage + 0.4 * Math.max(similarity.get(memory.id) ?? 0, 0);
+      const score =
+        (RECALL_WEIGHTS.match * match +
+          RECALL_WEIGHTS.tags * tagSignal(memory, tags, keywords) +
+          RECALL_WEIGHTS.importance * ((memory.importance ?? 0) / 10) +
+          RECALL_WEIGHTS.recency * recencySignal(memory, query.recencyHalfLifeDays, now)) /
+        totalWeight;
+      return { memory, score, fullTokens: estimateTokens(renderMemory(memory)) };
+    })
+    .sort((a, b) => b.score - a.score || b.memory.updatedAt.localeCompare(a.memory.updatedAt))
+    .slice(0, limit);
+
+  const whole = (memory: MemoryRecord, tokens: number): PackedBlock => ({
+    text: renderMemory(memory),
+    tokens,
+    trimmed: false,
+  });
+  const trimmed = (memory: MemoryRecord, cut: string): PackedBlock => {
+    const text = renderMemory(memory, cut);
+    return { text, tokens: estimateTokens(text), trimmed: true };
+  };
+
+  // Blocks are joined by blank lines, which cost nothing, so the used
+  // tokens are the sum of the blocks.
+  const blocks: Array<PackedBlock | null> = [];
+  let used = 0;
+  ranked.forEach((candidate, index) => {
+    const remaining = query.budget - used;
+    const waiting = index < ranked.length - 1;
+    // The share cap still leaves room for an excerpt.
+    const share = Math.max(Math.floor(query.budget * MAX_SHARE), minExcerptRoom(candidate.memory));
+    const room = waiting ? Math.min(remaining, share) : remaining;
+    const cut = candidate.fullTokens <= room ? null : excerpt(candidate.memory, search, room);
+    const block =
+      candidate.fullTokens <= room
+        ? whole(candidate.memory, candidate.fullTokens)
+        : cut === null
+          ? null
+          : trimmed(candidate.memory, cut);
+    blocks.push(block);
+    used += block?.tokens ?? 0;
+  });
+
+  // Budget the share cap held back goes to the trimmed memories, best first.
+  ranked.forEach((candidate, index) => {
+    const block = blocks[index];
+    if (!block?.trimmed) return;
+    const room = block.tokens + query.budget - used;
+    const cut = candidate.fullTokens <= room ? null : excerpt(candidate.memory, search, room);
+    const grown =
+      candidate.fullTokens <= room
+        ? whole(candidate.memory, candidate.fullTokens)
+        : cut === null
+          ? null
+          : trimmed(candidate.memory, cut);
+    if (grown && grown.tokens > block.tokens) {
+      blocks[index] = grown;
+      used += grown.tokens - block.tokens;
+    }
+  });
+
+  const result: RecallResult = {
+    context: blocks.flatMap((block) => (block ? [block.text] : [])).join("\n\n"),
+    budget: query.budget,
+    usedTokens: 0,
+    included: [],
+    trimmed: [],
+    omitted: [],
+  };
+  result.usedTokens = estimateTokens(result.context);
+  ranked.forEach(({ memory, score, fullTokens }, index) => {
+    const block = blocks[index];
+    const entry: RecalledMemory = {
+      id: memory.id,
+      title: memory.title,
+      score: Math.round(score * 1000) / 1000,
+      tokens: block?.tokens ?? 0,
+      fullTokens,
+    };
+    const list = block === null ? result.omitted : block.trimmed ? result.trimmed : result.included;
+    list.push(entry);
+  });
+  return result;
+}
@@ -0,0 +1,55 @@
+import type { MemoryField, MemoryRecord } from "./types.js";
+
+export const DEFAULT_NAMESPACE = "default";
+
+export const MEMORY_FIELDS: MemoryField[] = ["title", "content", "importance", "tags", "metadata"];
+
+export function normalizeTags(tags?: string[] | null): string[] {
+  if (!tags || tags.length === 0) {
+    return [];
+  }
+  const seen = new Set<string>();
+  return tags
+    .map(normalizeTag)
+    .filter((tag) => {
+      if (!tag) return false;
+      const lower = tag.toLowerCase();
+      if (seen.has(lower)) return false;
+      seen.add(lower);
+      return true;
+    });
+}
+
+/** Trims a tag and tidies its hierarchy separators: ` a / b/ ` becomes `a/b`. */
+export function normalizeTag(tag: string) {
+  return tag
+    .trim()
+    .replace(/\s*\/\s*/g, "/")
+    .replace(/\/{2,}/g, "/")
+    .replace(/^\/+|\/+$/g, "");
+}
+
+/** Whether `tag` is `parent` or nested below it. */
+export function isTagWithin(tag: string, parent: string) {
+  return tag === parent || tag.startsWith(`${parent}/`);
+}
+
+export function clampImportance(importance: number | null | undefined): number | null {
+  return typeof importance === "number" ? Math.max(0, Math.min(10, importance)) : null;
+}
+
+export function changedFields(before: MemoryRecord, after: MemoryRecord): MemoryField[] {
+  return MEMORY_FIELDS.filter(
+    (field) => JSON.stringify(before[field]) !== JSON.stringify(after[field])
+  );
+}
+
+/** What the embedder sees of a memory. */
+export function embeddingText(memory: Pick<MemoryRecord, "title" | "content" | "tags">) {
+  return [memory.title ?? "", memory.content, memory.tags.join(" ")].join("\n");
+}
+
+/** What near-duplicate detection compares. */
+export function duplicateText(memory: Pick<MemoryRecord, "title" | "content">) {
+  return [memory.title ?? "", memory.content].join("\n");
+}
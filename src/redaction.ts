@@ -0,0 +1,307 @@
+import type {
+  BuiltinDetector,
+  RedactionAction,
+  RedactionFinding,
+  RedactionPolicy,
+} from "./types.js";
+
+/** Thrown when a rule with the `reject` action matches. Nothing is written in that case. */
+export class SensitiveContentError extends Error {
+  constructor(
+    message: string,
+    readonly findings: RedactionFinding[]
+  ) {
+    super(message);
+    this.name = "SensitiveContentError";
+  }
+}
+
+interface Detector {
+  name: string;
+  description: string;
+  pattern: RegExp;
+  action: RedactionAction;
+  /** Extra check on a match, e.g. its entropy. */
+  accept?: (match: string) => boolean;
+}
+
+const BUILTIN_DETECTORS: Array<{
+  name: BuiltinDetector;
+  description: string;
+  pattern: RegExp;
+  action: RedactionAction;
+}> = [
+  {
+    name: "private-key",
+    description: "a private key",
+    pattern:
+      /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY-----(?:[\s\S]*?-----END (?:[A-Z0-9]+ )*PRIVATE KEY-----|[\s\S]*$)/g,
+    action: "reject",
+  },
+  {
+    name: "aws-access-key",
+    description: "an AWS access key id",
+    pattern: /\b(?:AKIA|ASIA|ABIA|ACCA)[0-9A-Z]{16}\b/g,
+    action: "mask",
+  },
+  {
+    name: "github-token",
+    description: "a GitHub token",
+    pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,255}|github_pat_[A-Za-z0-9_]{22,255})\b/g,
+    action: "mask",
+  },
+  {
+    name: "jwt",
+    description: "a JSON Web Token",
+    pattern: /\beyJ[A-Za-z0-9_-]{5,}\.eyJ[A-Za-z0-9_-]{5,}\.[A-Za-z0-9_-]{10,}/g,
+    action: "mask",
+  },
+  {
+    // Only the password between `user:` and `@` is matched, so the host stays readable.
+    name: "connection-string",
+    description: "a password in a connection string",
+    pattern: /(?<=\b[a-z][a-z0-9+.-]*:\/\/[^\s:@/]+:)[^\s@/]+(?=@)/gi,
+    action: "mask",
+  },
+  {
+    name: "email",
+    description: "an email address",
+    pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}\b/g,
+    action: "flag",
+  },
+  {
+    name: "high-entropy",
+    description: "a random-looking string that may be a secret",
+    pattern: /(?<![A-Za-z0-9+/=_-])[A-Za-z0-9+/=_-]{24,}(?![A-Za-z0-9+/=_-])/g,
+    action: "flag",
+  },
+];
+
+/** Bits per character. */
+export function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) ?? 0) + 1);
+  }
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+function preview(match: string) {
+  return match.length <= 8 ? "…" : `${match.slice(0, 4)}…`;
+}
+
+export const SENSITIVE_METADATA_KEY = "sensitive";
+
+export interface RedactableFields {
+  title?: string | null;
+  content?: string;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Runs the built-in detectors and user rules over text. Matches are
+ * reported once: when rules overlap, the earlier rule wins, so specific
+ * detectors take precedence over the entropy check.
+ */
+export class Redactor {
+  private readonly detectors: Detector[];
+  readonly enabled: boolean;
+
+  constructor(policy: RedactionPolicy = {}) {
+    this.enabled = policy.enabled ?? true;
+    const threshold = policy.entropyThreshold ?? 4;
+    const builtins: Detector[] = BUILTIN_DETECTORS.flatMap((detector) => {
+      const action = policy.builtins?.[detector.name] ?? detector.action;
+      if (action === "off") return [];
+      return [
+        {
+          ...detector,
+          action,
+          ...(detector.name === "high-entropy"
+            ? {
+                accept: (match: string) =>
+                  /[A-Za-z]/.test(match) &&
+                  /\d/.test(match) &&
+                  shannonEntropy(match) >= threshold,
+              }
+            : {}),
+        },
+      ];
+    });
+    const custom = (policy.rules ?? []).map((rule): Detector => {
+      let pattern: RegExp;
+      try {
+        pattern = new RegExp(rule.pattern, `${(rule.flags ?? "").replace("g", "")}g`);
+      } catch (error) {
+        throw new Error(
+          `Redaction rule ${rule.name} has an invalid pattern: ${(error as Error).message}`
+        );
+      }
+      return {
+        name: rule.name,
+        description: rule.description ?? `a match of rule ${rule.name}`,
+        pattern,
+        action: rule.action ?? "mask",
+      };
+    });
+    this.detectors = [...builtins, ...custom];
+  }
+
+  private matches(text: string) {
+    const found: Array<{ detector: Detector; order: number; start: number; end: number }> = [];
+    this.detectors.forEach((detector, order) => {
+      for (const match of text.matchAll(detector.pattern)) {
+        if (match[0].length === 0 || (detector.accept && !detector.accept(match[0]))) continue;
+        found.push({ detector, order, start: match.index!, end: match.index! + match[0].length });
+      }
+    });
+    found.sort((a, b) => a.start - b.start || a.order - b.order);
+    const kept: typeof found = [];
+    for (const match of found) {
+      const overlapping = kept.findIndex(
+        (other) => match.start < other.end && other.start < match.end
+      );
+      if (overlapping === -1) {
+        kept.push(match);
+      } else if (match.order < kept[overlapping].order) {
+        kept[overlapping] = match;
+      }
+    }
+    return kept;
+  }
+
+  private redactText(text: string, field: string, findings: RedactionFinding[]) {
+    let result = "";
+    let cursor = 0;
+    for (const { detector, start, end } of this.matches(text)) {
+      findings.push({
+        rule: detector.name,
+        field,
+        action: detector.action,
+        preview: preview(text.slice(start, end)),
+      });
+      if (detector.action === "mask") {
+        result += `${text.slice(cursor, start)}[REDACTED:${detector.name}]`;
+        cursor = end;
+      }
+    }
+    return result + text.slice(cursor);
+  }
+
+  private redactValue(value: unknown, field: string, findings: RedactionFinding[]): unknown {
+    if (typeof value === "string") return this.redactText(value, field, findings);
+    if (Array.isArray(value)) {
+      return value.map((item, index) => this.redactValue(item, `${field}.${index}`, findings));
+    }
+    if (value && typeof value === "object") {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [
+          key,
+          this.redactValue(item, `${field}.${key}`, findings),
+        ])
+      );
+    }
+    return value;
+  }
+
+  private redactFields(fields: RedactableFields, findings: RedactionFinding[]): RedactableFields {
+    const redacted: RedactableFields = { ...fields };
+    if (typeof fields.title === "string") {
+      redacted.title = this.redactText(fields.title, "title", findings);
+    }
+    if (fields.content !== undefined) {
+      redacted.content = this.redactText(fields.content, "content", findings);
+    }
+    if (fields.metadata) {
+      // The flags written by earlier scans are left alone.
+      const { [SENSITIVE_METADATA_KEY]: flags, ...metadata } = fields.metadata;
+      redacted.metadata = {
+        ...(this.redactValue(metadata, "metadata", findings) as Record<string, unknown>),
+        ...(flags !== undefined ? { [SENSITIVE_METADATA_KEY]: flags } : {}),
+      };
+    }
+    return redacted;
+  }
+
+  /**
+   * `value` with every match masked, whatever its rule's action says, for
+   * text that is logged rather than stored as a memory.
+   */
+  mask(value: unknown): unknown {
+    if (!this.enabled) return value;
+    if (typeof value === "string") {
+      let result = "";
+      let cursor = 0;
+      for (const { detector, start, end } of this.matches(value)) {
+        result += `${value.slice(cursor, start)}[REDACTED:${detector.name}]`;
+        cursor = end;
+      }
+      return result + value.slice(cursor);
+    }
+    if (Array.isArray(value)) return value.map((item) => this.mask(item));
+    if (value && typeof value === "object") {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, this.mask(item)]));
+    }
+    return value;
+  }
+
+  /** Findings across title, content and metadata strings, without changing them. */
+  scan(fields: RedactableFields): RedactionFinding[] {
+    const findings: RedactionFinding[] = [];
+    this.redactFields(fields, findings);
+    return findings;
+  }
+
+  /**
+   * Masks matches in the fields about to be written. Throws a
+   * {@link SensitiveContentError} if any `reject` rule matched; flagged
+   * findings are returned for {@link flagSensitive}.
+   */
+  redact(fields: RedactableFields): { fields: RedactableFields; findings: RedactionFinding[] } {
+    if (!this.enabled) return { fields, findings: [] };
+    const findings: RedactionFinding[] = [];
+    const redacted = this.redactFields(fields, findings);
+    const rejected = findings.filter((finding) => finding.action === "reject");
+    if (rejected.length > 0) {
+      const reasons = rejected.map((finding) => {
+        const detector = this.detectors.find((candidate) => candidate.name === finding.rule);
+        return `${finding.field} contains ${detector?.description} (${finding.rule})`;
+      });
+      throw new SensitiveContentError(
+        `Refusing to store this memory: ${reasons.join("; ")}. Remove the secret, or note where it is kept instead.`,
+        rejected
+      );
+    }
+    return { fields: redacted, findings };
+  }
+}
+
+/**
+ * Records flagged findings in `metadata.sensitive` as `{ rule, field }`
+ * entries. Earlier flags on the `scanned` fields are replaced.
+ */
+export function flagSensitive(
+  metadata: Record<string, unknown>,
+  findings: RedactionFinding[],
+  scanned: string[]
+): Record<string, unknown> {
+  const previous = metadata[SENSITIVE_METADATA_KEY];
+  const flags = (
+    Array.isArray(previous) ? (previous as Array<{ rule: string; field: string }>) : []
+  ).filter(({ field }) => !scanned.some((name) => field === name || field.startsWith(`${name}.`)));
+  for (const { rule, field, action } of findings) {
+    if (action === "flag" && !flags.some((flag) => flag.rule === rule && flag.field === field)) {
+      flags.push({ rule, field });
+    }
+  }
+  if (flags.length === 0) {
+    const { [SENSITIVE_METADATA_KEY]: _flags, ...rest } = metadata;
+    return previous === undefined ? metadata : rest;
+  }
+  return { ...metadata, [SENSITIVE_METADATA_KEY]: flags };
+}
@@ -0,0 +1,156 @@
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  type ReadResourceResult,
+} from "@modelcontextprotocol/sdk/types.js";
+import type { MemoryBackend } from "./backend.js";
+import { memoryListSchema, memorySchema } from "./schemas.js";
+import type { MemoryChangeEvent, MemoryRecord } from "./types.js";
+
+export const RECENT_MEMORIES_URI = "memory://recent";
+const RECENT_LIMIT = 20;
+const LIST_LIMIT = 200;
+
+export function memoryUri(id: string) {
+  return `memory://${id}`;
+}
+
+export function tagUri(tag: string) {
+  return `memory://tags/${encodeURIComponent(tag)}`;
+}
+
+function firstVariable(value: string | string[] | undefined) {
+  const raw = Array.isArray(value) ? value[0] : value;
+  return raw ? decodeURIComponent(raw) : "";
+}
+
+function jsonResource(uri: URL, payload: unknown): ReadResourceResult {
+  return {
+    contents: [
+      {
+        uri: uri.href,
+        mimeType: "application/json",
+        text: JSON.stringify(payload, null, 2),
+      },
+    ],
+  };
+}
+
+function describeMemory(memory: MemoryRecord) {
+  return {
+    uri: memoryUri(memory.id),
+    name: memory.title ?? memory.id,
+    description: memory.content.slice(0, 120),
+    mimeType: "application/json",
+  };
+}
+
+/**
+ * Exposes the vault as MCP resources and keeps subscribed clients informed
+ * about changes. Returns a function that detaches the store listener.
+ */
+export function registerMemoryResources(
+  server: McpServer,
+  store: MemoryBackend,
+  namespace: string
+): () => void {
+  server.registerResource(
+    "recent-memories",
+    RECENT_MEMORIES_URI,
+    {
+      title: "Recently updated memories",
+      description: `The ${RECENT_LIMIT} most recently updated memories in namespace ${namespace}.`,
+      mimeType: "application/json",
+    },
+    async (uri) =>
+      jsonResource(
+        uri,
+        memoryListSchema.parse(store.listMemories({ namespace, limit: RECENT_LIMIT }))
+      )
+  );
+
+  server.registerResource(
+    "memories-by-tag",
+    new ResourceTemplate("memory://tags/{tag}", {
+      list: async () => ({
+        resources: store.listTags({ namespace }).map(({ tag, count }) => ({
+          uri: tagUri(tag),
+          name: `#${tag}`,
+          description: `${count} ${count === 1 ? "memory" : "memories"} tagged ${tag}`,
+          mimeType: "application/json",
+        })),
+      }),
+      complete: {
+        tag: (value) =>
+          store
+            .listTags({ namespace })
+            .map(({ tag }) => tag)
+            .filter((tag) => tag.toLowerCase().startsWith(value.toLowerCase())),
+      },
+    }),
+    {
+      title: "Memories by tag",
+      description: "Memories carrying the given tag, most recently updated first.",
+      mimeType: "application/json",
+    },
+    async (uri, variables) => {
+      const tag = firstVariable(variables.tag);
+      const result = store.listMemories({ namespace, tags: [tag], limit: LIST_LIMIT });
+      return jsonResource(uri, memoryListSchema.parse(result));
+    }
+  );
+
+  server.registerResource(
+    "memory",
+    new ResourceTemplate("memory://{id}", {
+      list: async () => ({
+        resources: store.listMemories({ namespace, limit: LIST_LIMIT }).items.map(describeMemory),
+      }),
+    }),
+    {
+      title: "Memory",
+      description: "A single memory entry by id.",
+      mimeType: "application/json",
+    },
+    async (uri, variables) => {
+      const id = firstVariable(variables.id);
+      const memory = store.getMemory(id);
+      if (!memory) {
+        throw new Error(`No memory found for id ${id}`);
+      }
+      store.recordAccess([id]);
+      return jsonResource(uri, memorySchema.parse(memory));
+    }
+  );
+
+  const subscriptions = new Set<string>();
+  server.server.registerCapabilities({
+    resources: { subscribe: true, listChanged: true },
+  });
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  const notify = (event: MemoryChangeEvent) => {
+    if (!server.isConnected()) {
+      return;
+    }
+    server.sendResourceListChanged();
+
+    const affected = [memoryUri(event.id), RECENT_MEMORIES_URI, ...event.tags.map(tagUri)];
+    for (const uri of affected) {
+      if (!subscriptions.has(uri)) continue;
+      server.server.sendResourceUpdated({ uri }).catch((error: unknown) => {
+        console.error(`Failed to notify subscribers of ${uri}`, error);
+      });
+    }
+  };
+
+  return store.onChange(notify);
+}
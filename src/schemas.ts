@@ -1,7 +1,18 @@
 import { z } from "zod";
+import type { MemoryFilterExpression } from "./types.js";
+
+export const namespaceSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(100)
+  .regex(/^[\w.\-/]+$/, {
+    message: "namespace may only contain letters, digits, '.', '-', '_' and '/'",
+  });
 
 export const memorySchema = z.object({
   id: z.string(),
+  namespace: z.string(),
   title: z.string().nullable(),
   content: z.string(),
   importance: z.number().int().min(0).max(10).nullable(),
@@ -9,16 +20,57 @@ export const memorySchema = z.object({
   metadata: z.record(z.unknown()),
   createdAt: z.string(),
   updatedAt: z.string(),
+  deletedAt: z.string().optional(),
+  expiresAt: z.string().optional(),
+  lastAccessedAt: z.string().optional(),
+  accessCount: z.number().int().nonnegative().optional(),
+});
+
+export const memoryListItemSchema = memorySchema.extend({
+  score: z.number().optional(),
+  snippet: z.string().optional(),
 });
 
 export const memoryListSchema = z.object({
-  items: z.array(memorySchema),
+  items: z.array(memoryListItemSchema),
   total: z.number().nonnegative(),
   limit: z.number().nonnegative(),
   offset: z.number().nonnegative(),
+  nextCursor: z.string().optional(),
+});
+
+const expiresAtSchema = z
+  .string()
+  .datetime({ offset: true })
+  .describe("Hide the memory after this time; it is then moved to the trash");
+
+const ttlSchema = z
+  .string()
+  .trim()
+  .regex(/^0*[1-9]\d*\s*[smhdw]$/, { message: "ttl must look like 30m, 12h, 7d or 2w" })
+  .describe("Time to live from now, e.g. 30m, 12h, 7d or 2w. Alternative to expiresAt.");
+
+const anchorLocationSchema = z.object({
+  path: z.string().min(1).describe("File path relative to the workspace root"),
+  startLine: z.number().int().min(1).describe("First anchored line, 1-based"),
+  endLine: z.number().int().min(1).describe("Last anchored line, inclusive"),
 });
 
+export const codeAnchorSchema = anchorLocationSchema.extend({
+  hash: z.string().describe("Hash of the anchored lines, whitespace around each line ignored"),
+  broken: z
+    .boolean()
+    .describe("Set when memory.verify_anchors last could not find the snippet")
+    .optional(),
+});
+
+const anchorsInputSchema = z
+  .array(anchorLocationSchema)
+  .max(20)
+  .describe("Code the memory is about; the server reads the lines and records their hash");
+
 export const createMemoryInputSchema = z.object({
+  namespace: namespaceSchema.optional(),
   title: z.string().trim().min(1).max(200).optional(),
   content: z.string().trim().min(1, { message: "content is required" }),
   importance: z
@@ -32,6 +84,13 @@ export const createMemoryInputSchema = z.object({
     .max(25, { message: "Please limit tags to 25 entries" })
     .optional(),
   metadata: z.record(z.unknown()).optional(),
+  anchors: anchorsInputSchema.optional(),
+  expiresAt: expiresAtSchema.optional(),
+  ttl: ttlSchema.optional(),
+  allowDuplicate: z
+    .boolean()
+    .describe("Store the memory even when a near-duplicate exists and duplicates are rejected")
+    .optional(),
 });
 
 export const updateMemoryInputSchema = z.object({
@@ -47,23 +106,753 @@ export const updateMemoryInputSchema = z.object({
     .optional(),
   tags: z.array(z.string().trim().min(1)).nullable().optional(),
   metadata: z.record(z.unknown()).nullable().optional(),
+  anchors: anchorsInputSchema
+    .describe("Replaces the memory's code anchors; [] removes them. Kept when omitted.")
+    .optional(),
+  expiresAt: expiresAtSchema.nullable().describe("null removes the expiry").optional(),
+  ttl: ttlSchema.optional(),
 });
 
 export const deleteMemoryInputSchema = z.object({
   id: z.string().uuid("id must be a valid UUID"),
 });
 
+export const deletedMemorySchema = z.object({
+  deleted: z.string(),
+});
+
 export const getMemoryInputSchema = z.object({
   id: z.string().uuid("id must be a valid UUID"),
 });
 
+const tagModeSchema = z
+  .enum(["all", "any", "none"])
+  .describe("Require all tags (default), any of them, or none of them")
+  .optional();
+
+const namespaceFilterShape = {
+  namespace: namespaceSchema
+    .describe("Only this namespace. Defaults to the server's default namespace.")
+    .optional(),
+  namespaces: z.array(namespaceSchema).min(1).optional(),
+  allNamespaces: z
+    .boolean()
+    .describe("Search every namespace instead of the default one.")
+    .optional(),
+};
+
+const metadataScalarSchema = z.union([z.string(), z.number(), z.boolean(), z.null()]);
+
+export const metadataPredicateSchema = z
+  .object({
+    path: z
+      .string()
+      .trim()
+      .min(1)
+      .describe(
+        "Dotted path into metadata such as ticket or owner.name (numbers index arrays), or a JSON path starting with $"
+      ),
+    equals: metadataScalarSchema.optional(),
+    in: z.array(metadataScalarSchema).min(1).optional(),
+    exists: z.boolean().describe("Whether the path is present at all").optional(),
+    gt: z.number().optional(),
+    gte: z.number().optional(),
+    lt: z.number().optional(),
+    lte: z.number().optional(),
+    contains: metadataScalarSchema
+      .describe("An element of an array value, or a substring of a string value")
+      .optional(),
+  })
+  .strict()
+  .refine((predicate) => Object.keys(predicate).length > 1, {
+    message: "Set at least one of equals, in, exists, gt, gte, lt, lte or contains",
+  });
+
+const timestampSchema = z.string().datetime({ offset: true });
+
+const filterConditionShape = {
+  search: z
+    .string()
+    .trim()
+    .min(1)
+    .describe(
+      'Full-text query. Supports "exact phrases", prefix* terms and AND / OR / NOT; NOT needs a term on both sides, as in deploy NOT staging. Results are ranked by relevance.'
+    )
+    .optional(),
+  tags: z
+    .array(z.string().trim().min(1))
+    .describe("Parent tags also match nested ones: project matches project/api")
+    .optional(),
+  tagMode: tagModeSchema,
+  minImportance: z.number().int().min(0).max(10).optional(),
+  maxImportance: z.number().int().min(0).max(10).optional(),
+  before: timestampSchema.describe("Updated at or before this time").optional(),
+  after: timestampSchema.describe("Updated at or after this time").optional(),
+  createdBefore: timestampSchema.optional(),
+  createdAfter: timestampSchema.optional(),
+  metadata: z
+    .array(metadataPredicateSchema)
+    .describe("Tests on metadata values, all of which must hold")
+    .optional(),
+};
+
+const filterConditionSchema = z
+  .object({
+    namespace: namespaceSchema.optional(),
+    namespaces: z.array(namespaceSchema).min(1).optional(),
+    ...filterConditionShape,
+  })
+  .strict();
+
+export const filterExpressionSchema: z.ZodType<MemoryFilterExpression> = z.lazy(() =>
+  z.union([
+    z.object({ and: z.array(filterExpressionSchema).min(1) }).strict(),
+    z.object({ or: z.array(filterExpressionSchema).min(1) }).strict(),
+    z.object({ not: filterExpressionSchema }).strict(),
+    filterConditionSchema,
+  ])
+);
+
 export const listMemoryInputSchema = z.object({
-  search: z.string().trim().min(1).optional(),
-  tags: z.array(z.string().trim().min(1)).optional(),
+  ...namespaceFilterShape,
+  ...filterConditionShape,
+  where: filterExpressionSchema
+    .describe(
+      'Conditions combined with {"and": [...]}, {"or": [...]} and {"not": ...}. A condition takes the same filters as this tool (namespace, search, tags, importance, dates, metadata) and requires all of them.'
+    )
+    .optional(),
+  limit: z.number().int().min(1).max(200).optional(),
+  offset: z.number().int().min(0).optional(),
+  cursor: z
+    .string()
+    .min(1)
+    .describe(
+      "nextCursor of the previous page. Pages stay stable while memories are added; not available for search rank or relevance order."
+    )
+    .optional(),
+  includeExpired: z
+    .boolean()
+    .describe("Also list memories past their expiry that have not been swept yet")
+    .optional(),
+  sort: z
+    .enum(["updated", "created", "importance", "accessed", "relevance"])
+    .describe(
+      "Order of results. relevance weighs recency, how often a memory is read, importance and the search match. Defaults to search rank when searching, else updated."
+    )
+    .optional(),
+});
+
+export const similarMemoryInputSchema = z.object({
+  ...namespaceFilterShape,
+  text: z.string().trim().min(1).optional(),
+  id: z.string().uuid("id must be a valid UUID").optional(),
+  limit: z.number().int().min(1).max(50).optional(),
+  minScore: z.number().min(-1).max(1).optional(),
+  tags: z
+    .array(z.string().trim().min(1))
+    .describe("Parent tags also match nested ones: project matches project/api")
+    .optional(),
+  tagMode: tagModeSchema,
   minImportance: z.number().int().min(0).max(10).optional(),
   maxImportance: z.number().int().min(0).max(10).optional(),
+});
+
+export const similarMemoryListSchema = z.object({
+  items: z.array(
+    z.object({
+      memory: memorySchema,
+      score: z.number(),
+    })
+  ),
+});
+
+export const recallMemoryInputSchema = z.object({
+  ...namespaceFilterShape,
+  task: z.string().trim().min(1).describe("What you are about to work on, in a sentence or two"),
+  budget: z
+    .number()
+    .int()
+    .min(50)
+    .max(100_000)
+    .describe("Tokens the packed context may use, by a local estimate. Defaults to 2000.")
+    .optional(),
+  tags: z
+    .array(z.string().trim().min(1))
+    .describe("Tags that raise a memory's score; memories without them can still be recalled")
+    .optional(),
+  candidates: z
+    .number()
+    .int()
+    .min(1)
+    .max(200)
+    .describe("Memories scored before packing. Defaults to 50.")
+    .optional(),
+});
+
+const recalledMemorySchema = z.object({
+  id: z.string(),
+  title: z.string().nullable(),
+  score: z.number().describe("0-1: search match, tags, importance and recency combined"),
+  tokens: z.number().int().nonnegative().describe("Tokens the memory takes in the context"),
+  fullTokens: z.number().int().nonnegative().describe("Tokens the whole memory would take"),
+});
+
+export const recallResultSchema = z.object({
+  context: z.string().describe("The packed memories, best first"),
+  budget: z.number().int(),
+  usedTokens: z.number().int().nonnegative(),
+  included: z.array(recalledMemorySchema).describe("Memories packed whole"),
+  trimmed: z
+    .array(recalledMemorySchema)
+    .describe("Memories cut down to their most relevant sentences"),
+  omitted: z.array(recalledMemorySchema).describe("Candidates that did not fit the budget"),
+});
+
+const numericArgument = (name: string) =>
+  z
+    .string()
+    .trim()
+    .regex(/^\d+$/, { message: `${name} must be a whole number` })
+    .optional();
+
+export const captureSessionPromptArgsSchema = z.object({
+  transcript: z.string().trim().min(1, { message: "transcript is required" }),
+  focus: z.string().trim().min(1).optional(),
+  tags: z.string().trim().min(1).optional(),
+});
+
+export const recallForTaskPromptArgsSchema = z.object({
+  task: z.string().trim().min(1, { message: "task is required" }),
+  tags: z.string().trim().min(1).optional(),
+  limit: numericArgument("limit"),
+});
+
+export const reviewStalePromptArgsSchema = z.object({
+  olderThanDays: numericArgument("olderThanDays"),
+  maxImportance: numericArgument("maxImportance"),
+  limit: numericArgument("limit"),
+});
+
+export const memoryRevisionSchema = z.object({
+  memoryId: z.string(),
+  revision: z.number().int().positive(),
+  action: z.enum(["create", "update", "revert", "baseline"]),
+  title: z.string().nullable(),
+  content: z.string(),
+  importance: z.number().int().min(0).max(10).nullable(),
+  tags: z.array(z.string()),
+  metadata: z.record(z.unknown()),
+  changedFields: z.array(z.enum(["title", "content", "importance", "tags", "metadata"])),
+  revertedFrom: z.number().int().positive().nullable(),
+  createdAt: z.string(),
+});
+
+export const memoryHistoryInputSchema = z.object({
+  id: z.string().uuid("id must be a valid UUID"),
+  limit: z.number().int().min(1).max(200).optional(),
+});
+
+export const memoryDiffInputSchema = z.object({
+  id: z.string().uuid("id must be a valid UUID"),
+  from: z.number().int().positive().optional(),
+  to: z.number().int().positive().optional(),
+});
+
+export const memoryHistorySchema = z.object({
+  revisions: z.array(memoryRevisionSchema),
+});
+
+export const revisionDiffSchema = z.object({
+  memoryId: z.string(),
+  from: z.number().int().positive(),
+  to: z.number().int().positive(),
+  changes: z.array(
+    z.object({
+      field: z.enum(["title", "content", "importance", "tags", "metadata"]),
+      before: z.unknown(),
+      after: z.unknown(),
+    })
+  ),
+  contentDiff: z.string(),
+});
+
+export const revertMemoryInputSchema = z.object({
+  id: z.string().uuid("id must be a valid UUID"),
+  revision: z.number().int().positive(),
+});
+
+export const restoreMemoryInputSchema = z.object({
+  id: z.string().uuid("id must be a valid UUID"),
+});
+
+export const trashListInputSchema = z.object({
   limit: z.number().int().min(1).max(200).optional(),
   offset: z.number().int().min(0).optional(),
-  before: z.string().datetime({ offset: true }).optional(),
-  after: z.string().datetime({ offset: true }).optional(),
+  ...namespaceFilterShape,
+});
+
+export const purgeMemoryInputSchema = z.object({
+  ids: z.array(z.string().uuid("id must be a valid UUID")).min(1).optional(),
+  olderThanDays: z.number().min(0).optional(),
+  all: z.boolean().optional(),
+  ...namespaceFilterShape,
+});
+
+export const purgedMemoriesSchema = z.object({
+  purged: z.array(z.string()),
+});
+
+export const namespaceListSchema = z.object({
+  namespaces: z.array(
+    z.object({
+      namespace: z.string(),
+      count: z.number().int().nonnegative(),
+    })
+  ),
+  defaultNamespace: z.string(),
+});
+
+export const moveMemoryInputSchema = z.object({
+  ids: z.array(z.string().uuid("id must be a valid UUID")).min(1).max(200),
+  namespace: namespaceSchema,
+});
+
+export const movedMemoriesSchema = z.object({
+  moved: z.array(memorySchema),
+  skipped: z
+    .array(z.string())
+    .describe("Ids that were missing, trashed, or already in the namespace"),
+});
+
+export const duplicateCandidateSchema = z.object({
+  id: z.string(),
+  title: z.string().nullable(),
+  similarity: z.number().min(0).max(1),
+});
+
+export const duplicateScanInputSchema = z.object({
+  namespace: namespaceFilterShape.namespace,
+  allNamespaces: namespaceFilterShape.allNamespaces,
+  threshold: z
+    .number()
+    .min(0.1)
+    .max(1)
+    .describe("Minimum similarity (0-1) of the wording. Defaults to the server policy, usually 0.55.")
+    .optional(),
+  limit: z.number().int().min(1).max(100).optional(),
+});
+
+export const duplicateGroupListSchema = z.object({
+  groups: z.array(z.object({ memories: z.array(duplicateCandidateSchema) })),
+});
+
+export const mergeMemoryInputSchema = z.object({
+  ids: z
+    .array(z.string().uuid("id must be a valid UUID"))
+    .min(2)
+    .max(20)
+    .describe("The first memory is kept and receives the others"),
+  title: z.string().trim().min(1).max(200).nullable().optional(),
+  content: z
+    .string()
+    .trim()
+    .min(1)
+    .describe("Consolidated content. Defaults to the distinct contents joined together.")
+    .optional(),
+  sources: z
+    .enum(["delete", "link"])
+    .describe(
+      "delete (default) trashes the other memories and moves their links; link keeps them, marked as superseded"
+    )
+    .optional(),
+});
+
+export const mergedMemorySchema = z.object({
+  memory: memorySchema,
+  sources: z
+    .array(z.string())
+    .describe("The other merged memories, trashed or marked as superseded"),
+});
+
+export const scanMemoryInputSchema = z.object({
+  namespace: namespaceFilterShape.namespace,
+  allNamespaces: namespaceFilterShape.allNamespaces,
+  limit: z.number().int().min(1).max(200).optional(),
+});
+
+export const redactionFindingSchema = z.object({
+  rule: z.string(),
+  field: z.string(),
+  action: z.enum(["mask", "reject", "flag"]),
+  preview: z.string(),
+});
+
+export const sensitiveMemoryListSchema = z.object({
+  items: z.array(
+    z.object({
+      id: z.string(),
+      namespace: z.string(),
+      title: z.string().nullable(),
+      findings: z.array(redactionFindingSchema),
+    })
+  ),
+  total: z.number().int().nonnegative(),
+});
+
+export const addedMemorySchema = z.object({
+  memory: memorySchema,
+  duplicates: z
+    .array(duplicateCandidateSchema)
+    .describe("Near-duplicates already stored, when the policy warns about them")
+    .optional(),
+  redactions: z
+    .array(redactionFindingSchema)
+    .describe("What the redaction scan masked or flagged")
+    .optional(),
+});
+
+export const memoryLinkTypeSchema = z.enum([
+  "supersedes",
+  "relates-to",
+  "depends-on",
+  "derived-from",
+  "contradicts",
+  "part-of",
+]);
+
+export const memoryLinkSchema = z.object({
+  sourceId: z.string(),
+  targetId: z.string(),
+  type: memoryLinkTypeSchema,
+  createdAt: z.string(),
+});
+
+const linkedMemorySchema = z.object({
+  id: z.string(),
+  title: z.string().nullable(),
+  type: memoryLinkTypeSchema,
+  createdAt: z.string(),
+});
+
+export const memoryLinksSchema = z.object({
+  outbound: z.array(linkedMemorySchema),
+  inbound: z.array(linkedMemorySchema),
+});
+
+/** A memory as memory.get returns it, with its links. */
+export const memoryDetailSchema = memorySchema.extend({
+  links: memoryLinksSchema,
+});
+
+export const linkMemoryInputSchema = z.object({
+  sourceId: z.string().uuid("sourceId must be a valid UUID"),
+  targetId: z.string().uuid("targetId must be a valid UUID"),
+  type: memoryLinkTypeSchema.describe("Read as: source <type> target, e.g. A supersedes B"),
+});
+
+export const unlinkMemoryInputSchema = z.object({
+  sourceId: z.string().uuid("sourceId must be a valid UUID"),
+  targetId: z.string().uuid("targetId must be a valid UUID"),
+  type: memoryLinkTypeSchema.optional().describe("Remove only this type; all types when omitted"),
+});
+
+export const storedLinkSchema = z.object({
+  link: memoryLinkSchema,
+});
+
+export const removedLinksSchema = z.object({
+  removed: z.number().int().nonnegative(),
+});
+
+export const relatedMemoryInputSchema = z.object({
+  id: z.string().uuid("id must be a valid UUID"),
+  depth: z.number().int().min(1).max(5).optional(),
+  types: z.array(memoryLinkTypeSchema).min(1).optional(),
+  direction: z.enum(["outbound", "inbound", "both"]).optional(),
+  limit: z.number().int().min(1).max(200).optional(),
+});
+
+export const relatedMemoryListSchema = z.object({
+  items: z.array(
+    z.object({
+      memory: memorySchema,
+      depth: z.number().int().positive(),
+      via: memoryLinkSchema,
+    })
+  ),
+});
+
+const isoTimestamp = z
+  .string()
+  .datetime({ offset: true })
+  .transform((value) => new Date(value).toISOString());
+
+/** One memory in an export file. Only `content` is required. */
+export const importEntrySchema = z.object({
+  id: z.string().uuid("id must be a valid UUID").optional(),
+  namespace: namespaceSchema.optional(),
+  title: z.string().trim().min(1).max(200).nullable().optional(),
+  content: z.string().trim().min(1, { message: "content is required" }),
+  importance: z.number().int().min(0).max(10).nullable().optional(),
+  tags: z.array(z.string().trim().min(1)).max(25).optional(),
+  metadata: z.record(z.unknown()).optional(),
+  createdAt: isoTimestamp.optional(),
+  updatedAt: isoTimestamp.optional(),
+  deletedAt: isoTimestamp.optional(),
+  expiresAt: isoTimestamp.optional(),
+  links: z
+    .array(
+      z.object({
+        type: memoryLinkTypeSchema,
+        targetId: z.string().uuid("targetId must be a valid UUID"),
+      })
+    )
+    .optional(),
+});
+
+const transferFormatSchema = z
+  .enum(["jsonl", "markdown"])
+  .describe("jsonl is lossless; markdown writes one front matter block per memory")
+  .optional();
+
+export const exportMemoryInputSchema = z.object({
+  format: transferFormatSchema,
+  ...namespaceFilterShape,
+  ...filterConditionShape,
+  where: filterExpressionSchema.optional(),
+  trash: z
+    .enum(["exclude", "include", "only"])
+    .describe("Whether trashed memories are exported. Defaults to exclude.")
+    .optional(),
+  expired: z
+    .enum(["exclude", "include", "only"])
+    .describe("Whether memories past their expiry are exported. Defaults to exclude.")
+    .optional(),
+});
+
+export const exportResultSchema = z.object({
+  format: z.enum(["jsonl", "markdown"]),
+  count: z.number().int().nonnegative(),
+  data: z.string(),
+});
+
+export const importMemoryInputSchema = z.object({
+  format: transferFormatSchema,
+  data: z.string().min(1, { message: "data is required" }),
+  conflict: z
+    .enum(["skip", "overwrite", "keep-newer", "duplicate"])
+    .describe(
+      "When an id already exists: keep the vault copy (skip, default), replace it (overwrite), replace it if the import has a later updatedAt (keep-newer), or store it under a new id (duplicate)"
+    )
+    .optional(),
+  namespace: namespaceSchema
+    .describe("Put every entry in this namespace, whatever the data says")
+    .optional(),
+});
+
+export const importReportSchema = z.object({
+  total: z.number().int().nonnegative(),
+  created: z.number().int().nonnegative(),
+  overwritten: z.number().int().nonnegative(),
+  skipped: z.number().int().nonnegative(),
+  duplicated: z.number().int().nonnegative(),
+  rejected: z.number().int().nonnegative(),
+  links: z.number().int().nonnegative(),
+  items: z.array(
+    z.object({
+      id: z.string().optional(),
+      sourceId: z.string().optional(),
+      action: z.enum(["created", "overwritten", "skipped", "duplicated", "rejected"]),
+      reason: z.string().optional(),
+    })
+  ),
+});
+
+export const changeLogSchema = z.object({
+  deviceId: z.string().min(1),
+  changes: z.array(
+    z.object({
+      deviceId: z.string().min(1),
+      clock: z.number().int().positive(),
+      memoryId: z.string().min(1),
+      fields: z.record(z.unknown()),
+      changedAt: isoTimestamp,
+    })
+  ),
+});
+
+export const syncMemoryInputSchema = z.object({
+  path: z
+    .string()
+    .min(1)
+    .describe(
+      "Another vault file, or a change log file, in the server's workspace or vault folder. Relative paths start at the workspace."
+    )
+    .optional(),
+  data: z.string().min(1).describe("A change log exported by another vault").optional(),
+});
+
+export const syncReportSchema = z.object({
+  source: z.string(),
+  received: z.number().int().nonnegative(),
+  created: z.number().int().nonnegative(),
+  updated: z.number().int().nonnegative(),
+  trashed: z.number().int().nonnegative(),
+  restored: z.number().int().nonnegative(),
+  purged: z.number().int().nonnegative(),
+  links: z.number().int().nonnegative(),
+  conflicts: z.array(
+    z.object({
+      memoryId: z.string(),
+      title: z.string().nullable(),
+      field: z.string(),
+      local: z.unknown(),
+      remote: z.unknown(),
+      kept: z.enum(["local", "remote"]),
+    })
+  ),
+  rejected: z.array(z.object({ memoryId: z.string(), reason: z.string() })),
+});
+
+const tagSchema = z.string().trim().min(1).max(100);
+
+export const tagListInputSchema = z.object({
+  namespace: namespaceFilterShape.namespace,
+  allNamespaces: namespaceFilterShape.allNamespaces,
+  prefix: tagSchema.describe("Only this tag and the tags nested below it").optional(),
+});
+
+export const tagListSchema = z.object({
+  tags: z.array(
+    z.object({
+      tag: z.string(),
+      count: z.number().int().nonnegative(),
+    })
+  ),
+});
+
+export const renameTagInputSchema = z.object({
+  from: tagSchema,
+  to: tagSchema,
+  namespace: namespaceFilterShape.namespace,
+  allNamespaces: namespaceFilterShape.allNamespaces,
+});
+
+export const mergeTagsInputSchema = z.object({
+  sources: z.array(tagSchema).min(1).max(50),
+  target: tagSchema,
+  namespace: namespaceFilterShape.namespace,
+  allNamespaces: namespaceFilterShape.allNamespaces,
+});
+
+export const retaggedMemoriesSchema = z.object({
+  updated: z.array(z.string()).describe("Memories whose tags changed"),
+});
+
+export const auditInputSchema = z.object({
+  id: z.string().describe("Only calls that named or changed this memory").optional(),
+  client: z
+    .string()
+    .min(1)
+    .describe("Only calls from clients with this name, as sent in the MCP handshake")
+    .optional(),
+  tool: z.string().min(1).describe("Only calls to this tool, e.g. memory.update").optional(),
+  status: z.enum(["ok", "error"]).optional(),
+  since: timestampSchema.describe("Only calls at or after this time").optional(),
+  until: timestampSchema.describe("Only calls at or before this time").optional(),
+  limit: z.number().int().min(1).max(500).optional(),
+});
+
+export const auditEntrySchema = z.object({
+  id: z.number().int().positive(),
+  at: z.string(),
+  tool: z.string(),
+  clientName: z.string().nullable(),
+  clientVersion: z.string().nullable(),
+  sessionId: z.string().nullable(),
+  arguments: z.record(z.unknown()),
+  status: z.enum(["ok", "error"]),
+  error: z.string().nullable(),
+  memoryIds: z.array(z.string()),
+});
+
+export const auditListSchema = z.object({
+  entries: z.array(auditEntrySchema),
+});
+
+export const anchorListInputSchema = z.object({
+  ...namespaceFilterShape,
+  path: z
+    .string()
+    .min(1)
+    .describe("A file or folder relative to the workspace root; . for the whole workspace"),
+});
+
+export const anchoredMemoryListSchema = z.object({
+  items: z.array(
+    z.object({
+      memory: memorySchema,
+      anchors: z.array(codeAnchorSchema).describe("The memory's anchors inside the path"),
+    })
+  ),
+});
+
+export const verifyAnchorsInputSchema = z.object({
+  ...namespaceFilterShape,
+  path: z
+    .string()
+    .min(1)
+    .describe("Only anchors in this file or folder. Defaults to the whole workspace.")
+    .optional(),
+  reanchor: z
+    .boolean()
+    .describe("Re-anchor moved anchors and mark broken ones (default true); false only reports")
+    .optional(),
+});
+
+export const anchorReportSchema = z.object({
+  checked: z.number().int().nonnegative(),
+  intact: z.number().int().nonnegative(),
+  moved: z.number().int().nonnegative(),
+  broken: z.number().int().nonnegative(),
+  problems: z
+    .array(
+      z.object({
+        memoryId: z.string(),
+        title: z.string().nullable(),
+        anchor: anchorLocationSchema,
+        status: z.enum(["intact", "moved", "broken"]),
+        movedTo: anchorLocationSchema.optional(),
+        reason: z.string().optional(),
+      })
+    )
+    .describe("Every anchor that is not intact"),
+  updated: z.array(z.string()).describe("Memories whose anchors were rewritten"),
+});
+
+/** Blank variables count as unset. */
+const envBlank = (value: unknown) => (value === "" ? undefined : value);
+
+const envNumberSchema = z.preprocess(
+  (value) => (envBlank(value) === undefined ? undefined : Number(value)),
+  z
+    .number({ invalid_type_error: "must be a number" })
+    .finite("must be a finite number")
+    .nonnegative("must be 0 or more")
+    .optional()
+);
+
+/** Vault settings read from the environment when the options leave them out. */
+export const vaultEnvSchema = z.object({
+  MCP_CONTEXT_MEMORY_TRASH_RETENTION_DAYS: envNumberSchema,
+  MCP_CONTEXT_MEMORY_AUDIT_RETENTION_DAYS: envNumberSchema,
+  MCP_CONTEXT_MEMORY_MAINTENANCE_INTERVAL_MINUTES: envNumberSchema,
+  MCP_CONTEXT_MEMORY_DUPLICATES: z.preprocess(
+    envBlank,
+    z
+      .enum(["warn", "reject", "off"], {
+        errorMap: () => ({ message: "must be warn, reject or off" }),
+      })
+      .optional()
+  ),
 });
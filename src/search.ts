@@ -0,0 +1,241 @@
+import { InvalidFilterError } from "./filters.js";
+
+export type SearchToken =
+  | { type: "term"; value: string; prefix: boolean }
+  | { type: "phrase"; value: string }
+  | { type: "operator"; value: "AND" | "OR" | "NOT" };
+
+const OPERATORS = new Set(["AND", "OR", "NOT"]);
+
+function hasSearchableText(value: string) {
+  return /[\p{L}\p{N}]/u.test(value);
+}
+
+/**
+ * Splits a user supplied search string into phrases, (prefix) terms and the
+ * boolean operators AND / OR / NOT. Stray punctuation and a redundant AND or
+ * OR are dropped rather than surfaced as FTS5 syntax errors. Throws
+ * `InvalidFilterError` for a NOT without a term on both sides, since dropping
+ * it would invert the query, and for a query with nothing to search for.
+ */
+export function parseSearchQuery(search: string): SearchToken[] {
+  const tokens: SearchToken[] = [];
+  const pattern = /"([^"]*)"?|(\S+)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(search)) !== null) {
+    if (match[1] !== undefined) {
+      const phrase = match[1].trim();
+      if (hasSearchableText(phrase)) {
+        tokens.push({ type: "phrase", value: phrase });
+      }
+      continue;
+    }
+
+    const word = match[2];
+    if (OPERATORS.has(word)) {
+      tokens.push({ type: "operator", value: word as "AND" | "OR" | "NOT" });
+      continue;
+    }
+
+    const prefix = word.endsWith("*");
+    const value = word.replace(/\*+$/, "");
+    if (hasSearchableText(value)) {
+      tokens.push({ type: "term", value, prefix });
+    }
+  }
+
+  if (search.trim() !== "" && !tokens.some((token) => token.type !== "operator")) {
+    throw new InvalidFilterError(`Search "${search}" has no words to search for`);
+  }
+
+  // Operators need an operand on both sides. `AND NOT` is FTS5's `NOT`.
+  const cleaned: SearchToken[] = [];
+  tokens.forEach((token, index) => {
+    const previous = cleaned[cleaned.length - 1];
+    if (token.type === "operator" && token.value === "NOT") {
+      if (previous?.type === "operator" && previous.value === "AND") cleaned.pop();
+      const left = cleaned[cleaned.length - 1];
+      const right = tokens[index + 1];
+      if (!left || left.type === "operator" || !right || right.type === "operator") {
+        throw new InvalidFilterError(
+          `Search "${search}": NOT needs a term on both sides, as in "deploy NOT staging". ` +
+            `To leave matches out of every memory, filter with where: { not: { search } }`
+        );
+      }
+    } else if (token.type === "operator" && (!previous || previous.type === "operator")) {
+      return;
+    }
+    cleaned.push(token);
+  });
+  while (cleaned.length > 0 && cleaned[cleaned.length - 1].type === "operator") {
+    cleaned.pop();
+  }
+  return cleaned;
+}
+
+function quote(value: string) {
+  return `"${value.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Builds an FTS5 MATCH expression from a search string. Returns null for a
+ * blank one.
+ */
+export function toFtsQuery(search: string): string | null {
+  const tokens = parseSearchQuery(search);
+  if (tokens.length === 0) {
+    return null;
+  }
+  return tokens
+    .map((token) => {
+      switch (token.type) {
+        case "operator":
+          return token.value;
+        case "phrase":
+          return quote(token.value);
+        case "term":
+          return token.prefix ? `${quote(token.value)}*` : quote(token.value);
+      }
+    })
+    .join(" ");
+}
+
+export interface SearchableText {
+  title: string | null;
+  content: string;
+  tags: string[];
+}
+
+export interface SearchMatch {
+  score: number;
+  snippet: string;
+}
+
+// Same relative weights as the bm25() call in MemoryStore.listMemories.
+const FIELD_WEIGHTS = { title: 5, content: 1, tags: 2 } as const;
+
+function foldWord(word: string) {
+  return word
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase();
+}
+
+/** Rough stand-in for the porter stemmer used by the FTS index. */
+function stem(word: string) {
+  return word.replace(/(?:ing|ed|es|s)$/, "") || word;
+}
+
+function words(text: string) {
+  return (text.match(/[\p{L}\p{N}]+/gu) ?? []).map(foldWord);
+}
+
+function countOccurrences(haystack: string[], token: SearchToken): number {
+  if (token.type === "operator") return 0;
+  if (token.type === "term") {
+    const needle = foldWord(token.value);
+    return haystack.filter((word) =>
+      token.prefix ? word.startsWith(needle) : stem(word) === stem(needle)
+    ).length;
+  }
+  const phrase = words(token.value).map(stem);
+  if (phrase.length === 0) return 0;
+  let count = 0;
+  for (let i = 0; i + phrase.length <= haystack.length; i++) {
+    if (phrase.every((part, offset) => stem(haystack[i + offset]) === part)) {
+      count++;
+    }
+  }
+  return count;
+}
+
+function buildSnippet(text: string, operands: SearchToken[], radius = 8) {
+  // Highlight phrases word by word.
+  const highlights = operands.flatMap((token): SearchToken[] =>
+    token.type === "phrase"
+      ? words(token.value).map((value) => ({ type: "term", value, prefix: false }))
+      : [token]
+  );
+  const raw = text.split(/\s+/).filter(Boolean);
+  const hits = raw.map((word) => {
+    const folded = words(word);
+    return highlights.some((token) => folded.length > 0 && countOccurrences(folded, token) > 0);
+  });
+  const first = hits.indexOf(true);
+  if (first === -1) return null;
+  const start = Math.max(0, first - radius);
+  const end = Math.min(raw.length, first + radius * 2);
+  const body = raw
+    .slice(start, end)
+    .map((word, index) => (hits[start + index] ? `**${word}**` : word))
+    .join(" ");
+  return `${start > 0 ? "…" : ""}${body}${end < raw.length ? "…" : ""}`;
+}
+
+/**
+ * Evaluates a parsed search query against plain text, mirroring FTS5
+ * semantics: NOT binds tighter than AND (explicit or implicit), which binds
+ * tighter than OR. Used where the FTS index cannot see the text, such as
+ * encrypted vaults. Returns null when the text does not match.
+ */
+export function matchSearch(tokens: SearchToken[], text: SearchableText): SearchMatch | null {
+  const fields = {
+    title: words(text.title ?? ""),
+    content: words(text.content),
+    tags: words(text.tags.join(" ")),
+  };
+  const scoreOf = (token: SearchToken) =>
+    (Object.keys(fields) as Array<keyof typeof fields>).reduce(
+      (total, field) => total + countOccurrences(fields[field], token) * FIELD_WEIGHTS[field],
+      0
+    );
+
+  // Split into OR branches, each a chain of AND / NOT operands.
+  const branches: SearchToken[][] = [[]];
+  for (const token of tokens) {
+    if (token.type === "operator" && token.value === "OR") {
+      branches.push([]);
+    } else {
+      branches[branches.length - 1].push(token);
+    }
+  }
+
+  let score = 0;
+  let matched = false;
+  const positives: SearchToken[] = [];
+  for (const branch of branches) {
+    let branchScore = 0;
+    let branchMatched = true;
+    let negate = false;
+    const branchPositives: SearchToken[] = [];
+    for (const token of branch) {
+      if (token.type === "operator") {
+        negate = token.value === "NOT";
+        continue;
+      }
+      const tokenScore = scoreOf(token);
+      if (negate ? tokenScore > 0 : tokenScore === 0) {
+        branchMatched = false;
+        break;
+      }
+      if (!negate) {
+        branchScore += tokenScore;
+        branchPositives.push(token);
+      }
+      negate = false;
+    }
+    if (branchMatched && branch.length > 0) {
+      matched = true;
+      score += branchScore;
+      positives.push(...branchPositives);
+    }
+  }
+
+  if (!matched) return null;
+  const snippet =
+    buildSnippet(text.content, positives) ??
+    buildSnippet(text.title ?? "", positives) ??
+    text.content.slice(0, 120);
+  return { score, snippet };
+}
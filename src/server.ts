@@ -1,32 +1,157 @@
+import fs from "fs";
 import path from "path";
 import process from "process";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import type { Implementation } from "@modelcontextprotocol/sdk/types.js";
+import type { CallToolResult, Implementation } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
 import pkg from "../package.json" with { type: "json" };
+import {
+  AnchorError,
+  createAnchor,
+  formatAnchor,
+  isWithin,
+  listAnchoredMemories,
+  readAnchors,
+  verifyAnchors,
+  withAnchors,
+} from "./anchors.js";
+import { auditToolCalls } from "./audit.js";
+import type { MemoryBackend } from "./backend.js";
+import { resolveEncryptionKeySource, type EncryptionKeySource } from "./crypto.js";
+import { DuplicateMemoryError } from "./duplicates.js";
+import type { Embedder } from "./embeddings.js";
+import { InvalidFilterError } from "./filters.js";
+import { createLifecycle } from "./lifecycle.js";
+import { registerMemoryPrompts } from "./prompts.js";
+import { recallForTask } from "./recall.js";
+import { Redactor, SensitiveContentError } from "./redaction.js";
+import { registerMemoryResources } from "./resources.js";
+import { DEFAULT_NAMESPACE } from "./records.js";
 import { MemoryStore } from "./storage.js";
+import { parseChangeLog, readChangeLog } from "./sync.js";
+import { exportMemories, importMemories, TransferFormatError } from "./transfer.js";
 import {
+  addedMemorySchema,
+  anchoredMemoryListSchema,
+  anchorListInputSchema,
+  anchorReportSchema,
+  auditInputSchema,
+  auditListSchema,
   createMemoryInputSchema,
+  deletedMemorySchema,
   deleteMemoryInputSchema,
+  duplicateGroupListSchema,
+  duplicateScanInputSchema,
+  exportMemoryInputSchema,
+  exportResultSchema,
   getMemoryInputSchema,
+  importMemoryInputSchema,
+  importReportSchema,
+  linkMemoryInputSchema,
   listMemoryInputSchema,
+  memoryDetailSchema,
+  memoryDiffInputSchema,
+  memoryHistoryInputSchema,
+  memoryHistorySchema,
+  memoryLinksSchema,
   memoryListSchema,
   memorySchema,
+  mergedMemorySchema,
+  mergeMemoryInputSchema,
+  mergeTagsInputSchema,
+  movedMemoriesSchema,
+  moveMemoryInputSchema,
+  namespaceListSchema,
+  purgedMemoriesSchema,
+  purgeMemoryInputSchema,
+  recallMemoryInputSchema,
+  recallResultSchema,
+  relatedMemoryInputSchema,
+  relatedMemoryListSchema,
+  removedLinksSchema,
+  renameTagInputSchema,
+  restoreMemoryInputSchema,
+  retaggedMemoriesSchema,
+  revertMemoryInputSchema,
+  revisionDiffSchema,
+  scanMemoryInputSchema,
+  sensitiveMemoryListSchema,
+  similarMemoryInputSchema,
+  similarMemoryListSchema,
+  storedLinkSchema,
+  syncMemoryInputSchema,
+  syncReportSchema,
+  tagListInputSchema,
+  tagListSchema,
+  trashListInputSchema,
+  unlinkMemoryInputSchema,
   updateMemoryInputSchema,
+  vaultEnvSchema,
+  verifyAnchorsInputSchema,
 } from "./schemas.js";
-import type { MemoryRecord } from "./types.js";
+import type {
+  AnchorLocation,
+  CodeAnchor,
+  DuplicatePolicy,
+  ImportanceDecayPolicy,
+  MemoryLinks,
+  MemoryListResult,
+  MemoryRecord,
+  RecalledMemory,
+  RedactionPolicy,
+  RelevanceOptions,
+  RevisionRetentionPolicy,
+} from "./types.js";
 
 export const DEFAULT_DB_NAME = "context-memory-wallet.db";
 
 export const DEFAULT_INSTRUCTIONS = `This server exposes a personal context memory vault.
 
 Available tools:
-- memory.add: Persist a new memory entry with optional title, tags, metadata, and importance (0-10).
-- memory.list: List and filter stored memories by search terms, tags, importance, or time window.
-- memory.get: Retrieve a single memory by id.
-- memory.update: Update any field on an existing memory by id.
-- memory.delete: Remove a memory permanently by id.
+- memory.add: Persist a new memory entry with optional title, tags, metadata, importance (0-10), and expiry (expiresAt or ttl such as 7d). Near-duplicates of stored memories are reported (or rejected, depending on the server policy).
+- memory.list: List and filter stored memories by full-text search (phrases, prefix* terms, AND/OR/NOT), tags (all, any or none of them; parent tags like project also match project/api), importance, created or updated time, and metadata values (equals, in, exists, numeric ranges, contains on paths like ticket or owner.name). Combine conditions with where: {and|or|not}. Page with offset, or with the returned nextCursor for pages that stay stable while memories are added. Search results are ranked by match; sort by updated, created, importance, accessed or relevance (recency, reads, importance and match combined).
+- memory.similar: Find memories semantically related to a piece of text or to an existing memory, with cosine scores.
+- memory.recall: Pack the memories most relevant to a task into a token budget (scored by search match, tags, importance and recency; oversized ones are cut to their most relevant sentences), reporting which were included, trimmed or left out.
+- memory.get: Retrieve a single memory by id, with its inbound and outbound links.
+- memory.namespaces: List namespaces with their memory counts.
+- memory.move: Move memories to another namespace.
+- memory.tags: List tags with the number of memories carrying each.
+- memory.tags.rename: Rename a tag (and the tags nested below it) on every memory.
+- memory.tags.merge: Fold several tags into one on every memory.
+- memory.update: Update any field on an existing memory by id, including its expiry (expiresAt: null removes it).
+- memory.duplicates: Find groups of memories with near-identical wording.
+- memory.merge: Combine several memories into the first one (joined content, combined tags and metadata, highest importance), trashing or linking the others.
+- memory.scan: Audit stored memories for secrets and personal data (keys, tokens, passwords in connection strings, emails). New and updated memories are scanned automatically: matches are masked, flagged in metadata.sensitive, or refused.
+- memory.delete: Move a memory to the trash by id. Trashed memories are hidden everywhere else.
+- memory.trash.list: List memories in the trash, most recently deleted first.
+- memory.restore: Bring a trashed memory back.
+- memory.purge: Permanently remove trashed memories (by id, by age, or all).
+- memory.history: List the revisions of a memory, newest first.
+- memory.diff: Compare two revisions of a memory (defaults to the latest change).
+- memory.revert: Restore an earlier revision; the restore is recorded as a new revision.
+- memory.link: Add a typed, directed link between two memories (supersedes, relates-to, depends-on, derived-from, contradicts, part-of).
+- memory.unlink: Remove links between two memories.
+- memory.related: Walk the link graph from a memory up to a given depth, optionally by link type and direction.
+- memory.anchors: List the memories anchored to a workspace file or folder. memory.add and memory.update take anchors (path, startLine, endLine) tying a memory to the code it describes.
+- memory.verify_anchors: Re-read the anchored files and report each anchor as intact, moved (snippet found elsewhere in the file or its folder; re-anchored automatically) or broken.
+- memory.export: Export memories matching the usual filters as JSONL (lossless) or Markdown with front matter.
+- memory.import: Import JSONL or Markdown in one transaction, choosing how id conflicts are handled (skip, overwrite, keep-newer, duplicate).
+- memory.audit: Look up past tool calls (which client changed a memory, and when) by memory id, client, tool or time range.
+- memory.sync: Merge another vault file (or its exported change log) into this one, field by field; the later change wins and conflicts are reported.
+
+Resources:
+- memory://{id}: A single memory as JSON.
+- memory://recent: The most recently updated memories.
+- memory://tags/{tag}: Memories carrying a tag.
+Subscribe to any of these URIs to be notified when memories change.
+
+Prompts:
+- capture-session-learnings: Turn a transcript into suggested memory.add calls.
+- recall-for-task: Embed the memories relevant to a task description.
+- review-stale-memories: List old, low-importance memories for cleanup.
+
+Memories belong to a namespace (usually one per workspace). memory.add, memory.list, memory.similar and memory.recall use the server's default namespace unless you pass namespace/namespaces, or allNamespaces: true to search everywhere.
 
 Memories are stored durably on disk using SQLite. Tags are case-insensitive and deduplicated.
 Use memory.list before updating or deleting to get the correct id.`;
@@ -35,17 +160,101 @@ type ListMemoryArgs = z.infer<typeof listMemoryInputSchema>;
 type GetMemoryArgs = z.infer<typeof getMemoryInputSchema>;
 type UpdateMemoryArgs = z.infer<typeof updateMemoryInputSchema>;
 type DeleteMemoryArgs = z.infer<typeof deleteMemoryInputSchema>;
+type SimilarMemoryArgs = z.infer<typeof similarMemoryInputSchema>;
+type RecallMemoryArgs = z.infer<typeof recallMemoryInputSchema>;
+type MemoryHistoryArgs = z.infer<typeof memoryHistoryInputSchema>;
+type MemoryDiffArgs = z.infer<typeof memoryDiffInputSchema>;
+type RevertMemoryArgs = z.infer<typeof revertMemoryInputSchema>;
+type RestoreMemoryArgs = z.infer<typeof restoreMemoryInputSchema>;
+type TrashListArgs = z.infer<typeof trashListInputSchema>;
+type PurgeMemoryArgs = z.infer<typeof purgeMemoryInputSchema>;
+type MoveMemoryArgs = z.infer<typeof moveMemoryInputSchema>;
+type LinkMemoryArgs = z.infer<typeof linkMemoryInputSchema>;
+type UnlinkMemoryArgs = z.infer<typeof unlinkMemoryInputSchema>;
+type RelatedMemoryArgs = z.infer<typeof relatedMemoryInputSchema>;
+type ExportMemoryArgs = z.infer<typeof exportMemoryInputSchema>;
+type ImportMemoryArgs = z.infer<typeof importMemoryInputSchema>;
+type SyncMemoryArgs = z.infer<typeof syncMemoryInputSchema>;
+type AuditArgs = z.infer<typeof auditInputSchema>;
+type AnchorListArgs = z.infer<typeof anchorListInputSchema>;
+type VerifyAnchorsArgs = z.infer<typeof verifyAnchorsInputSchema>;
+type TagListArgs = z.infer<typeof tagListInputSchema>;
+type RenameTagArgs = z.infer<typeof renameTagInputSchema>;
+type MergeTagsArgs = z.infer<typeof mergeTagsInputSchema>;
+type DuplicateScanArgs = z.infer<typeof duplicateScanInputSchema>;
+type MergeMemoryArgs = z.infer<typeof mergeMemoryInputSchema>;
+type ScanMemoryArgs = z.infer<typeof scanMemoryInputSchema>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 const version = typeof pkg.version === "string" ? pkg.version : "0.1.0";
 
 export interface ContextMemoryServerOptions {
   dataDir?: string;
   dbPath?: string;
-  store?: MemoryStore;
+  /**
+   * Storage to serve instead of the SQLite vault at `dbPath`, such as an
+   * `InMemoryBackend` or `JsonFileBackend`. Its owner runs its maintenance.
+   */
+  store?: MemoryBackend;
+  /** Embedder for memory.similar. Ignored when a prebuilt `store` is supplied. */
+  embedder?: Embedder;
+  /**
+   * Vault key. Falls back to MCP_CONTEXT_MEMORY_PASSPHRASE / MCP_CONTEXT_MEMORY_KEYFILE.
+   * Ignored when a prebuilt `store` is supplied.
+   */
+  encryption?: EncryptionKeySource;
+  /** Revision history retention. Ignored when a prebuilt `store` is supplied. */
+  revisions?: RevisionRetentionPolicy;
+  /**
+   * Days trashed memories survive before being purged when the store is opened.
+   * Falls back to MCP_CONTEXT_MEMORY_TRASH_RETENTION_DAYS, then 30.
+   */
+  trashRetentionDays?: number;
+  /** Lower the importance of memories nobody reads. Ignored when a prebuilt `store` is supplied. */
+  importanceDecay?: ImportanceDecayPolicy;
+  /**
+   * Minutes between expiry sweeps, importance decay and trash purges while the server runs.
+   * Falls back to MCP_CONTEXT_MEMORY_MAINTENANCE_INTERVAL_MINUTES, then 10; 0 turns the timer off.
+   * Ignored when a prebuilt `store` is supplied.
+   */
+  maintenanceIntervalMinutes?: number;
+  /** Weights of the `relevance` sort in memory.list. Ignored when a prebuilt `store` is supplied. */
+  relevance?: RelevanceOptions;
+  /**
+   * Near-duplicate check on memory.add. The action falls back to MCP_CONTEXT_MEMORY_DUPLICATES,
+   * then `warn`. Ignored when a prebuilt `store` is supplied.
+   */
+  duplicates?: DuplicatePolicy;
+  /** Secret and PII scanning of memory writes. Ignored when a prebuilt `store` is supplied. */
+  redaction?: RedactionPolicy;
+  /**
+   * Days the audit log of tool calls is kept. Falls back to MCP_CONTEXT_MEMORY_AUDIT_RETENTION_DAYS,
+   * then 90; 0 keeps no log. Ignored when a prebuilt `store` is supplied.
+   */
+  auditRetentionDays?: number;
+  /**
+   * What successful tool calls return: `both` (readable text plus structured content, the
+   * default), `structured` or `text`. Falls back to MCP_CONTEXT_MEMORY_RESPONSE_FORMAT.
+   */
+  responseFormat?: ResponseFormat;
+  /**
+   * Namespace used when a tool call names none. Falls back to MCP_CONTEXT_MEMORY_NAMESPACE,
+   * then to one derived from `workspaceRoot`, then to "default".
+   */
+  namespace?: string;
+  /**
+   * Workspace folder whose name becomes the default namespace and against which code anchors
+   * are read. Falls back to MCP_CONTEXT_MEMORY_WORKSPACE, then (for anchors) the working directory.
+   */
+  workspaceRoot?: string;
   instructions?: string;
   serverInfo?: Partial<Implementation>;
 }
 
+/** How tools answer; see {@link ContextMemoryServerOptions.responseFormat}. */
+export type ResponseFormat = "both" | "structured" | "text";
+
 export interface StartServerOptions extends ContextMemoryServerOptions {
   transport?: StdioServerTransport;
   enableSignalHandlers?: boolean;
@@ -53,37 +262,214 @@ export interface StartServerOptions extends ContextMemoryServerOptions {
 
 export interface StartServerResult {
   server: McpServer;
-  store: MemoryStore;
+  store: MemoryBackend;
   transport: StdioServerTransport;
   dataDir: string;
   dbPath: string;
   waitUntilClosed: Promise<void>;
   shutdown: () => Promise<void>;
 }
-function toJsonContent(payload: unknown, message?: string) {
-  const lines: string[] = [];
-  if (message) {
-    lines.push(message.trim());
+function summarizeLinks(links: MemoryLinks) {
+  const describe = (arrow: string, entry: MemoryLinks["outbound"][number]) =>
+    `  ${arrow} ${entry.type} ${entry.title ? `${entry.title} (${entry.id})` : entry.id}`;
+  return [
+    ...links.outbound.map((entry) => describe("→", entry)),
+    ...links.inbound.map((entry) => describe("←", entry)),
+  ].join("\n");
+}
+
+/** Tool error whose details follow the message as JSON. */
+function detailedError(message: string, details: Record<string, unknown>): CallToolResult {
+  return {
+    isError: true,
+    content: [
+      { type: "text", text: message },
+      { type: "text", text: JSON.stringify(details, null, 2) },
+    ],
+  };
+}
+
+/** Tool result for a write the redaction policy refused. */
+function sensitiveContentResult(error: SensitiveContentError) {
+  return detailedError(error.message, { findings: error.findings });
+}
+
+/** A server setting, from the options or the environment, that cannot be used. */
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConfigError";
   }
-  lines.push("```json");
-  lines.push(JSON.stringify(payload, null, 2));
-  lines.push("```");
-  return lines.join("\n");
+}
+
+const RESPONSE_FORMATS: readonly ResponseFormat[] = ["both", "structured", "text"];
+
+export function resolveResponseFormat(options: ContextMemoryServerOptions = {}): ResponseFormat {
+  const format = options.responseFormat ?? process.env.MCP_CONTEXT_MEMORY_RESPONSE_FORMAT ?? "both";
+  if (!RESPONSE_FORMATS.includes(format as ResponseFormat)) {
+    throw new ConfigError(`Response format must be one of ${RESPONSE_FORMATS.join(", ")}, not ${format}`);
+  }
+  return format as ResponseFormat;
+}
+
+/** The tool's output schema, left out when tools answer in text only. */
+function outputShape<Shape extends z.ZodRawShape>(
+  format: ResponseFormat,
+  schema: z.ZodObject<Shape>
+) {
+  return format === "text" ? undefined : schema.shape;
+}
+
+/**
+ * A successful tool result in `format`: `payload` as structured content, the
+ * readable `text`, or both. Structured-only results repeat the payload as
+ * JSON text for clients that ignore structured content.
+ */
+function toolResult(
+  format: ResponseFormat,
+  payload: Record<string, unknown>,
+  ...text: string[]
+): CallToolResult {
+  const readable = text.map((part) => ({ type: "text" as const, text: part }));
+  if (format === "text") return { content: readable };
+  return {
+    content: format === "structured" ? [{ type: "text", text: JSON.stringify(payload) }] : readable,
+    structuredContent: payload,
+  };
 }
 
 function summarizeMemory(memory: MemoryRecord) {
   const lines = [
     memory.title ? `• ${memory.title}` : `• ${memory.id}`,
     `  id: ${memory.id}`,
+    `  namespace: ${memory.namespace}`,
     `  updated: ${memory.updatedAt}`,
     `  tags: ${memory.tags.join(", ") || "(none)"}`,
   ];
   if (memory.importance !== null && memory.importance !== undefined) {
     lines.push(`  importance: ${memory.importance}`);
   }
+  if (memory.expiresAt) {
+    lines.push(`  expires: ${memory.expiresAt}`);
+  }
+  const anchors = readAnchors(memory).map((anchor) =>
+    anchor.broken ? `${formatAnchor(anchor)} (broken)` : formatAnchor(anchor)
+  );
+  if (anchors.length > 0) {
+    lines.push(`  anchors: ${anchors.join(", ")}`);
+  }
   return lines.join("\n");
 }
 
+const TTL_UNITS_MS = { s: 1000, m: 60_000, h: 3_600_000, d: DAY_MS, w: 7 * DAY_MS } as const;
+
+/** Expiry timestamp for a time to live such as `30m`, `12h`, `7d` or `2w`; null if malformed or 0. */
+export function expiryFromTtl(ttl: string, now = Date.now()): string | null {
+  const match = /^(0*[1-9]\d*)\s*([smhdw])$/.exec(ttl.trim());
+  if (!match) return null;
+  const [, amount, unit] = match;
+  return new Date(now + Number(amount) * TTL_UNITS_MS[unit as keyof typeof TTL_UNITS_MS]).toISOString();
+}
+
+/**
+ * Turns the `expiresAt`/`ttl` arguments into an expiry timestamp. Returns
+ * undefined when neither is given, and an error message when both are or
+ * when `expiresAt` has already passed, since the memory would vanish unseen.
+ */
+function resolveExpiry(args: { expiresAt?: string | null; ttl?: string }): {
+  expiresAt?: string | null;
+  error?: string;
+} {
+  if (args.ttl !== undefined && args.expiresAt !== undefined) {
+    return { error: "Pass either expiresAt or ttl, not both" };
+  }
+  if (args.ttl !== undefined) {
+    return { expiresAt: expiryFromTtl(args.ttl) ?? undefined };
+  }
+  if (args.expiresAt === undefined) return {};
+  if (args.expiresAt === null) return { expiresAt: null };
+  const expiresAt = new Date(args.expiresAt);
+  if (expiresAt.getTime() <= Date.now()) {
+    return { error: `expiresAt ${args.expiresAt} is in the past; pass a later time or a ttl` };
+  }
+  return { expiresAt: expiresAt.toISOString() };
+}
+
+/**
+ * Reads the lines behind each anchor and records their hash. Returns
+ * undefined anchors when none were given, and an error message when a file
+ * or line range cannot be read.
+ */
+function resolveAnchors(
+  workspaceRoot: string,
+  locations: AnchorLocation[] | undefined
+): { anchors?: CodeAnchor[]; error?: string } {
+  if (!locations) return {};
+  try {
+    return { anchors: locations.map((location) => createAnchor(workspaceRoot, location)) };
+  } catch (error) {
+    if (!(error instanceof AnchorError)) throw error;
+    return { error: error.message };
+  }
+}
+
+/**
+ * The file memory.sync may read for `target`: relative paths resolve against
+ * each root in turn. Files outside every root, symlinked or not, are refused
+ * so clients of a shared server cannot read its other files.
+ */
+function resolveSyncPath(target: string, roots: string[]): { filePath?: string; error?: string } {
+  for (const root of roots) {
+    try {
+      const filePath = fs.realpathSync(path.resolve(root, target));
+      if (isWithin(fs.realpathSync(root), filePath)) return { filePath };
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code;
+      if (code !== "ENOENT" && code !== "ENOTDIR") throw error;
+    }
+  }
+  return {
+    error: `${target} is not a file in ${roots.join(" or ")}; pass its change log as data instead`,
+  };
+}
+
+/** Turns a workspace folder into a namespace, e.g. `/home/me/My Repo` → `my-repo`. */
+export function namespaceFromWorkspace(workspaceRoot: string) {
+  const slug = path
+    .basename(path.resolve(workspaceRoot))
+    .toLowerCase()
+    .replace(/[^\w.-]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return slug || DEFAULT_NAMESPACE;
+}
+
+export function resolveNamespace(options: ContextMemoryServerOptions = {}) {
+  const explicit = options.namespace ?? process.env.MCP_CONTEXT_MEMORY_NAMESPACE;
+  if (explicit && explicit.trim()) {
+    return explicit.trim();
+  }
+  const workspaceRoot = options.workspaceRoot ?? process.env.MCP_CONTEXT_MEMORY_WORKSPACE;
+  return workspaceRoot ? namespaceFromWorkspace(workspaceRoot) : DEFAULT_NAMESPACE;
+}
+
+/** The folder code anchors are relative to. */
+export function resolveWorkspaceRoot(options: ContextMemoryServerOptions = {}) {
+  return path.resolve(
+    options.workspaceRoot ?? process.env.MCP_CONTEXT_MEMORY_WORKSPACE ?? process.cwd()
+  );
+}
+
+/** Applies the default namespace unless the caller scoped the query or asked for all. */
+function scopeToNamespace<
+  T extends { namespace?: string; namespaces?: string[]; allNamespaces?: boolean },
+>(args: T, defaultNamespace: string) {
+  const { allNamespaces, ...rest } = args;
+  if (allNamespaces || rest.namespace || (rest.namespaces && rest.namespaces.length > 0)) {
+    return rest;
+  }
+  return { ...rest, namespace: defaultNamespace };
+}
+
 export function resolveStoragePaths(options: ContextMemoryServerOptions = {}) {
   const envDataDir = process.env.MCP_CONTEXT_MEMORY_HOME;
   const envDbPath = process.env.MCP_CONTEXT_MEMORY_DB;
@@ -95,9 +481,69 @@ export function resolveStoragePaths(options: ContextMemoryServerOptions = {}) {
   const dbPath = options.dbPath ?? envDbPath ?? path.join(dataDir, DEFAULT_DB_NAME);
   return { dataDir, dbPath };
 }
+/** The vault settings in the environment. Throws `ConfigError` naming each invalid one. */
+function readVaultEnv(): z.infer<typeof vaultEnvSchema> {
+  const parsed = vaultEnvSchema.safeParse(process.env);
+  if (!parsed.success) {
+    const problems = parsed.error.issues.map(
+      ({ path: [name], message }) => `${name} ${message}, not "${process.env[name]}"`
+    );
+    throw new ConfigError(`Invalid environment: ${problems.join("; ")}`);
+  }
+  return parsed.data;
+}
+
+/** Returns `options.store` or opens the configured database file. */
+export function openMemoryStore(options: ContextMemoryServerOptions = {}): MemoryBackend {
+  return options.store ?? openVault(options);
+}
+
+/**
+ * Opens the SQLite vault at the configured path, runs a maintenance pass and
+ * schedules the next ones. With `readOnly: true` it opens the file read-only
+ * and does neither, so the vault stays exactly as it was.
+ */
+export function openVault(
+  options: ContextMemoryServerOptions = {},
+  { readOnly = false }: { readOnly?: boolean } = {}
+): MemoryStore {
+  const { dbPath } = resolveStoragePaths(options);
+  const env = readVaultEnv();
+  const store = new MemoryStore(dbPath, {
+    embedder: options.embedder,
+    encryption: resolveEncryptionKeySource(options.encryption),
+    revisions: options.revisions,
+    trashRetentionDays: options.trashRetentionDays ?? env.MCP_CONTEXT_MEMORY_TRASH_RETENTION_DAYS,
+    importanceDecay: options.importanceDecay,
+    relevance: options.relevance,
+    duplicates: {
+      ...options.duplicates,
+      action: options.duplicates?.action ?? env.MCP_CONTEXT_MEMORY_DUPLICATES,
+    },
+    redaction: options.redaction,
+    auditRetentionDays: options.auditRetentionDays ?? env.MCP_CONTEXT_MEMORY_AUDIT_RETENTION_DAYS,
+    readOnly,
+  });
+  const { from, to, backupPath } = store.migration;
+  if (backupPath) {
+    console.error(`Upgraded memory vault schema from v${from} to v${to}; backup at ${backupPath}`);
+  }
+  if (readOnly) return store;
+  store.runMaintenance();
+  const intervalMinutes =
+    options.maintenanceIntervalMinutes ?? env.MCP_CONTEXT_MEMORY_MAINTENANCE_INTERVAL_MINUTES ?? 10;
+  if (intervalMinutes > 0) {
+    store.startMaintenance(intervalMinutes * 60_000);
+  }
+  return store;
+}
+
 export function createContextMemoryServer(options: ContextMemoryServerOptions = {}) {
   const { dataDir, dbPath } = resolveStoragePaths(options);
-  const store = options.store ?? new MemoryStore(dbPath);
+  const store = openMemoryStore(options);
+  const namespace = resolveNamespace(options);
+  const format = resolveResponseFormat(options);
+  const workspaceRoot = resolveWorkspaceRoot(options);
   const serverInfo: Implementation = {
     name: options.serverInfo?.name ?? "context-memory-mcp-server",
     version: options.serverInfo?.version ?? version,
@@ -106,30 +552,78 @@ export function createContextMemoryServer(options: ContextMemoryServerOptions =
   const server = new McpServer(
     serverInfo,
     {
-      instructions: options.instructions ?? DEFAULT_INSTRUCTIONS,
+      instructions:
+        options.instructions ??
+        [
+          DEFAULT_INSTRUCTIONS,
+          "",
+          `Default namespace: ${namespace}`,
+          ...(store.schemaVersion !== undefined ? [`Schema version: ${store.schemaVersion}`] : []),
+        ].join("\n"),
     }
   );
+  const detachAudit = auditToolCalls(server, store, new Redactor(options.redaction));
   server.registerTool(
     "memory.add",
     {
       title: "Capture a new memory entry",
       description: "Persist contextual information for later recall.",
       inputSchema: createMemoryInputSchema.shape,
+      outputSchema: outputShape(format, addedMemorySchema),
     },
     async (args: CreateMemoryArgs) => {
-      const record = store.addMemory(args);
+      const { ttl: _ttl, anchors, ...input } = args;
+      const expiry = resolveExpiry(args);
+      const anchored = resolveAnchors(workspaceRoot, anchors);
+      const error = expiry.error ?? anchored.error;
+      if (error) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: "text",
+              text: error,
+            },
+          ],
+        };
+      }
+      let added;
+      try {
+        added = store.addMemory({
+          ...input,
+          namespace: args.namespace ?? namespace,
+          // Anchors are only stored after their files were read.
+          metadata: withAnchors(input.metadata ?? {}, anchored.anchors ?? []),
+          expiresAt: expiry.expiresAt ?? undefined,
+        });
+      } catch (error) {
+        if (error instanceof SensitiveContentError) return sensitiveContentResult(error);
+        if (!(error instanceof DuplicateMemoryError)) throw error;
+        return detailedError(error.message, { duplicates: error.candidates });
+      }
+      const { duplicates, redactions, ...record } = added;
       await server.sendLoggingMessage({
         level: "info",
         message: `Added memory ${record.id}`,
       });
-      return {
-        content: [
-          {
-            type: "text",
-            text: toJsonContent({ memory: record }, "Memory stored"),
-          },
-        ],
-      };
+      const notes = ["Memory stored."];
+      if (redactions) {
+        const masked = redactions.filter((finding) => finding.action === "mask").length;
+        const flagged = redactions.length - masked;
+        notes.push(
+          `Masked ${masked} and flagged ${flagged} sensitive ${redactions.length === 1 ? "value" : "values"}.`
+        );
+      }
+      if (duplicates) {
+        notes.push(
+          `${duplicates.length} similar ${duplicates.length === 1 ? "memory already exists" : "memories already exist"}; consider memory.merge.`
+        );
+      }
+      return toolResult(
+        format,
+        addedMemorySchema.parse({ memory: record, duplicates, redactions }),
+        `${notes.join(" ")}\n${summarizeMemory(record)}`
+      );
     }
   );
   server.registerTool(
@@ -138,6 +632,7 @@ export function createContextMemoryServer(options: ContextMemoryServerOptions =
       title: "List stored memories",
       description: "Browse or filter the memory vault.",
       inputSchema: listMemoryInputSchema.shape,
+      outputSchema: outputShape(format, memoryListSchema),
     },
     async (args: ListMemoryArgs) => {
       if (
@@ -155,23 +650,138 @@ export function createContextMemoryServer(options: ContextMemoryServerOptions =
           ],
         };
       }
-      const result = store.listMemories(args);
-      const summary = result.items.map(summarizeMemory).join("\n");
+      if (args.cursor && args.offset !== undefined) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: "text",
+              text: "Use either cursor or offset, not both",
+            },
+          ],
+        };
+      }
+      const { includeExpired, ...filters } = args;
+      let result: MemoryListResult;
+      try {
+        result = store.listMemories({
+          ...scopeToNamespace(filters, namespace),
+          expired: includeExpired ? "include" : "exclude",
+        });
+      } catch (error) {
+        if (!(error instanceof InvalidFilterError)) throw error;
+        return {
+          isError: true,
+          content: [
+            {
+              type: "text",
+              text: error.message,
+            },
+          ],
+        };
+      }
+      store.recordAccess(result.items.map((item) => item.id));
+      const summary = result.items
+        .map((item) =>
+          item.snippet ? `${summarizeMemory(item)}\n  match: ${item.snippet}` : summarizeMemory(item)
+        )
+        .join("\n");
+      const more = result.nextCursor ? `\nNext page: cursor ${result.nextCursor}` : "";
       const text = summary
-        ? `${summary}\n\nTotal: ${result.total} (showing ${result.items.length})`
+        ? `${summary}\n\nTotal: ${result.total} (showing ${result.items.length})${more}`
         : "No memories matched the supplied filters.";
-      return {
-        content: [
-          {
-            type: "text",
-            text,
-          },
-          {
-            type: "text",
-            text: toJsonContent(memoryListSchema.parse(result), "Structured results"),
-          },
-        ],
-      };
+      return toolResult(format, memoryListSchema.parse(result), text);
+    }
+  );
+  server.registerTool(
+    "memory.similar",
+    {
+      title: "Find related memories",
+      description:
+        "Rank memories by semantic similarity to a paragraph of text or to an existing memory.",
+      inputSchema: similarMemoryInputSchema.shape,
+      outputSchema: outputShape(format, similarMemoryListSchema),
+    },
+    async (args: SimilarMemoryArgs) => {
+      if (!args.text && !args.id) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: "text",
+              text: "Provide either text or id to compare against",
+            },
+          ],
+        };
+      }
+      if (args.id && !store.getMemory(args.id)) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: "text",
+              text: `No memory found for id ${args.id}`,
+            },
+          ],
+        };
+      }
+      const { text, id, limit, minScore, ...filters } = args;
+      const items = store.findSimilar({
+        text,
+        id,
+        limit,
+        minScore,
+        filters: scopeToNamespace(filters, namespace),
+      });
+      const summary = items
+        .map(({ memory, score }) => `${summarizeMemory(memory)}\n  score: ${score.toFixed(3)}`)
+        .join("\n");
+      return toolResult(
+        format,
+        similarMemoryListSchema.parse({ items }),
+        summary || "No similar memories found."
+      );
+    }
+  );
+  server.registerTool(
+    "memory.recall",
+    {
+      title: "Recall context for a task",
+      description:
+        "Pack the memories most relevant to a task into a token budget, ready to use as context.",
+      inputSchema: recallMemoryInputSchema.shape,
+      outputSchema: outputShape(format, recallResultSchema),
+    },
+    async (args: RecallMemoryArgs) => {
+      const { task, budget, tags, candidates, ...filters } = args;
+      const result = recallForTask(store, {
+        task,
+        budget: budget ?? 2000,
+        tags,
+        candidates,
+        filters: scopeToNamespace(filters, namespace),
+        recencyHalfLifeDays: options.relevance?.recencyHalfLifeDays,
+      });
+      store.recordAccess([...result.included, ...result.trimmed].map((memory) => memory.id));
+      const list = (memories: RecalledMemory[], trimmed = false) =>
+        memories
+          .map((memory) => {
+            const size = trimmed ? `${memory.tokens} of ${memory.fullTokens}` : memory.fullTokens;
+            return `${memory.title ?? memory.id} (${size} tokens)`;
+          })
+          .join(", ") || "none";
+      const report = [
+        `Used ${result.usedTokens} of ${result.budget} tokens (estimated).`,
+        `Included: ${list(result.included)}`,
+        `Trimmed: ${list(result.trimmed, true)}`,
+        `Left out: ${list(result.omitted)}`,
+      ].join("\n");
+      return toolResult(
+        format,
+        recallResultSchema.parse(result),
+        result.context || "No memories relevant to this task were found.",
+        report
+      );
     }
   );
   server.registerTool(
@@ -180,6 +790,7 @@ export function createContextMemoryServer(options: ContextMemoryServerOptions =
       title: "Fetch a memory by id",
       description: "Retrieve the full payload of a stored memory entry.",
       inputSchema: getMemoryInputSchema.shape,
+      outputSchema: outputShape(format, memoryDetailSchema),
     },
     async (args: GetMemoryArgs) => {
       const record = store.getMemory(args.id);
@@ -194,14 +805,159 @@ export function createContextMemoryServer(options: ContextMemoryServerOptions =
           ],
         };
       }
-      return {
-        content: [
-          {
-            type: "text",
-            text: toJsonContent(memorySchema.parse(record), "Memory"),
-          },
-        ],
-      };
+      store.recordAccess([record.id]);
+      const links = memoryLinksSchema.parse(store.getLinks(record.id));
+      const linkSummary = summarizeLinks(links);
+      return toolResult(
+        format,
+        memoryDetailSchema.parse({ ...record, links }),
+        [
+          summarizeMemory(record),
+          "",
+          record.content,
+          ...(linkSummary ? ["", "Links:", linkSummary] : []),
+        ].join("\n")
+      );
+    }
+  );
+  server.registerTool(
+    "memory.namespaces",
+    {
+      title: "List namespaces",
+      description: "Show every namespace in the vault with its number of memories.",
+      inputSchema: {},
+      outputSchema: outputShape(format, namespaceListSchema),
+    },
+    async () => {
+      const namespaces = store.listNamespaces();
+      const summary = namespaces
+        .map(
+          (entry) =>
+            `• ${entry.namespace}: ${entry.count}${entry.namespace === namespace ? " (default)" : ""}`
+        )
+        .join("\n");
+      return toolResult(
+        format,
+        namespaceListSchema.parse({ namespaces, defaultNamespace: namespace }),
+        summary || "The vault is empty."
+      );
+    }
+  );
+  server.registerTool(
+    "memory.move",
+    {
+      title: "Move memories to another namespace",
+      description: "Reassign memories to a namespace, e.g. after a repository was renamed.",
+      inputSchema: moveMemoryInputSchema.shape,
+      outputSchema: outputShape(format, movedMemoriesSchema),
+    },
+    async (args: MoveMemoryArgs) => {
+      const moved = store.moveMemories(args.ids, args.namespace);
+      const movedIds = new Set(moved.map((memory) => memory.id));
+      const skipped = args.ids.filter((id) => !movedIds.has(id));
+      await server.sendLoggingMessage({
+        level: "info",
+        message: `Moved ${moved.length} memories to namespace ${args.namespace}`,
+      });
+      return toolResult(
+        format,
+        movedMemoriesSchema.parse({ moved, skipped }),
+        `Moved ${moved.length} of ${args.ids.length} to ${args.namespace}.` +
+          (skipped.length > 0 ? " Skipped ids were missing, trashed, or already there." : "")
+      );
+    }
+  );
+  server.registerTool(
+    "memory.tags",
+    {
+      title: "List tags",
+      description:
+        "Show every tag in use with its number of memories, most used first. Tags may be nested with '/', e.g. project/api/auth.",
+      inputSchema: tagListInputSchema.shape,
+      outputSchema: outputShape(format, tagListSchema),
+    },
+    async (args: TagListArgs) => {
+      const { prefix, ...scope } = args;
+      const tags = store
+        .listTags(scopeToNamespace(scope, namespace))
+        .filter(({ tag }) => !prefix || tag === prefix || tag.startsWith(`${prefix}/`));
+      const summary = tags.map(({ tag, count }) => `• ${tag} (${count})`).join("\n");
+      return toolResult(format, tagListSchema.parse({ tags }), summary || "No tags found.");
+    }
+  );
+  server.registerTool(
+    "memory.tags.rename",
+    {
+      title: "Rename a tag",
+      description:
+        "Rename a tag on every memory in one transaction. Nested tags follow: renaming api to backend turns api/auth into backend/auth.",
+      inputSchema: renameTagInputSchema.shape,
+      outputSchema: outputShape(format, retaggedMemoriesSchema),
+    },
+    async (args: RenameTagArgs) => {
+      const scope = scopeToNamespace(
+        { namespace: args.namespace, allNamespaces: args.allNamespaces },
+        namespace
+      );
+      const inUse = store.listTags(scope).map(({ tag }) => tag);
+      if (!inUse.some((tag) => tag === args.from || tag.startsWith(`${args.from}/`))) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: "text",
+              text: `No memories are tagged ${args.from}`,
+            },
+          ],
+        };
+      }
+      if (args.to !== args.from && inUse.includes(args.to)) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: "text",
+              text: `Tag ${args.to} already exists; use memory.tags.merge to combine the two`,
+            },
+          ],
+        };
+      }
+      const changed = store.renameTag(args.from, args.to, scope);
+      await server.sendLoggingMessage({
+        level: "info",
+        message: `Renamed tag ${args.from} to ${args.to} on ${changed.length} memories`,
+      });
+      return toolResult(
+        format,
+        { updated: changed },
+        `Renamed ${args.from} to ${args.to} on ${changed.length} memories.`
+      );
+    }
+  );
+  server.registerTool(
+    "memory.tags.merge",
+    {
+      title: "Merge tags",
+      description:
+        "Replace each source tag with the target tag on every memory in one transaction. Nested tags are re-rooted under the target.",
+      inputSchema: mergeTagsInputSchema.shape,
+      outputSchema: outputShape(format, retaggedMemoriesSchema),
+    },
+    async (args: MergeTagsArgs) => {
+      const scope = scopeToNamespace(
+        { namespace: args.namespace, allNamespaces: args.allNamespaces },
+        namespace
+      );
+      const changed = store.mergeTags(args.sources, args.target, scope);
+      await server.sendLoggingMessage({
+        level: "info",
+        message: `Merged ${args.sources.join(", ")} into ${args.target} on ${changed.length} memories`,
+      });
+      return toolResult(
+        format,
+        { updated: changed },
+        `Merged ${args.sources.join(", ")} into ${args.target} on ${changed.length} memories.`
+      );
     }
   );
   server.registerTool(
@@ -210,9 +966,41 @@ export function createContextMemoryServer(options: ContextMemoryServerOptions =
       title: "Edit an existing memory",
       description: "Modify content, tags, metadata, title, or importance for a memory.",
       inputSchema: updateMemoryInputSchema.shape,
+      outputSchema: outputShape(format, memorySchema),
     },
     async (args: UpdateMemoryArgs) => {
-      const updated = store.updateMemory(args);
+      const { ttl: _ttl, anchors, ...input } = args;
+      const expiry = resolveExpiry(args);
+      const anchored = resolveAnchors(workspaceRoot, anchors);
+      const error = expiry.error ?? anchored.error;
+      if (error) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: "text",
+              text: error,
+            },
+          ],
+        };
+      }
+      // New metadata keeps the memory's anchors; only `anchors` replaces them,
+      // after their files were read.
+      const existing = store.getMemory(args.id);
+      let metadata = input.metadata;
+      if (existing && (anchored.anchors || metadata !== undefined)) {
+        metadata = withAnchors(
+          metadata === undefined ? existing.metadata : metadata ?? {},
+          anchored.anchors ?? readAnchors(existing)
+        );
+      }
+      let updated;
+      try {
+        updated = store.updateMemory({ ...input, metadata, expiresAt: expiry.expiresAt });
+      } catch (error) {
+        if (error instanceof SensitiveContentError) return sensitiveContentResult(error);
+        throw error;
+      }
       if (!updated) {
         return {
           isError: true,
@@ -228,22 +1016,125 @@ export function createContextMemoryServer(options: ContextMemoryServerOptions =
         level: "info",
         message: `Updated memory ${args.id}`,
       });
-      return {
-        content: [
-          {
-            type: "text",
-            text: toJsonContent(memorySchema.parse(updated), "Memory updated"),
-          },
-        ],
-      };
+      return toolResult(
+        format,
+        memorySchema.parse(updated),
+        `Memory updated.\n${summarizeMemory(updated)}`
+      );
+    }
+  );
+  server.registerTool(
+    "memory.duplicates",
+    {
+      title: "Find duplicate memories",
+      description:
+        "Scan the vault for groups of memories with near-identical wording, e.g. to consolidate them with memory.merge.",
+      inputSchema: duplicateScanInputSchema.shape,
+      outputSchema: outputShape(format, duplicateGroupListSchema),
+    },
+    async (args: DuplicateScanArgs) => {
+      const { threshold, limit = 20, ...scope } = args;
+      const groups = store
+        .findDuplicates(scopeToNamespace(scope, namespace), threshold)
+        .slice(0, limit);
+      const summary = groups
+        .map((group) =>
+          group.memories
+            .map(
+              (memory) =>
+                `- ${memory.title ?? "(untitled)"} [${memory.id}] ${Math.round(memory.similarity * 100)}%`
+            )
+            .join("\n")
+        )
+        .join("\n\n");
+      return toolResult(
+        format,
+        duplicateGroupListSchema.parse({ groups }),
+        summary || "No near-duplicate memories found."
+      );
+    }
+  );
+  server.registerTool(
+    "memory.merge",
+    {
+      title: "Merge memories",
+      description:
+        "Combine several memories into the first one: contents joined, tags and metadata combined, highest importance kept. The others are trashed (their links move over) or kept and marked as superseded.",
+      inputSchema: mergeMemoryInputSchema.shape,
+      outputSchema: outputShape(format, mergedMemorySchema),
+    },
+    async (args: MergeMemoryArgs) => {
+      let merged;
+      try {
+        merged = store.mergeMemories(args);
+      } catch (error) {
+        if (error instanceof SensitiveContentError) return sensitiveContentResult(error);
+        throw error;
+      }
+      if (!merged) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: "text",
+              text: "Every memory to merge must exist and not be in the trash",
+            },
+          ],
+        };
+      }
+      const [, ...sourceIds] = [...new Set(args.ids)];
+      await server.sendLoggingMessage({
+        level: "info",
+        message: `Merged ${sourceIds.length} memories into ${merged.id}`,
+      });
+      return toolResult(
+        format,
+        mergedMemorySchema.parse({ memory: merged, sources: sourceIds }),
+        args.sources === "link"
+          ? `Merged into ${merged.id}; the sources are kept and linked as superseded.`
+          : `Merged into ${merged.id}; the sources were moved to the trash.`
+      );
+    }
+  );
+  server.registerTool(
+    "memory.scan",
+    {
+      title: "Scan memories for secrets",
+      description:
+        "Audit stored memories for API keys, tokens, private keys, passwords in connection strings, emails and other matches of the redaction rules. Reports findings without changing anything.",
+      inputSchema: scanMemoryInputSchema.shape,
+      outputSchema: outputShape(format, sensitiveMemoryListSchema),
+    },
+    async (args: ScanMemoryArgs) => {
+      const { limit = 50, ...scope } = args;
+      const matches = store.scanMemories(scopeToNamespace(scope, namespace));
+      const shown = matches.slice(0, limit);
+      const summary = shown
+        .map((memory) =>
+          [
+            `- ${memory.title ?? "(untitled)"} [${memory.id}]`,
+            ...memory.findings.map(
+              ({ field, rule, action, preview }) => `  ${field}: ${rule} (${action}) ${preview}`
+            ),
+          ].join("\n")
+        )
+        .join("\n");
+      return toolResult(
+        format,
+        sensitiveMemoryListSchema.parse({ items: shown, total: matches.length }),
+        summary
+          ? `${summary}\n\nMemories with findings: ${matches.length} (showing ${shown.length})`
+          : "No sensitive content found."
+      );
     }
   );
   server.registerTool(
     "memory.delete",
     {
       title: "Delete a memory entry",
-      description: "Remove a memory from the vault.",
+      description: "Move a memory to the trash. Use memory.restore to undo.",
       inputSchema: deleteMemoryInputSchema.shape,
+      outputSchema: outputShape(format, deletedMemorySchema),
     },
     async (args: DeleteMemoryArgs) => {
       const success = store.deleteMemory(args.id);
@@ -260,104 +1151,680 @@ export function createContextMemoryServer(options: ContextMemoryServerOptions =
       }
       await server.sendLoggingMessage({
         level: "info",
-        message: `Deleted memory ${args.id}`,
+        message: `Moved memory ${args.id} to the trash`,
       });
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Memory ${args.id} deleted.`,
-          },
-        ],
-      };
+      return toolResult(
+        format,
+        { deleted: args.id },
+        `Memory ${args.id} moved to the trash. Use memory.restore to undo.`
+      );
     }
   );
-
-  return { server, store, dataDir, dbPath };
-}
-export async function startContextMemoryServer(
-  options: StartServerOptions = {}
-): Promise<StartServerResult> {
-  const { transport = new StdioServerTransport(), enableSignalHandlers = true } = options;
-  const { server, store, dataDir, dbPath } = createContextMemoryServer(options);
-
-  await server.connect(transport);
-
-  let closing = false;
-  let closed = false;
-
-  let resolveWait!: () => void;
-  let rejectWait!: (reason: unknown) => void;
-
-  const waitUntilClosed = new Promise<void>((resolve, reject) => {
-    resolveWait = resolve;
-    rejectWait = reject;
-  });
-
-  const signalHandlers: Array<{ signal: NodeJS.Signals; handler: () => void }> = [];
-  const finalize = () => {
-    if (closed) {
-      return;
+  server.registerTool(
+    "memory.trash.list",
+    {
+      title: "List trashed memories",
+      description:
+        "Browse memories in the trash, most recently deleted first. Scoped to the default namespace unless namespace, namespaces or allNamespaces is given.",
+      inputSchema: trashListInputSchema.shape,
+      outputSchema: outputShape(format, memoryListSchema),
+    },
+    async (args: TrashListArgs) => {
+      const result = store.listMemories({ ...scopeToNamespace(args, namespace), trash: "only" });
+      const summary = result.items
+        .map((item) => `${summarizeMemory(item)}\n  deleted: ${item.deletedAt}`)
+        .join("\n");
+      const text = summary
+        ? `${summary}\n\nTotal: ${result.total} (showing ${result.items.length})`
+        : "The trash is empty.";
+      return toolResult(format, memoryListSchema.parse(result), text);
+    }
+  );
+  server.registerTool(
+    "memory.restore",
+    {
+      title: "Restore a trashed memory",
+      description: "Move a memory out of the trash.",
+      inputSchema: restoreMemoryInputSchema.shape,
+      outputSchema: outputShape(format, memorySchema),
+    },
+    async (args: RestoreMemoryArgs) => {
+      const restored = store.restoreMemory(args.id);
+      if (!restored) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: "text",
+              text: `No trashed memory found for id ${args.id}`,
+            },
+          ],
+        };
+      }
+      await server.sendLoggingMessage({
+        level: "info",
+        message: `Restored memory ${args.id}`,
+      });
+      return toolResult(
+        format,
+        memorySchema.parse(restored),
+        `Memory restored.\n${summarizeMemory(restored)}`
+      );
     }
-    closed = true;
-    for (const { signal, handler } of signalHandlers) {
-      process.off(signal, handler);
+  );
+  server.registerTool(
+    "memory.purge",
+    {
+      title: "Permanently delete trashed memories",
+      description:
+        "Irreversibly remove memories from the trash: specific ids, those trashed more than olderThanDays ago, or all. Only the default namespace's trash is purged unless namespace, namespaces or allNamespaces is given.",
+      inputSchema: purgeMemoryInputSchema.shape,
+      outputSchema: outputShape(format, purgedMemoriesSchema),
+    },
+    async (args: PurgeMemoryArgs) => {
+      if (!args.ids && args.olderThanDays === undefined && !args.all) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: "text",
+              text: "Provide ids, olderThanDays, or all: true",
+            },
+          ],
+        };
+      }
+      const scope = scopeToNamespace(
+        {
+          namespace: args.namespace,
+          namespaces: args.namespaces,
+          allNamespaces: args.allNamespaces,
+        },
+        namespace
+      );
+      const purged = store.purgeTrash({
+        ...scope,
+        ids: args.ids,
+        deletedBefore:
+          args.olderThanDays !== undefined
+            ? new Date(Date.now() - args.olderThanDays * DAY_MS).toISOString()
+            : undefined,
+      });
+      await server.sendLoggingMessage({
+        level: "info",
+        message: `Purged ${purged.length} trashed memories`,
+      });
+      return toolResult(
+        format,
+        { purged },
+        `Permanently deleted ${purged.length} ${purged.length === 1 ? "memory" : "memories"}.`
+      );
     }
-    resolveWait();
-  };
+  );
 
-  const shutdown = async (signal?: NodeJS.Signals) => {
-    if (closing) {
-      return;
+  server.registerTool(
+    "memory.history",
+    {
+      title: "List revisions of a memory",
+      description: "Show every recorded revision of a memory with the fields each one changed.",
+      inputSchema: memoryHistoryInputSchema.shape,
+      outputSchema: outputShape(format, memoryHistorySchema),
+    },
+    async (args: MemoryHistoryArgs) => {
+      const revisions = store.listRevisions(args.id, args.limit);
+      if (revisions.length === 0) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: "text",
+              text: `No revisions found for id ${args.id}`,
+            },
+          ],
+        };
+      }
+      const summary = revisions
+        .map((revision) => {
+          const fields = revision.changedFields.join(", ") || "(none)";
+          const origin = revision.revertedFrom ? ` from revision ${revision.revertedFrom}` : "";
+          return `• revision ${revision.revision} (${revision.action}${origin}) at ${revision.createdAt}\n  changed: ${fields}`;
+        })
+        .join("\n");
+      return toolResult(format, memoryHistorySchema.parse({ revisions }), summary);
     }
-    closing = true;
-
-    if (signal) {
-      await server
-        .sendLoggingMessage({
-          level: "info",
-          message: `Received ${signal}, shutting down context-memory-mcp-server`,
+  );
+  server.registerTool(
+    "memory.diff",
+    {
+      title: "Compare two revisions",
+      description:
+        "Show field changes and a line diff of the content between two revisions of a memory.",
+      inputSchema: memoryDiffInputSchema.shape,
+      outputSchema: outputShape(format, revisionDiffSchema),
+    },
+    async (args: MemoryDiffArgs) => {
+      const diff = store.diffRevisions(args.id, args.from, args.to);
+      if (!diff) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: "text",
+              text: `Revisions to compare were not found for id ${args.id}`,
+            },
+          ],
+        };
+      }
+      const lines = [`Revision ${diff.from} → ${diff.to}`];
+      if (diff.changes.length === 0) {
+        lines.push("No differences.");
+      }
+      for (const change of diff.changes) {
+        if (change.field === "content") continue;
+        lines.push(
+          `${change.field}: ${JSON.stringify(change.before)} → ${JSON.stringify(change.after)}`
+        );
+      }
+      if (diff.contentDiff) {
+        lines.push("content:", "```diff", diff.contentDiff, "```");
+      }
+      return toolResult(format, revisionDiffSchema.parse(diff), lines.join("\n"));
+    }
+  );
+  server.registerTool(
+    "memory.revert",
+    {
+      title: "Revert a memory to an earlier revision",
+      description: "Restore all fields from a revision. The restore becomes a new revision.",
+      inputSchema: revertMemoryInputSchema.shape,
+      outputSchema: outputShape(format, memorySchema),
+    },
+    async (args: RevertMemoryArgs) => {
+      if (!store.getMemory(args.id)) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: "text",
+              text: `No memory found for id ${args.id}`,
+            },
+          ],
+        };
+      }
+      const reverted = store.revertMemory(args.id, args.revision);
+      if (!reverted) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: "text",
+              text: `Revision ${args.revision} not found for id ${args.id}`,
+            },
+          ],
+        };
+      }
+      await server.sendLoggingMessage({
+        level: "info",
+        message: `Reverted memory ${args.id} to revision ${args.revision}`,
+      });
+      return toolResult(
+        format,
+        memorySchema.parse(reverted),
+        `Memory reverted to revision ${args.revision}.\n${summarizeMemory(reverted)}`
+      );
+    }
+  );
+  server.registerTool(
+    "memory.link",
+    {
+      title: "Link two memories",
+      description:
+        "Add a directed link that reads 'source <type> target', e.g. a new decision supersedes an old one.",
+      inputSchema: linkMemoryInputSchema.shape,
+      outputSchema: outputShape(format, storedLinkSchema),
+    },
+    async (args: LinkMemoryArgs) => {
+      if (args.sourceId === args.targetId) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: "text",
+              text: "A memory cannot link to itself",
+            },
+          ],
+        };
+      }
+      const link = store.linkMemories(args.sourceId, args.targetId, args.type);
+      if (!link) {
+        const missing = store.getMemory(args.sourceId) ? args.targetId : args.sourceId;
+        return {
+          isError: true,
+          content: [
+            {
+              type: "text",
+              text: `No memory found for id ${missing}`,
+            },
+          ],
+        };
+      }
+      await server.sendLoggingMessage({
+        level: "info",
+        message: `Linked ${args.sourceId} ${args.type} ${args.targetId}`,
+      });
+      return toolResult(
+        format,
+        storedLinkSchema.parse({ link }),
+        `Linked ${args.sourceId} ${args.type} ${args.targetId}.`
+      );
+    }
+  );
+  server.registerTool(
+    "memory.unlink",
+    {
+      title: "Remove links between two memories",
+      description: "Delete the link(s) from source to target, of one type or of every type.",
+      inputSchema: unlinkMemoryInputSchema.shape,
+      outputSchema: outputShape(format, removedLinksSchema),
+    },
+    async (args: UnlinkMemoryArgs) => {
+      const removed = store.unlinkMemories(args.sourceId, args.targetId, args.type);
+      if (removed === 0) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: "text",
+              text: `No ${args.type ? `${args.type} ` : ""}link from ${args.sourceId} to ${args.targetId}`,
+            },
+          ],
+        };
+      }
+      await server.sendLoggingMessage({
+        level: "info",
+        message: `Removed ${removed} link(s) from ${args.sourceId} to ${args.targetId}`,
+      });
+      return toolResult(format, { removed }, `Removed ${removed} link(s).`);
+    }
+  );
+  server.registerTool(
+    "memory.related",
+    {
+      title: "Traverse linked memories",
+      description:
+        "List memories reachable through links from a memory, nearest first, up to `depth` hops (default 1, max 5).",
+      inputSchema: relatedMemoryInputSchema.shape,
+      outputSchema: outputShape(format, relatedMemoryListSchema),
+    },
+    async (args: RelatedMemoryArgs) => {
+      if (!store.getMemory(args.id)) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: "text",
+              text: `No memory found for id ${args.id}`,
+            },
+          ],
+        };
+      }
+      const items = store.findRelated(args);
+      const summary = items
+        .map(({ memory, depth, via }) => {
+          const edge =
+            via.sourceId === memory.id
+              ? `${memory.id} ${via.type} ${via.targetId}`
+              : `${via.sourceId} ${via.type} ${memory.id}`;
+          return `${summarizeMemory(memory)}\n  depth: ${depth}\n  via: ${edge}`;
         })
-        .catch(() => {
-          /* ignore logging errors during shutdown */
+        .join("\n");
+      return toolResult(
+        format,
+        relatedMemoryListSchema.parse({ items }),
+        summary || "No linked memories found."
+      );
+    }
+  );
+  server.registerTool(
+    "memory.anchors",
+    {
+      title: "List memories anchored to code",
+      description:
+        "List the memories anchored to a file or folder of the workspace, with their anchors there.",
+      inputSchema: anchorListInputSchema.shape,
+      outputSchema: outputShape(format, anchoredMemoryListSchema),
+    },
+    async (args: AnchorListArgs) => {
+      const { path: target, ...scope } = args;
+      let items;
+      try {
+        items = listAnchoredMemories(
+          store,
+          workspaceRoot,
+          target,
+          scopeToNamespace(scope, namespace)
+        );
+      } catch (error) {
+        if (!(error instanceof AnchorError)) throw error;
+        return {
+          isError: true,
+          content: [
+            {
+              type: "text",
+              text: error.message,
+            },
+          ],
+        };
+      }
+      const summary = items.map(({ memory }) => summarizeMemory(memory)).join("\n");
+      return toolResult(
+        format,
+        anchoredMemoryListSchema.parse({ items }),
+        summary || `No memories are anchored to ${target}.`
+      );
+    }
+  );
+  server.registerTool(
+    "memory.verify_anchors",
+    {
+      title: "Check code anchors",
+      description:
+        "Re-read the files behind code anchors and report each as intact, moved or broken. Moved anchors are pointed at their new lines unless reanchor is false.",
+      inputSchema: verifyAnchorsInputSchema.shape,
+      outputSchema: outputShape(format, anchorReportSchema),
+    },
+    async (args: VerifyAnchorsArgs) => {
+      const { path: target, reanchor, ...scope } = args;
+      let report;
+      try {
+        report = verifyAnchors(store, workspaceRoot, {
+          path: target,
+          reanchor,
+          scope: scopeToNamespace(scope, namespace),
         });
+      } catch (error) {
+        if (!(error instanceof AnchorError)) throw error;
+        return {
+          isError: true,
+          content: [
+            {
+              type: "text",
+              text: error.message,
+            },
+          ],
+        };
+      }
+      const problems = report.problems.map((problem) => {
+        const label = `${problem.title ?? problem.memoryId} (${problem.memoryId})`;
+        return problem.movedTo
+          ? `- moved: ${label} ${formatAnchor(problem.anchor)} → ${formatAnchor(problem.movedTo)}`
+          : `- broken: ${label} ${formatAnchor(problem.anchor)}: ${problem.reason}`;
+      });
+      const lines = [
+        `Checked ${report.checked} ${report.checked === 1 ? "anchor" : "anchors"}: ${report.intact} intact, ${report.moved} moved, ${report.broken} broken.`,
+        ...problems,
+      ];
+      if (report.updated.length > 0) {
+        lines.push(
+          `Updated the anchors of ${report.updated.length} ${report.updated.length === 1 ? "memory" : "memories"}.`
+        );
+      } else if (reanchor === false && report.moved > 0) {
+        lines.push("Nothing was changed; run again without reanchor: false to re-anchor.");
+      }
+      if (report.broken > 0) {
+        lines.push(
+          "Review the broken ones with memory.get, then fix or re-anchor them with memory.update."
+        );
+      }
+      return toolResult(format, anchorReportSchema.parse(report), lines.join("\n"));
     }
-
-    try {
-      await server.close();
-    } catch (error) {
-      console.error("Failed to close context memory MCP server cleanly", error);
+  );
+  server.registerTool(
+    "memory.export",
+    {
+      title: "Export memories",
+      description:
+        "Serialize memories as JSONL (keeps ids, timestamps and links) or Markdown with front matter, e.g. to review them in a pull request.",
+      inputSchema: exportMemoryInputSchema.shape,
+      outputSchema: outputShape(format, exportResultSchema),
+    },
+    async (args: ExportMemoryArgs) => {
+      const { format: dataFormat = "jsonl", ...filters } = args;
+      let exported: { count: number; data: string };
+      try {
+        exported = exportMemories(store, {
+          format: dataFormat,
+          filters: scopeToNamespace(filters, namespace),
+        });
+      } catch (error) {
+        if (!(error instanceof InvalidFilterError)) throw error;
+        return {
+          isError: true,
+          content: [
+            {
+              type: "text",
+              text: error.message,
+            },
+          ],
+        };
+      }
+      const { count, data } = exported;
+      return toolResult(
+        format,
+        { format: dataFormat, count, data },
+        `Exported ${count} ${count === 1 ? "memory" : "memories"} as ${dataFormat}.`,
+        data
+      );
     }
+  );
+  server.registerTool(
+    "memory.import",
+    {
+      title: "Import memories",
+      description:
+        "Import JSONL or Markdown produced by memory.export. All entries are validated first and written in a single transaction.",
+      inputSchema: importMemoryInputSchema.shape,
+      outputSchema: outputShape(format, importReportSchema),
+    },
+    async (args: ImportMemoryArgs) => {
+      let report;
+      try {
+        report = importMemories(store, args.data, {
+          format: args.format,
+          conflict: args.conflict,
+          namespace: args.namespace,
+          defaultNamespace: namespace,
+        });
+      } catch (error) {
+        if (!(error instanceof TransferFormatError)) throw error;
+        return {
+          isError: true,
+          content: [
+            {
+              type: "text",
+              text: `Nothing was imported. ${error.message}`,
+            },
+          ],
+        };
+      }
+      await server.sendLoggingMessage({
+        level: "info",
+        message: `Imported ${report.total} memories (${report.created} created, ${report.overwritten} overwritten, ${report.duplicated} duplicated, ${report.skipped} skipped, ${report.rejected} rejected)`,
+      });
+      const rejected = report.items.flatMap((item, index) =>
+        item.action === "rejected"
+          ? [`- entry ${index + 1}${item.sourceId ? ` (${item.sourceId})` : ""}: ${item.reason}`]
+          : []
+      );
+      return toolResult(
+        format,
+        importReportSchema.parse(report),
+        [
+          `Imported ${report.total} entries: ${report.created} created, ${report.overwritten} overwritten, ${report.duplicated} duplicated, ${report.skipped} skipped, ${report.rejected} rejected, ${report.links} links.`,
+          ...rejected,
+        ].join("\n")
+      );
+    }
+  );
 
-    try {
-      await transport.close();
-    } catch (error) {
-      console.error("Failed to close context memory MCP transport cleanly", error);
+  server.registerTool(
+    "memory.audit",
+    {
+      title: "Audit log of tool calls",
+      description:
+        "List recorded tool calls, newest first: the tool, its arguments (secrets masked, long text cut), the outcome, the calling client and the memories involved. Filter by memory id, client name, tool, status or time range.",
+      inputSchema: auditInputSchema.shape,
+      outputSchema: outputShape(format, auditListSchema),
+    },
+    async (args: AuditArgs) => {
+      const entries = store.listAudit({
+        memoryId: args.id,
+        clientName: args.client,
+        tool: args.tool,
+        status: args.status,
+        since: args.since,
+        until: args.until,
+        limit: args.limit,
+      });
+      const lines = entries.map((entry) => {
+        const client = entry.clientName
+          ? `${entry.clientName}${entry.clientVersion ? ` ${entry.clientVersion}` : ""}`
+          : "unknown client";
+        const outcome = entry.status === "ok" ? "" : ` failed: ${entry.error ?? "error"}`;
+        return `- ${entry.at} ${entry.tool} by ${client}${outcome}`;
+      });
+      return toolResult(
+        format,
+        auditListSchema.parse({ entries }),
+        entries.length === 0
+          ? "No recorded tool calls match."
+          : [`${entries.length} recorded tool calls:`, ...lines].join("\n")
+      );
     }
+  );
 
-    finalize();
-  };
-  transport.onclose = finalize;
-  transport.onerror = (error: unknown) => {
-    console.error("Context memory MCP server transport error", error);
-    rejectWait(error);
-    void shutdown();
+  const applyChanges = store.applyChanges?.bind(store);
+  // memory.sync reads files from the workspace and the vault's folder only.
+  const syncRoots = [workspaceRoot, path.dirname(path.resolve(dbPath))];
+  if (applyChanges) {
+    server.registerTool(
+      "memory.sync",
+      {
+        title: "Sync with another vault",
+        description:
+          "Merge the changes of another vault into this one. Pass path (a vault file or change log file in the workspace or the vault's folder) or data (a change log from `context-memory-mcp-server changes`). Each field keeps its latest change; conflicting edits are listed in the report.",
+        inputSchema: syncMemoryInputSchema.shape,
+        outputSchema: outputShape(format, syncReportSchema),
+      },
+      async (args: SyncMemoryArgs) => {
+        if ((args.path === undefined) === (args.data === undefined)) {
+          return {
+            isError: true,
+            content: [
+              {
+                type: "text",
+                text: "Provide either path or data",
+              },
+            ],
+          };
+        }
+        const source = args.path ? resolveSyncPath(args.path, syncRoots) : {};
+        if (source.error) {
+          return {
+            isError: true,
+            content: [
+              {
+                type: "text",
+                text: source.error,
+              },
+            ],
+          };
+        }
+        let report;
+        try {
+          const log = source.filePath
+            ? readChangeLog(source.filePath, {
+                encryption: resolveEncryptionKeySource(options.encryption),
+              })
+            : parseChangeLog(args.data ?? "");
+          report = applyChanges(log);
+        } catch (error) {
+          return {
+            isError: true,
+            content: [
+              {
+                type: "text",
+                text: `Nothing was synced. ${(error as Error).message}`,
+              },
+            ],
+          };
+        }
+        await server.sendLoggingMessage({
+          level: "info",
+          message: `Synced ${report.received} changes from ${report.source} (${report.conflicts.length} conflicts)`,
+        });
+        const conflicts = report.conflicts.map(
+          (conflict) =>
+            `- ${conflict.title ?? conflict.memoryId} (${conflict.memoryId}) ${conflict.field}: kept ${conflict.kept}`
+        );
+        const rejected = report.rejected.map((change) => `- ${change.memoryId}: ${change.reason}`);
+        return toolResult(
+          format,
+          syncReportSchema.parse(report),
+          [
+            `Received ${report.received} changes: ${report.created} created, ${report.updated} updated, ${report.trashed} trashed, ${report.restored} restored, ${report.purged} purged, ${report.links} links.`,
+            ...(conflicts.length ? [`${conflicts.length} conflicts:`, ...conflicts] : []),
+            ...(rejected.length ? [`${rejected.length} changes rejected:`, ...rejected] : []),
+          ].join("\n")
+        );
+      }
+    );
+  }
+
+  registerMemoryPrompts(server, store, namespace);
+  const detachResources = registerMemoryResources(server, store, namespace);
+  const previousOnClose = server.server.onclose;
+  server.server.onclose = () => {
+    detachResources();
+    detachAudit();
+    previousOnClose?.();
   };
 
-  if (enableSignalHandlers) {
-    const makeHandler = (signal: NodeJS.Signals) => () => {
-      void shutdown(signal);
-    };
+  return { server, store, dataDir, dbPath, namespace };
+}
+export async function startContextMemoryServer(
+  options: StartServerOptions = {}
+): Promise<StartServerResult> {
+  const { transport = new StdioServerTransport(), enableSignalHandlers = true } = options;
+  const { server, store, dataDir, dbPath } = createContextMemoryServer(options);
 
-    const sigintHandler = makeHandler("SIGINT");
-    const sigtermHandler = makeHandler("SIGTERM");
+  await server.connect(transport);
 
-    signalHandlers.push({ signal: "SIGINT", handler: sigintHandler });
-    signalHandlers.push({ signal: "SIGTERM", handler: sigtermHandler });
+  const lifecycle = createLifecycle({
+    enableSignalHandlers,
+    onSignal: (signal) =>
+      server.sendLoggingMessage({
+        level: "info",
+        message: `Received ${signal}, shutting down context-memory-mcp-server`,
+      }),
+    close: async () => {
+      try {
+        await server.close();
+      } catch (error) {
+        console.error("Failed to close context memory MCP server cleanly", error);
+      }
 
-    process.once("SIGINT", sigintHandler);
-    process.once("SIGTERM", sigtermHandler);
-  }
+      try {
+        await transport.close();
+      } catch (error) {
+        console.error("Failed to close context memory MCP transport cleanly", error);
+      }
+    },
+  });
+  transport.onclose = lifecycle.finalize;
+  transport.onerror = (error: unknown) => {
+    console.error("Context memory MCP server transport error", error);
+    lifecycle.fail(error);
+  };
 
   return {
     server,
@@ -365,7 +1832,7 @@ export async function startContextMemoryServer(
     transport,
     dataDir,
     dbPath,
-    waitUntilClosed,
-    shutdown: () => shutdown(),
+    waitUntilClosed: lifecycle.waitUntilClosed,
+    shutdown: () => lifecycle.shutdown(),
   };
 }
@@ -2,14 +2,159 @@ import Database from "better-sqlite3";
 import fs from "fs";
 import path from "path";
 import { v4 as uuidv4 } from "uuid";
+import type { BackendOptions, MemoryBackend } from "./backend.js";
+import {
+  createKdfParams,
+  VaultCipher,
+  VaultKeyError,
+  type EncryptionKeySource,
+  type KdfParams,
+} from "./crypto.js";
+import { diffLines, formatDiff } from "./diff.js";
+import {
+  DEFAULT_DUPLICATE_THRESHOLD,
+  DuplicateMemoryError,
+  groupDuplicates,
+  rankNearDuplicates,
+} from "./duplicates.js";
+import {
+  bufferToVector,
+  cosineSimilarity,
+  HashingEmbedder,
+  vectorToBuffer,
+  type Embedder,
+} from "./embeddings.js";
+import {
+  compareCursorKeys,
+  decodeListCursor,
+  encodeCursor,
+  metadataClause,
+  resolveListOrder,
+  type BindParameter,
+  type CursorKey,
+  type ListOrder,
+} from "./filters.js";
+import {
+  migrate,
+  readSchemaVersion,
+  SCHEMA_VERSION,
+  type MigrationResult,
+} from "./migrations.js";
+import { relevanceScore } from "./ranking.js";
+import {
+  changedFields,
+  clampImportance,
+  DEFAULT_NAMESPACE,
+  duplicateText,
+  embeddingText,
+  isTagWithin,
+  MEMORY_FIELDS,
+  normalizeTag,
+  normalizeTags,
+} from "./records.js";
+import { flagSensitive, Redactor, SensitiveContentError } from "./redaction.js";
+import { matchSearch, parseSearchQuery, toFtsQuery } from "./search.js";
+import {
+  changedValues,
+  changeKey,
+  compareChanges,
+  linkField,
+  parseLinkField,
+  resolveFields,
+  syncedValues,
+  type SyncedField,
+} from "./sync.js";
+import { TransferFormatError } from "./transfer.js";
 import type {
+  AddedMemory,
+  AuditEntry,
+  AuditEntryInput,
+  AuditQuery,
+  ChangeLog,
+  DuplicateCandidate,
+  DuplicateGroup,
+  DuplicatePolicy,
+  FieldChange,
+  ImportanceDecayPolicy,
+  ImportEntry,
+  ImportOptions,
+  ImportReport,
+  LinkedMemory,
+  MaintenanceReport,
+  MemoryChangeEvent,
   MemoryCreateInput,
+  MemoryField,
+  MemoryFilterCondition,
+  MemoryFilterExpression,
   MemoryFilters,
+  MemoryLink,
+  MemoryLinks,
+  MemoryLinkType,
+  MemoryListItem,
   MemoryListResult,
   MemoryRecord,
+  MemoryRevision,
   MemoryUpdateInput,
+  MergeMemoriesInput,
+  NamespaceCount,
+  NamespaceScope,
+  PortableMemory,
+  PurgeOptions,
+  RedactionFinding,
+  RelatedMemory,
+  RelatedMemoryQuery,
+  RelevanceOptions,
+  RevisionDiff,
+  RevisionRetentionPolicy,
+  SimilarMemory,
+  SensitiveMemory,
+  SimilarMemoryQuery,
+  SyncReport,
+  TagCount,
+  VaultChange,
+  VaultStats,
 } from "./types.js";
 
+export interface MemoryStoreOptions extends BackendOptions {
+  /**
+   * Key for an encrypted vault. Required to open one; on a new, empty vault it
+   * turns encryption on. Use `enableEncryption` for a vault that already has data.
+   */
+  encryption?: EncryptionKeySource;
+  /** Copy the database file before upgrading its schema. Defaults to true. */
+  backupBeforeMigration?: boolean;
+  /**
+   * Never write to the file. An older vault is upgraded in a copy held in
+   * memory and a missing one reads as empty; writes are refused by SQLite.
+   */
+  readOnly?: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Sort keys of the list orders that support cursors, all descending. Missing
+ * values sort last and the id breaks ties, so every memory has a distinct key.
+ */
+const LIST_ORDERS: Record<ListOrder, string[]> = {
+  updated: [`memories.updated_at`, `memories.id`],
+  created: [`memories.created_at`, `memories.id`],
+  importance: [`COALESCE(memories.importance, -1)`, `memories.updated_at`, `memories.id`],
+  accessed: [`COALESCE(memories.last_accessed_at, '')`, `memories.updated_at`, `memories.id`],
+  deleted: [`memories.deleted_at`, `memories.id`],
+};
+
+function orderByKeys(order: ListOrder) {
+  return LIST_ORDERS[order].map((key) => `${key} DESC`).join(", ");
+}
+
+interface FilterQuery {
+  from: string;
+  where: string;
+  params: Record<string, unknown>;
+  ftsQuery: string | null;
+}
+
 function ensureDirectoryExists(filePath: string) {
   const directory = path.dirname(filePath);
   if (!fs.existsSync(directory)) {
@@ -17,22 +162,6 @@ function ensureDirectoryExists(filePath: string) {
   }
 }
 
-function normalizeTags(tags?: string[] | null): string[] {
-  if (!tags || tags.length === 0) {
-    return [];
-  }
-  const seen = new Set<string>();
-  return tags
-    .map((tag) => tag.trim())
-    .filter((tag) => {
-      if (!tag) return false;
-      const lower = tag.toLowerCase();
-      if (seen.has(lower)) return false;
-      seen.add(lower);
-      return true;
-    });
-}
-
 function serializeJson(value: Record<string, unknown> | null | undefined) {
   return JSON.stringify(value ?? {});
 }
@@ -48,163 +177,1080 @@ function parseJson<T>(value: string | null, fallback: T): T {
   }
 }
 
-export class MemoryStore {
+export class MemoryStore implements MemoryBackend {
   private db: Database.Database;
+  private readonly embedder: Embedder;
+  private cipher: VaultCipher | null = null;
+  private readonly revisionPolicy: RevisionRetentionPolicy;
+  private readonly trashRetentionDays: number;
+  private readonly auditRetentionDays: number;
+  private readonly changeListeners = new Set<(event: MemoryChangeEvent) => void>();
+  private readonly migrationResult: MigrationResult;
+  private readonly decayPolicy: ImportanceDecayPolicy | undefined;
+  private readonly relevanceOptions: RelevanceOptions;
+  private readonly duplicatePolicy: DuplicatePolicy;
+  private readonly redactor: Redactor;
+  private maintenanceTimer: NodeJS.Timeout | null = null;
+  private device = "";
 
-  constructor(private readonly dbPath: string) {
-    ensureDirectoryExists(dbPath);
-    this.db = new Database(dbPath);
+  constructor(
+    private readonly dbPath: string,
+    options: MemoryStoreOptions = {}
+  ) {
+    if (options.readOnly) {
+      this.db = fs.existsSync(dbPath)
+        ? new Database(dbPath, { readonly: true, fileMustExist: true })
+        : new Database(":memory:");
+    } else {
+      ensureDirectoryExists(dbPath);
+      this.db = new Database(dbPath);
+    }
+    this.embedder = options.embedder ?? new HashingEmbedder();
+    this.revisionPolicy = options.revisions ?? {};
+    this.trashRetentionDays = options.trashRetentionDays ?? 30;
+    this.auditRetentionDays = options.auditRetentionDays ?? 90;
+    this.decayPolicy = options.importanceDecay;
+    this.relevanceOptions = options.relevance ?? {};
+    this.duplicatePolicy = options.duplicates ?? {};
+    this.redactor = new Redactor(options.redaction);
     this.configure();
-    this.createSchema();
+    try {
+      if (this.db.readonly && readSchemaVersion(this.db) < SCHEMA_VERSION) {
+        const image = this.db.serialize();
+        // The header's file format bytes must say rollback journal, not WAL,
+        // for SQLite to load the image in memory.
+        image[18] = 1;
+        image[19] = 1;
+        this.db.close();
+        this.db = new Database(image);
+        this.configure();
+      }
+      this.migrationResult = migrate(this.db, dbPath, {
+        backup: options.readOnly ? false : options.backupBeforeMigration,
+      });
+    } catch (error) {
+      this.db.close();
+      throw error;
+    }
+    this.initializeEncryption(options.encryption);
+    if (this.db.readonly) {
+      // The search index, embeddings and device id are left to the next writer.
+      this.device = this.getMeta("sync.device") ?? "";
+      return;
+    }
+    this.createSearchIndex();
+    this.backfillEmbeddings();
+    this.initializeChangeLog();
+  }
+
+  /** Whether title, content and metadata are stored encrypted. */
+  get encrypted() {
+    return this.cipher !== null;
+  }
+
+  /** Result of bringing the schema up to date when the store was opened. */
+  get migration(): MigrationResult {
+    return this.migrationResult;
+  }
+
+  /** Identifies this vault's changes in the change log. */
+  get deviceId() {
+    return this.device;
+  }
+
+  /** `PRAGMA user_version` of the open database. */
+  get schemaVersion() {
+    return readSchemaVersion(this.db);
+  }
+
+  close() {
+    this.stopMaintenance();
+    this.db.close();
+  }
+
+  /** Registers a listener for add/update/delete. Returns an unsubscribe function. */
+  onChange(listener: (event: MemoryChangeEvent) => void): () => void {
+    this.changeListeners.add(listener);
+    return () => {
+      this.changeListeners.delete(listener);
+    };
+  }
+
+  private emitChange(event: MemoryChangeEvent) {
+    for (const listener of this.changeListeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error("Memory change listener failed", error);
+      }
+    }
   }
 
   private configure() {
-    this.db.pragma("journal_mode = WAL");
+    if (!this.db.readonly) this.db.pragma("journal_mode = WAL");
     this.db.pragma("foreign_keys = ON");
+    this.db.function(
+      "memory_relevance",
+      { deterministic: true },
+      (updatedAt, lastAccessedAt, accessCount, importance, match, now) =>
+        relevanceScore(
+          {
+            updatedAt: updatedAt as string,
+            lastAccessedAt: (lastAccessedAt as string | null) ?? undefined,
+            accessCount: Number(accessCount),
+            importance: importance as number | null,
+          },
+          Number(match),
+          this.relevanceOptions,
+          Number(now)
+        )
+    );
+    // Let filters reach into encrypted rows.
+    this.db.function("memory_unseal", (value) => this.unseal(value as string | null));
+    this.db.function("memory_matches", (title, content, tags, query) =>
+      matchSearch(parseSearchQuery(query as string), {
+        title: this.unseal(title as string | null),
+        content: this.unseal(content as string) as string,
+        tags: parseJson<string[]>(tags as string | null, []),
+      })
+        ? 1
+        : 0
+    );
   }
 
-  private createSchema() {
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS memories (
-        id TEXT PRIMARY KEY,
-        title TEXT,
-        content TEXT NOT NULL,
-        importance INTEGER,
-        tags TEXT NOT NULL DEFAULT '[]',
-        metadata TEXT NOT NULL DEFAULT '{}',
-        created_at TEXT NOT NULL,
-        updated_at TEXT NOT NULL
+  private getMeta(key: string): string | null {
+    const row = this.db.prepare(`SELECT value FROM vault_meta WHERE key = ?`).get(key) as
+      | { value: string }
+      | undefined;
+    return row?.value ?? null;
+  }
+
+  private setMeta(key: string, value: string) {
+    this.db
+      .prepare(
+        `INSERT INTO vault_meta (key, value) VALUES (?, ?)
+         ON CONFLICT(key) DO UPDATE SET value = excluded.value`
+      )
+      .run(key, value);
+  }
+
+  private initializeEncryption(source?: EncryptionKeySource) {
+    const kdf = this.getMeta("encryption.kdf");
+    if (kdf) {
+      if (!source) {
+        throw new VaultKeyError(
+          "This memory vault is encrypted; set MCP_CONTEXT_MEMORY_PASSPHRASE or MCP_CONTEXT_MEMORY_KEYFILE"
+        );
+      }
+      const cipher = VaultCipher.derive(source, JSON.parse(kdf) as KdfParams);
+      cipher.verifyCheck(this.getMeta("encryption.check") ?? "");
+      this.useCipher(cipher);
+      return;
+    }
+
+    if (!source) return;
+    const { count } = this.db.prepare(`SELECT COUNT(*) AS count FROM memories`).get() as {
+      count: number;
+    };
+    if (count > 0) {
+      throw new VaultKeyError(
+        "This memory vault holds unencrypted memories; run `context-memory-mcp-server encrypt` before opening it with a key"
       );
+    }
+    if (this.db.readonly) return;
+    this.db.transaction(() => this.writeKey(source))();
+  }
+
+  private writeKey(source: EncryptionKeySource) {
+    const params = createKdfParams();
+    const cipher = VaultCipher.derive(source, params);
+    this.setMeta("encryption.kdf", JSON.stringify(params));
+    this.setMeta("encryption.check", cipher.createCheck());
+    this.useCipher(cipher);
+  }
+
+  private useCipher(cipher: VaultCipher) {
+    this.cipher = cipher;
+    // Freed pages would otherwise keep old plaintext or ciphertext around.
+    this.db.pragma("secure_delete = ON");
+  }
+
+  private seal(value: string): string;
+  private seal(value: string | null): string | null;
+  private seal(value: string | null) {
+    if (value === null || !this.cipher) return value;
+    return this.cipher.encrypt(value);
+  }
+
+  private unseal(value: string | null): string | null {
+    if (value === null || !VaultCipher.isEncrypted(value)) return value;
+    if (!this.cipher) {
+      throw new VaultKeyError("Encountered encrypted data but no vault key is configured");
+    }
+    return this.cipher.decrypt(value);
+  }
+
+  /**
+   * Encrypts every memory of a plain vault in place and stops indexing
+   * plaintext for full-text search. Afterwards the vault must be opened with
+   * the same key.
+   */
+  enableEncryption(source: EncryptionKeySource) {
+    if (this.cipher || this.getMeta("encryption.kdf")) {
+      throw new VaultKeyError("This memory vault is already encrypted; use rotateKey instead");
+    }
+    this.db.transaction(() => {
+      const sealed = this.readAllSealed();
+      this.writeKey(source);
+      this.dropSearchIndexTriggers();
+      this.db.exec(`INSERT INTO memories_fts (memories_fts) VALUES ('delete-all')`);
+      this.writeAllSealed(sealed);
+    })();
+    this.compact();
+  }
+
+  /** Re-encrypts the vault under a new key with a fresh salt. */
+  rotateKey(source: EncryptionKeySource) {
+    if (!this.cipher) {
+      throw new VaultKeyError("This memory vault is not encrypted; use enableEncryption first");
+    }
+    this.db.transaction(() => {
+      const sealed = this.readAllSealed();
+      this.writeKey(source);
+      this.writeAllSealed(sealed);
+    })();
+    this.compact();
+  }
+
+  private readAllSealed() {
+    const memories = (
+      this.db.prepare(`SELECT * FROM memories`).all() as Record<string, unknown>[]
+    ).map((row) => this.mapRow(row));
+    const vectors = (
+      this.db.prepare(`SELECT memory_id, vector FROM memory_embeddings`).all() as Array<{
+        memory_id: string;
+        vector: Buffer;
+      }>
+    ).map((row) => ({ memoryId: row.memory_id, vector: this.openVector(row.vector) }));
+    const revisions = (
+      this.db.prepare(`SELECT * FROM memory_revisions`).all() as Record<string, unknown>[]
+    ).map((row) => ({ id: row.id as number, revision: this.mapRevisionRow(row) }));
+    const changes = (
+      this.db.prepare(`SELECT rowid AS id, fields FROM memory_changes`).all() as Array<{
+        id: number;
+        fields: string;
+      }>
+    ).map((row) => ({ id: row.id, fields: this.unseal(row.fields) as string }));
+    const audit = (
+      this.db.prepare(`SELECT id, arguments FROM audit_log`).all() as Array<{
+        id: number;
+        arguments: string;
+      }>
+    ).map((row) => ({ id: row.id, arguments: this.unseal(row.arguments) as string }));
+    return { memories, vectors, revisions, changes, audit };
+  }
+
+  private writeAllSealed({
+    memories,
+    vectors,
+    revisions,
+    changes,
+    audit,
+  }: ReturnType<MemoryStore["readAllSealed"]>) {
+    const updateMemory = this.db.prepare(
+      `UPDATE memories SET title = @title, content = @content, metadata = @metadata WHERE id = @id`
+    );
+    for (const memory of memories) {
+      updateMemory.run({
+        id: memory.id,
+        title: this.seal(memory.title),
+        content: this.seal(memory.content),
+        metadata: this.seal(serializeJson(memory.metadata)),
+      });
+    }
+    const updateVector = this.db.prepare(
+      `UPDATE memory_embeddings SET vector = ? WHERE memory_id = ?`
+    );
+    for (const { memoryId, vector } of vectors) {
+      updateVector.run(this.sealVector(vector), memoryId);
+    }
+    const updateRevision = this.db.prepare(
+      `UPDATE memory_revisions SET title = @title, content = @content, metadata = @metadata WHERE id = @id`
+    );
+    for (const { id, revision } of revisions) {
+      updateRevision.run({
+        id,
+        title: this.seal(revision.title),
+        content: this.seal(revision.content),
+        metadata: this.seal(serializeJson(revision.metadata)),
+      });
+    }
+    const updateChange = this.db.prepare(`UPDATE memory_changes SET fields = ? WHERE rowid = ?`);
+    for (const { id, fields } of changes) {
+      updateChange.run(this.seal(fields), id);
+    }
+    const updateAudit = this.db.prepare(`UPDATE audit_log SET arguments = ? WHERE id = ?`);
+    for (const { id, arguments: args } of audit) {
+      updateAudit.run(this.seal(args), id);
+    }
+  }
+
+  private compact() {
+    this.checkpoint();
+    this.vacuum();
+  }
+
+  /** Copies the write-ahead log into the database file and truncates it. */
+  checkpoint(): { busy: boolean; logFrames: number; checkpointedFrames: number } {
+    const [row] = this.db.pragma("wal_checkpoint(TRUNCATE)") as Array<{
+      busy: number;
+      log: number;
+      checkpointed: number;
+    }>;
+    return { busy: row.busy !== 0, logFrames: row.log, checkpointedFrames: row.checkpointed };
+  }
+
+  /** Rebuilds the database file to drop free pages. */
+  vacuum() {
+    this.db.exec(`VACUUM`);
+  }
+
+  /** Problems found by SQLite's integrity and foreign key checks. Empty when the vault is healthy. */
+  checkIntegrity(): string[] {
+    const integrity = (this.db.pragma("integrity_check") as Array<{ integrity_check: string }>)
+      .map((row) => row.integrity_check)
+      .filter((message) => message !== "ok");
+    const foreignKeys = (
+      this.db.pragma("foreign_key_check") as Array<{ table: string; rowid: number; parent: string }>
+    ).map((row) => `${row.table} row ${row.rowid} points at a missing ${row.parent} row`);
+    return [...integrity, ...foreignKeys];
+  }
+
+  getStats(): VaultStats {
+    const counts = this.db
+      .prepare(
+        `SELECT
+           SUM(deleted_at IS NULL) AS memories,
+           SUM(deleted_at IS NOT NULL) AS trashed,
+           SUM(deleted_at IS NULL AND expires_at <= @now) AS expired,
+           MIN(CASE WHEN deleted_at IS NULL THEN created_at END) AS oldest,
+           MAX(CASE WHEN deleted_at IS NULL THEN updated_at END) AS newest
+         FROM memories`
+      )
+      .get({ now: new Date().toISOString() }) as {
+      memories: number | null;
+      trashed: number | null;
+      expired: number | null;
+      oldest: string | null;
+      newest: string | null;
+    };
+    const count = (sql: string) => (this.db.prepare(sql).get() as { count: number }).count;
+    const fileSize = (file: string) => (fs.existsSync(file) ? fs.statSync(file).size : 0);
+    return {
+      dbPath: this.dbPath,
+      sizeBytes: fileSize(this.dbPath) + fileSize(`${this.dbPath}-wal`),
+      schemaVersion: this.schemaVersion,
+      encrypted: this.encrypted,
+      memories: counts.memories ?? 0,
+      trashed: counts.trashed ?? 0,
+      expired: counts.expired ?? 0,
+      namespaces: this.listNamespaces(),
+      tags: this.listTags().length,
+      links: count(`SELECT COUNT(*) AS count FROM memory_links`),
+      revisions: count(`SELECT COUNT(*) AS count FROM memory_revisions`),
+      oldest: counts.oldest,
+      newest: counts.newest,
+    };
+  }
+
+  private sealVector(vector: Buffer) {
+    return this.cipher ? this.cipher.encryptBuffer(vector) : vector;
+  }
+
+  private openVector(vector: Buffer) {
+    return this.cipher ? this.cipher.decryptBuffer(vector) : vector;
+  }
+
+  private dropSearchIndexTriggers() {
+    this.db.exec(`
+      DROP TRIGGER IF EXISTS memories_fts_insert;
+      DROP TRIGGER IF EXISTS memories_fts_delete;
+      DROP TRIGGER IF EXISTS memories_fts_update;
     `);
+  }
+
+  private createSearchIndex() {
+    const existing = this.db
+      .prepare(`SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'memories_fts'`)
+      .get();
 
     this.db.exec(`
-      CREATE INDEX IF NOT EXISTS idx_memories_updated_at ON memories(updated_at DESC);
+      CREATE VIRTUAL TABLE IF NOT EXISTS memories_fts USING fts5(
+        title,
+        content,
+        tags,
+        content = 'memories',
+        content_rowid = 'rowid',
+        tokenize = 'porter unicode61 remove_diacritics 2'
+      );
     `);
 
+    // Encrypted vaults never index plaintext; search decrypts and scans instead.
+    if (this.cipher) {
+      this.dropSearchIndexTriggers();
+      return;
+    }
+
     this.db.exec(`
-      CREATE INDEX IF NOT EXISTS idx_memories_importance ON memories(importance);
+      CREATE TRIGGER IF NOT EXISTS memories_fts_insert AFTER INSERT ON memories BEGIN
+        INSERT INTO memories_fts (rowid, title, content, tags)
+        VALUES (new.rowid, new.title, new.content, new.tags);
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS memories_fts_delete AFTER DELETE ON memories BEGIN
+        INSERT INTO memories_fts (memories_fts, rowid, title, content, tags)
+        VALUES ('delete', old.rowid, old.title, old.content, old.tags);
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS memories_fts_update AFTER UPDATE OF title, content, tags ON memories BEGIN
+        INSERT INTO memories_fts (memories_fts, rowid, title, content, tags)
+        VALUES ('delete', old.rowid, old.title, old.content, old.tags);
+        INSERT INTO memories_fts (rowid, title, content, tags)
+        VALUES (new.rowid, new.title, new.content, new.tags);
+      END;
     `);
+
+    // Databases created before the index existed need their rows backfilled.
+    if (!existing) {
+      this.db.exec(`INSERT INTO memories_fts (memories_fts) VALUES ('rebuild')`);
+    }
+  }
+
+  private saveEmbedding(memory: Pick<MemoryRecord, "id" | "title" | "content" | "tags">) {
+    const vector = this.embedder.embed(embeddingText(memory));
+    this.db
+      .prepare(
+        `INSERT INTO memory_embeddings (memory_id, model, dimensions, vector, updated_at)
+         VALUES (@memory_id, @model, @dimensions, @vector, @updated_at)
+         ON CONFLICT(memory_id) DO UPDATE SET
+           model = excluded.model,
+           dimensions = excluded.dimensions,
+           vector = excluded.vector,
+           updated_at = excluded.updated_at`
+      )
+      .run({
+        memory_id: memory.id,
+        model: this.embedder.id,
+        dimensions: vector.length,
+        vector: this.sealVector(vectorToBuffer(vector)),
+        updated_at: new Date().toISOString(),
+      });
+  }
+
+  /**
+   * Computes vectors for rows that have none yet or were embedded by a
+   * different model, e.g. after upgrading or swapping the embedder.
+   */
+  private backfillEmbeddings() {
+    const rows = this.db
+      .prepare(
+        `SELECT memories.* FROM memories
+         LEFT JOIN memory_embeddings e ON e.memory_id = memories.id
+         WHERE e.memory_id IS NULL OR e.model != ?`
+      )
+      .all(this.embedder.id) as Record<string, unknown>[];
+    if (rows.length === 0) return;
+
+    this.db.transaction(() => {
+      for (const row of rows) {
+        this.saveEmbedding(this.mapRow(row));
+      }
+    })();
+  }
+
+  /**
+   * Picks the device id this vault writes its changes under, minting a new
+   * one when the file was copied or moved so two copies never share an id,
+   * and logs memories that predate the change log.
+   */
+  private initializeChangeLog() {
+    const location = path.resolve(this.dbPath);
+    let device = this.getMeta("sync.device");
+    if (!device || this.getMeta("sync.path") !== location) {
+      device = uuidv4();
+      this.setMeta("sync.device", device);
+      this.setMeta("sync.path", location);
+    }
+    this.device = device;
+
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM memories
+         WHERE NOT EXISTS (SELECT 1 FROM memory_changes WHERE memory_id = memories.id)`
+      )
+      .all() as Record<string, unknown>[];
+    if (rows.length === 0) return;
+
+    const links = this.db.prepare(`SELECT * FROM memory_links WHERE source_id = ?`);
+    this.db.transaction(() => {
+      for (const row of rows) {
+        const memory = this.mapRow(row);
+        const outbound = (links.all(memory.id) as Record<string, unknown>[]).map((link) =>
+          this.mapLinkRow(link)
+        );
+        this.logChange(memory.id, {
+          ...syncedValues(memory),
+          ...Object.fromEntries(
+            outbound.map((link) => [linkField(link.type, link.targetId), link.createdAt])
+          ),
+        });
+      }
+    })();
   }
 
-  addMemory(input: MemoryCreateInput): MemoryRecord {
+  /** Records a mutation in the change log under the next tick of the vault's clock. */
+  private logChange(memoryId: string, fields: Record<string, unknown>) {
+    if (Object.keys(fields).length === 0) return;
+    const clock = Number(this.getMeta("sync.clock") ?? 0) + 1;
+    this.setMeta("sync.clock", String(clock));
+    this.db
+      .prepare(
+        `INSERT INTO memory_changes (device_id, clock, memory_id, fields, changed_at)
+         VALUES (?, ?, ?, ?, ?)`
+      )
+      .run(this.device, clock, memoryId, this.seal(JSON.stringify(fields)), new Date().toISOString());
+  }
+
+  /**
+   * Leaves a tombstone for a purged memory. Its earlier changes keep their
+   * place in the log, so peers do not send them again, but lose their values.
+   */
+  private logPurge(memoryId: string) {
+    this.db
+      .prepare(`UPDATE memory_changes SET fields = ? WHERE memory_id = ?`)
+      .run(this.seal("{}"), memoryId);
+    this.logChange(memoryId, { purged: true });
+  }
+
+  private readChanges(): VaultChange[] {
+    const rows = this.db
+      .prepare(`SELECT * FROM memory_changes ORDER BY clock ASC, device_id ASC`)
+      .all() as Record<string, unknown>[];
+    return rows.map((row) => ({
+      deviceId: row.device_id as string,
+      clock: row.clock as number,
+      memoryId: row.memory_id as string,
+      fields: parseJson<Record<string, unknown>>(this.unseal(row.fields as string), {}),
+      changedAt: row.changed_at as string,
+    }));
+  }
+
+  /** Column values for a record, sealed when the vault is encrypted. */
+  private rowParams(record: MemoryRecord) {
+    return {
+      id: record.id,
+      namespace: record.namespace,
+      title: this.seal(record.title),
+      content: this.seal(record.content),
+      importance: record.importance,
+      tags: JSON.stringify(record.tags),
+      metadata: this.seal(serializeJson(record.metadata)),
+      created_at: record.createdAt,
+      updated_at: record.updatedAt,
+      deleted_at: record.deletedAt ?? null,
+      expires_at: record.expiresAt ?? null,
+    };
+  }
+
+  private insertMemory(record: MemoryRecord) {
+    this.insertRow(record);
+    this.logChange(record.id, syncedValues(record));
+  }
+
+  private insertRow(record: MemoryRecord) {
+    this.db
+      .prepare(
+        `INSERT INTO memories (id, namespace, title, content, importance, tags, metadata, created_at, updated_at, deleted_at, expires_at)
+         VALUES (@id, @namespace, @title, @content, @importance, @tags, @metadata, @created_at, @updated_at, @deleted_at, @expires_at)`
+      )
+      .run(this.rowParams(record));
+    this.saveEmbedding(record);
+  }
+
+  /**
+   * Stores a new memory. Secrets are masked, flagged or rejected (with a
+   * `SensitiveContentError`) per the redaction policy. Unless the duplicate
+   * policy is `off`, live memories in the same namespace are compared next:
+   * `reject` throws a {@link DuplicateMemoryError}, `warn` stores it and
+   * reports them.
+   */
+  addMemory(input: MemoryCreateInput): AddedMemory {
     const id = uuidv4();
     const now = new Date().toISOString();
     const normalizedTags = normalizeTags(input.tags);
+    const namespace = input.namespace?.trim() || DEFAULT_NAMESPACE;
 
-    const stmt = this.db.prepare(`
-      INSERT INTO memories (id, title, content, importance, tags, metadata, created_at, updated_at)
-      VALUES (@id, @title, @content, @importance, @tags, @metadata, @created_at, @updated_at)
-    `);
-
-    stmt.run({
-      id,
+    const { fields, findings: redactions } = this.redactor.redact({
       title: input.title ?? null,
       content: input.content,
-      importance:
-        typeof input.importance === "number" ? Math.max(0, Math.min(10, input.importance)) : null,
-      tags: JSON.stringify(normalizedTags),
-      metadata: serializeJson(input.metadata),
-      created_at: now,
-      updated_at: now,
+      metadata: input.metadata ?? {},
     });
+    const title = fields.title ?? null;
+    const content = fields.content ?? input.content;
 
-    return {
+    const action = this.duplicatePolicy.action ?? "warn";
+    const duplicates =
+      action === "off" ? [] : this.findNearDuplicates(duplicateText({ title, content }), namespace);
+    if (duplicates.length > 0 && action === "reject" && !input.allowDuplicate) {
+      throw new DuplicateMemoryError(duplicates);
+    }
+
+    const record: MemoryRecord = {
       id,
-      title: input.title ?? null,
-      content: input.content,
-      importance:
-        typeof input.importance === "number" ? Math.max(0, Math.min(10, input.importance)) : null,
+      namespace,
+      title,
+      content,
+      importance: clampImportance(input.importance),
       tags: normalizedTags,
-      metadata: input.metadata ?? {},
+      metadata: flagSensitive(fields.metadata ?? {}, redactions, Object.keys(fields)),
       createdAt: now,
       updatedAt: now,
+      ...(input.expiresAt ? { expiresAt: input.expiresAt } : {}),
     };
+
+    this.db.transaction(() => {
+      this.insertMemory(record);
+      this.writeRevision(record, "create", MEMORY_FIELDS);
+    })();
+
+    this.emitChange({ type: "added", id, tags: normalizedTags });
+
+    return {
+      ...record,
+      ...(duplicates.length > 0 ? { duplicates } : {}),
+      ...(redactions.length > 0 ? { redactions } : {}),
+    };
+  }
+
+  /** Live memories in `namespace` whose title and content resemble `text`, most similar first. */
+  findNearDuplicates(
+    text: string,
+    namespace: string,
+    threshold = this.duplicatePolicy.threshold ?? DEFAULT_DUPLICATE_THRESHOLD
+  ): DuplicateCandidate[] {
+    const rows = this.db
+      .prepare(`SELECT id, title, content FROM memories WHERE namespace = ? AND deleted_at IS NULL`)
+      .all(namespace) as Array<{ id: string; title: string | null; content: string }>;
+    return rankNearDuplicates(
+      text,
+      rows.map((row) => ({
+        id: row.id,
+        title: this.unseal(row.title),
+        content: this.unseal(row.content) as string,
+      })),
+      threshold
+    );
   }
 
-  getMemory(id: string): MemoryRecord | null {
-    const row = this.db.prepare(`SELECT * FROM memories WHERE id = ?`).get(id) as
+  /**
+   * Groups of near-duplicate live memories in scope, largest first. Memories
+   * are only compared within their own namespace.
+   */
+  findDuplicates(
+    scope: NamespaceScope = {},
+    threshold = this.duplicatePolicy.threshold ?? DEFAULT_DUPLICATE_THRESHOLD
+  ): DuplicateGroup[] {
+    const { from, where, params } = this.buildFilterQuery({ ...scope, expired: "include" });
+    const rows = this.db
+      .prepare(
+        `SELECT memories.id, memories.namespace, memories.title, memories.content FROM ${from} ${where}`
+      )
+      .all(params) as Array<{
+      id: string;
+      namespace: string;
+      title: string | null;
+      content: string;
+    }>;
+    return groupDuplicates(
+      rows.map((row) => ({
+        ...row,
+        title: this.unseal(row.title),
+        content: this.unseal(row.content) as string,
+      })),
+      threshold
+    );
+  }
+
+  getMemory(id: string, options: { includeDeleted?: boolean } = {}): MemoryRecord | null {
+    const trashClause = options.includeDeleted ? "" : " AND deleted_at IS NULL";
+    const row = this.db.prepare(`SELECT * FROM memories WHERE id = ?${trashClause}`).get(id) as
       | Record<string, unknown>
       | undefined;
     if (!row) return null;
     return this.mapRow(row);
   }
 
-  listMemories(filters: MemoryFilters = {}): MemoryListResult {
-    const {
-      search,
-      tags,
-      minImportance,
-      maxImportance,
-      limit = 50,
-      offset = 0,
-      before,
-      after,
-    } = filters;
+  private buildFilterQuery(filters: MemoryFilters): FilterQuery {
+    const { search, trash, expired } = filters;
 
     const whereClauses: string[] = [];
     const params: Record<string, unknown> = {};
+    let parameterCount = 0;
+    const bind: BindParameter = (value) => {
+      const name = `p${parameterCount++}`;
+      params[name] = value;
+      return `@${name}`;
+    };
+
+    if (trash === "only") {
+      whereClauses.push(`memories.deleted_at IS NOT NULL`);
+    } else if (trash !== "include") {
+      whereClauses.push(`memories.deleted_at IS NULL`);
+    }
+
+    if (expired === "only") {
+      whereClauses.push(`memories.expires_at <= @now`);
+      params.now = new Date().toISOString();
+    } else if (expired !== "include") {
+      // Trashed memories stay listable in the trash even once their expiry passed.
+      whereClauses.push(
+        `(memories.expires_at IS NULL OR memories.expires_at > @now OR memories.deleted_at IS NOT NULL)`
+      );
+      params.now = new Date().toISOString();
+    }
 
-    if (search && search.trim()) {
-      whereClauses.push(`(title LIKE @search OR content LIKE @search)`);
-      params.search = `%${search.trim()}%`;
+    const ftsQuery = search ? toFtsQuery(search) : null;
+    if (ftsQuery) {
+      whereClauses.push(`memories_fts MATCH @search`);
+      params.search = ftsQuery;
     }
 
-    if (tags && tags.length > 0) {
-      const normalizedTags = normalizeTags(tags);
-      normalizedTags.forEach((tag, index) => {
-        const paramName = `tag${index}`;
-        whereClauses.push(
-          `EXISTS (SELECT 1 FROM json_each(memories.tags) WHERE value = @${paramName})`
+    whereClauses.push(...this.conditionClauses({ ...filters, search: undefined }, bind));
+    if (filters.where) {
+      whereClauses.push(this.expressionClause(filters.where, bind));
+    }
+
+    const where = whereClauses.length > 0 ? `WHERE ${whereClauses.join(" AND ")}` : "";
+    const from = ftsQuery
+      ? `memories JOIN memories_fts ON memories_fts.rowid = memories.rowid`
+      : `memories`;
+    return { from, where, params, ftsQuery };
+  }
+
+  /**
+   * SQL for the filters a condition sets, to be joined with AND. Each clause
+   * is 0 or 1, never NULL, so `not` over a missing importance or metadata
+   * key matches like the in-memory backends do.
+   */
+  private conditionClauses(condition: MemoryFilterCondition, bind: BindParameter): string[] {
+    const clauses: string[] = [];
+
+    if (condition.namespace) {
+      clauses.push(`memories.namespace = ${bind(condition.namespace)}`);
+    } else if (condition.namespaces && condition.namespaces.length > 0) {
+      clauses.push(
+        `memories.namespace IN (SELECT value FROM json_each(${bind(JSON.stringify(condition.namespaces))}))`
+      );
+    }
+
+    if (condition.search) {
+      if (this.cipher) {
+        // Encrypted vaults have no full-text index.
+        clauses.push(
+          `memory_matches(memories.title, memories.content, memories.tags, ${bind(condition.search)})`
         );
-        params[paramName] = tag;
+      } else {
+        const ftsQuery = toFtsQuery(condition.search);
+        if (ftsQuery) {
+          clauses.push(
+            `memories.rowid IN (SELECT rowid FROM memories_fts WHERE memories_fts MATCH ${bind(ftsQuery)})`
+          );
+        }
+      }
+    }
+
+    const normalizedTags = normalizeTags(condition.tags);
+    if (normalizedTags.length > 0) {
+      const tagClauses = normalizedTags.map((tag) => {
+        const param = bind(tag);
+        return `EXISTS (SELECT 1 FROM json_each(memories.tags) WHERE value = ${param} OR substr(value, 1, length(${param}) + 1) = ${param} || '/')`;
       });
+      const tagMode = condition.tagMode ?? "all";
+      if (tagMode === "any") {
+        clauses.push(`(${tagClauses.join(" OR ")})`);
+      } else if (tagMode === "none") {
+        clauses.push(`NOT (${tagClauses.join(" OR ")})`);
+      } else {
+        clauses.push(...tagClauses);
+      }
     }
 
-    if (typeof minImportance === "number") {
-      whereClauses.push(`importance >= @minImportance`);
-      params.minImportance = minImportance;
+    if (typeof condition.minImportance === "number") {
+      clauses.push(`COALESCE(memories.importance >= ${bind(condition.minImportance)}, 0)`);
     }
-    if (typeof maxImportance === "number") {
-      whereClauses.push(`importance <= @maxImportance`);
-      params.maxImportance = maxImportance;
+    if (typeof condition.maxImportance === "number") {
+      clauses.push(`COALESCE(memories.importance <= ${bind(condition.maxImportance)}, 0)`);
     }
 
-    if (before) {
-      whereClauses.push(`updated_at <= @before`);
-      params.before = before;
+    if (condition.before) {
+      clauses.push(`memories.updated_at <= ${bind(condition.before)}`);
+    }
+    if (condition.after) {
+      clauses.push(`memories.updated_at >= ${bind(condition.after)}`);
+    }
+    if (condition.createdBefore) {
+      clauses.push(`memories.created_at <= ${bind(condition.createdBefore)}`);
+    }
+    if (condition.createdAfter) {
+      clauses.push(`memories.created_at >= ${bind(condition.createdAfter)}`);
     }
 
-    if (after) {
-      whereClauses.push(`updated_at >= @after`);
-      params.after = after;
+    if (condition.metadata && condition.metadata.length > 0) {
+      const column = this.cipher ? `memory_unseal(memories.metadata)` : `memories.metadata`;
+      for (const predicate of condition.metadata) {
+        clauses.push(`COALESCE(${metadataClause(column, predicate, bind)}, 0)`);
+      }
     }
 
-    const where = whereClauses.length > 0 ? `WHERE ${whereClauses.join(" AND ")}` : "";
+    return clauses;
+  }
+
+  private expressionClause(expression: MemoryFilterExpression, bind: BindParameter): string {
+    if ("and" in expression) {
+      const parts = expression.and.map((part) => this.expressionClause(part, bind));
+      return parts.length > 0 ? `(${parts.join(" AND ")})` : "1";
+    }
+    if ("or" in expression) {
+      const parts = expression.or.map((part) => this.expressionClause(part, bind));
+      return parts.length > 0 ? `(${parts.join(" OR ")})` : "0";
+    }
+    if ("not" in expression) {
+      return `NOT ${this.expressionClause(expression.not, bind)}`;
+    }
+    const clauses = this.conditionClauses(expression, bind);
+    return clauses.length > 0 ? `(${clauses.join(" AND ")})` : "1";
+  }
+
+  listMemories(filters: MemoryFilters = {}): MemoryListResult {
+    const { limit = 50, offset = 0 } = filters;
     const limitSafe = Math.min(Math.max(limit, 1), 200);
-    const offsetSafe = Math.max(offset, 0);
+    // A cursor replaces the offset.
+    const offsetSafe = filters.cursor ? 0 : Math.max(offset, 0);
+    if (this.cipher && filters.search) {
+      return this.searchSealed(filters, limitSafe, offsetSafe);
+    }
+    const { from, where, params, ftsQuery } = this.buildFilterQuery(filters);
+    const order = resolveListOrder(filters, ftsQuery !== null);
+
+    let pageWhere = where;
+    const pageParams = { ...params };
+    if (filters.cursor) {
+      const key = decodeListCursor(filters.cursor, order);
+      const placeholders = key.map((value, index) => {
+        pageParams[`cursor${index}`] = value;
+        return `@cursor${index}`;
+      });
+      const clause = `(${LIST_ORDERS[order!].join(", ")}) < (${placeholders.join(", ")})`;
+      pageWhere = where ? `${where} AND ${clause}` : `WHERE ${clause}`;
+    }
+
+    // Title hits weigh more than tag hits, which weigh more than body hits.
+    const bm25 = `bm25(memories_fts, 5.0, 1.0, 2.0)`;
+    const columns = [
+      `memories.*`,
+      ...(ftsQuery
+        ? [`${bm25} AS rank`, `snippet(memories_fts, -1, '**', '**', '…', 16) AS snippet`]
+        : []),
+      ...(filters.sort === "relevance"
+        ? [
+            `memory_relevance(memories.updated_at, memories.last_accessed_at, memories.access_count, memories.importance, ${ftsQuery ? `-${bm25}` : "0"}, @nowMs) AS relevance`,
+          ]
+        : []),
+      ...(order ? [`json_array(${LIST_ORDERS[order].join(", ")}) AS cursor_key`] : []),
+    ].join(", ");
+    const orderBy = order
+      ? orderByKeys(order)
+      : filters.sort === "relevance"
+        ? `relevance DESC, memories.updated_at DESC`
+        : `rank ASC, memories.updated_at DESC`;
 
+    // One row more than requested tells whether another page follows.
     const rows = this.db
       .prepare(
-        `SELECT * FROM memories ${where} ORDER BY updated_at DESC LIMIT @limit OFFSET @offset`
+        `SELECT ${columns} FROM ${from} ${pageWhere} ORDER BY ${orderBy} LIMIT @limit OFFSET @offset`
       )
-      .all({ ...params, limit: limitSafe, offset: offsetSafe }) as Record<string, unknown>[];
+      .all({
+        ...pageParams,
+        ...(filters.sort === "relevance" ? { nowMs: Date.now() } : {}),
+        limit: limitSafe + 1,
+        offset: offsetSafe,
+      }) as Record<string, unknown>[];
+    const page = rows.slice(0, limitSafe);
 
     const totalRow = this.db
-      .prepare(`SELECT COUNT(*) as count FROM memories ${where}`)
+      .prepare(`SELECT COUNT(*) as count FROM ${from} ${where}`)
       .get(params) as { count: number } | undefined;
 
+    const last = page[page.length - 1];
     return {
-      items: rows.map((row) => this.mapRow(row)),
+      items: page.map((row) => {
+        const item: MemoryListItem = this.mapRow(row);
+        if (ftsQuery) {
+          // bm25 is negative with better matches further from zero.
+          item.score = -Number(row.rank);
+          item.snippet = row.snippet as string;
+        }
+        if (filters.sort === "relevance") {
+          item.score = Number(row.relevance);
+        }
+        return item;
+      }),
       total: totalRow?.count ?? 0,
       limit: limitSafe,
       offset: offsetSafe,
+      ...(order && rows.length > limitSafe
+        ? { nextCursor: encodeCursor(order, JSON.parse(last.cursor_key as string) as CursorKey) }
+        : {}),
+    };
+  }
+
+  /**
+   * Search for encrypted vaults: applies the SQL filters, then decrypts the
+   * candidates and matches the query in memory.
+   */
+  private searchSealed(filters: MemoryFilters, limit: number, offset: number): MemoryListResult {
+    const tokens = parseSearchQuery(filters.search ?? "");
+    const { from, where, params } = this.buildFilterQuery({ ...filters, search: undefined });
+    const { sort } = filters;
+    const order = resolveListOrder(filters, tokens.length > 0);
+    const cursorKey = filters.cursor ? decodeListCursor(filters.cursor, order) : null;
+    const keyColumns = LIST_ORDERS[order ?? "updated"];
+    const rows = this.db
+      .prepare(
+        `SELECT memories.*, json_array(${keyColumns.join(", ")}) AS cursor_key FROM ${from} ${where} ORDER BY ${orderByKeys(order ?? "updated")}`
+      )
+      .all(params) as Record<string, unknown>[];
+
+    const keys = new Map<string, CursorKey>();
+    const matches: MemoryListItem[] = [];
+    for (const row of rows) {
+      const memory = this.mapRow(row);
+      keys.set(memory.id, JSON.parse(row.cursor_key as string) as CursorKey);
+      if (tokens.length === 0) {
+        matches.push(memory);
+        continue;
+      }
+      const match = matchSearch(tokens, memory);
+      if (match) {
+        matches.push({ ...memory, score: match.score, snippet: match.snippet });
+      }
+    }
+    if (sort === "relevance") {
+      const now = Date.now();
+      for (const match of matches) {
+        match.score = relevanceScore(match, match.score ?? 0, this.relevanceOptions, now);
+      }
+    }
+    if (!order) {
+      matches.sort((a, b) => (b.score ?? 0) - (a.score ?? 0));
+    }
+
+    let start = offset;
+    if (cursorKey) {
+      // Keys descend, so the page starts at the first key below the cursor.
+      start = matches.findIndex((match) => compareCursorKeys(keys.get(match.id)!, cursorKey) < 0);
+      if (start === -1) start = matches.length;
+    }
+    const items = matches.slice(start, start + limit);
+    const last = items[items.length - 1];
+    return {
+      items,
+      total: matches.length,
+      limit,
+      offset,
+      ...(order && start + limit < matches.length
+        ? { nextCursor: encodeCursor(order, keys.get(last.id)!) }
+        : {}),
     };
   }
 
+  findSimilar(query: SimilarMemoryQuery): SimilarMemory[] {
+    const { text, id, limit = 10, minScore = 0, filters = {} } = query;
+
+    let target: Float32Array;
+    if (id) {
+      const source = this.getMemory(id);
+      if (!source) return [];
+      target = Float32Array.from(this.embedder.embed(embeddingText(source)));
+    } else if (text && text.trim()) {
+      target = Float32Array.from(this.embedder.embed(text));
+    } else {
+      return [];
+    }
+
+    const sealedSearch = this.cipher && filters.search ? parseSearchQuery(filters.search) : [];
+    const { from, where, params } = this.buildFilterQuery(
+      this.cipher ? { ...filters, search: undefined } : filters
+    );
+    const embeddingWhere = where ? `${where} AND e.model = @model` : `WHERE e.model = @model`;
+    const rows = this.db
+      .prepare(
+        `SELECT memories.*, e.vector AS embedding FROM ${from}
+         JOIN memory_embeddings e ON e.memory_id = memories.id
+         ${embeddingWhere}`
+      )
+      .all({ ...params, model: this.embedder.id }) as Record<string, unknown>[];
+
+    const limitSafe = Math.min(Math.max(limit, 1), 50);
+    const ranked = rows
+      .filter((row) => row.id !== id)
+      .map((row) => ({
+        row,
+        score: cosineSimilarity(
+          target,
+          bufferToVector(this.openVector(row.embedding as Buffer))
+        ),
+      }))
+      .filter((candidate) => candidate.score >= minScore)
+      .sort((a, b) => b.score - a.score);
+
+    const results: SimilarMemory[] = [];
+    for (const { row, score } of ranked) {
+      if (results.length >= limitSafe) break;
+      const memory = this.mapRow(row);
+      if (sealedSearch.length > 0 && !matchSearch(sealedSearch, memory)) continue;
+      results.push({ memory, score });
+    }
+    return results;
+  }
+
   updateMemory(input: MemoryUpdateInput): MemoryRecord | null {
-    const existing = this.getMemory(input.id);
+    return this.applyUpdate(input, "update", null);
+  }
+
+  private applyUpdate(
+    change: MemoryUpdateInput,
+    action: "update" | "revert",
+    revertedFrom: number | null
+  ): MemoryRecord | null {
+    const existing = this.getMemory(change.id);
     if (!existing) return null;
 
+    // Reverts restore text that was scanned when it was first written.
+    let input = change;
+    let redactions: RedactionFinding[] = [];
+    let scanned: string[] = [];
+    if (action === "update") {
+      const { fields, findings } = this.redactor.redact({
+        ...(typeof change.title === "string" ? { title: change.title } : {}),
+        ...(change.content !== undefined ? { content: change.content } : {}),
+        ...(change.metadata ? { metadata: change.metadata } : {}),
+      });
+      input = { ...change, ...fields };
+      redactions = findings;
+      scanned = Object.keys(fields);
+    }
+
     const nextTitle = input.title !== undefined ? input.title : existing.title;
     const nextContent = input.content ?? existing.content;
     const nextImportance =
@@ -215,52 +1261,1296 @@ export class MemoryStore {
       input.metadata !== undefined ? input.metadata ?? {} : existing.metadata;
     const now = new Date().toISOString();
 
+    const { expiresAt: previousExpiry, ...unchanged } = existing;
+    const nextExpiry = input.expiresAt !== undefined ? input.expiresAt : previousExpiry;
+    const updated: MemoryRecord = {
+      ...unchanged,
+      title: nextTitle ?? null,
+      content: nextContent,
+      importance: clampImportance(nextImportance),
+      tags: nextTags,
+      metadata: flagSensitive(nextMetadata, redactions, scanned),
+      updatedAt: now,
+      ...(nextExpiry ? { expiresAt: nextExpiry } : {}),
+    };
+    const changed = changedFields(existing, updated);
+
+    this.db.transaction(() => {
+      this.db
+        .prepare(
+          `UPDATE memories SET title = @title, content = @content, importance = @importance, tags = @tags, metadata = @metadata, updated_at = @updated_at, expires_at = @expires_at WHERE id = @id`
+        )
+        .run({
+          id: input.id,
+          title: this.seal(updated.title),
+          content: this.seal(updated.content),
+          importance: updated.importance,
+          tags: JSON.stringify(updated.tags),
+          metadata: this.seal(serializeJson(updated.metadata)),
+          updated_at: now,
+          expires_at: updated.expiresAt ?? null,
+        });
+      this.saveEmbedding(updated);
+      this.logChange(existing.id, changedValues(existing, updated));
+      if (changed.length > 0) {
+        if (this.latestRevisionNumber(existing.id) === 0) {
+          this.writeRevision(existing, "baseline", []);
+        }
+        this.writeRevision(updated, action, changed, revertedFrom);
+      }
+    })();
+
+    this.emitChange({
+      type: "updated",
+      id: input.id,
+      tags: normalizeTags([...existing.tags, ...nextTags]),
+    });
+
+    return updated;
+  }
+
+  private latestRevisionNumber(memoryId: string): number {
+    const row = this.db
+      .prepare(`SELECT MAX(revision) AS revision FROM memory_revisions WHERE memory_id = ?`)
+      .get(memoryId) as { revision: number | null } | undefined;
+    return row?.revision ?? 0;
+  }
+
+  private writeRevision(
+    memory: MemoryRecord,
+    action: MemoryRevision["action"],
+    fields: MemoryField[],
+    revertedFrom: number | null = null
+  ) {
+    const revision = this.latestRevisionNumber(memory.id) + 1;
     this.db
       .prepare(
-        `UPDATE memories SET title = @title, content = @content, importance = @importance, tags = @tags, metadata = @metadata, updated_at = @updated_at WHERE id = @id`
+        `INSERT INTO memory_revisions (memory_id, revision, action, title, content, importance, tags, metadata, changed_fields, reverted_from, created_at)
+         VALUES (@memory_id, @revision, @action, @title, @content, @importance, @tags, @metadata, @changed_fields, @reverted_from, @created_at)`
       )
       .run({
-        id: input.id,
-        title: nextTitle,
-        content: nextContent,
-        importance:
-          typeof nextImportance === "number"
-            ? Math.max(0, Math.min(10, nextImportance))
-            : null,
-        tags: JSON.stringify(nextTags),
-        metadata: serializeJson(nextMetadata),
-        updated_at: now,
+        memory_id: memory.id,
+        revision,
+        action,
+        title: this.seal(memory.title),
+        content: this.seal(memory.content),
+        importance: memory.importance,
+        tags: JSON.stringify(memory.tags),
+        metadata: this.seal(serializeJson(memory.metadata)),
+        changed_fields: JSON.stringify(fields),
+        reverted_from: revertedFrom,
+        created_at: action === "baseline" ? memory.updatedAt : new Date().toISOString(),
       });
+    this.pruneRevisions(memory.id, revision);
+  }
+
+  private pruneRevisions(memoryId: string, latest: number) {
+    const { maxPerMemory, maxAgeDays } = this.revisionPolicy;
+    if (typeof maxPerMemory === "number" && maxPerMemory > 0) {
+      this.db
+        .prepare(`DELETE FROM memory_revisions WHERE memory_id = ? AND revision <= ?`)
+        .run(memoryId, latest - maxPerMemory);
+    }
+    if (typeof maxAgeDays === "number" && maxAgeDays > 0) {
+      const cutoff = new Date(Date.now() - maxAgeDays * DAY_MS).toISOString();
+      this.db
+        .prepare(
+          `DELETE FROM memory_revisions WHERE memory_id = ? AND revision < ? AND created_at < ?`
+        )
+        .run(memoryId, latest, cutoff);
+    }
+  }
+
+  /** Revisions of a memory, newest first. Works for deleted memories whose history was kept. */
+  listRevisions(memoryId: string, limit = 50): MemoryRevision[] {
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM memory_revisions WHERE memory_id = ? ORDER BY revision DESC LIMIT ?`
+      )
+      .all(memoryId, Math.min(Math.max(limit, 1), 200)) as Record<string, unknown>[];
+    return rows.map((row) => this.mapRevisionRow(row));
+  }
+
+  getRevision(memoryId: string, revision: number): MemoryRevision | null {
+    const row = this.db
+      .prepare(`SELECT * FROM memory_revisions WHERE memory_id = ? AND revision = ?`)
+      .get(memoryId, revision) as Record<string, unknown> | undefined;
+    return row ? this.mapRevisionRow(row) : null;
+  }
+
+  /**
+   * Compares two revisions. `to` defaults to the latest revision and `from`
+   * to the one before `to`. Returns null when either revision is missing.
+   */
+  diffRevisions(memoryId: string, from?: number, to?: number): RevisionDiff | null {
+    const toRevision = to ?? this.latestRevisionNumber(memoryId);
+    const target = this.getRevision(memoryId, toRevision);
+    if (!target) return null;
+    const fromRevision =
+      from ??
+      (
+        this.db
+          .prepare(
+            `SELECT MAX(revision) AS revision FROM memory_revisions WHERE memory_id = ? AND revision < ?`
+          )
+          .get(memoryId, toRevision) as { revision: number | null }
+      ).revision;
+    const source = fromRevision ? this.getRevision(memoryId, fromRevision) : null;
+    if (!source) return null;
+
+    const changes: FieldChange[] = MEMORY_FIELDS.filter(
+      (field) => JSON.stringify(source[field]) !== JSON.stringify(target[field])
+    ).map((field) => ({ field, before: source[field], after: target[field] }));
 
     return {
-      ...existing,
-      title: nextTitle ?? null,
-      content: nextContent,
-      importance:
-        typeof nextImportance === "number"
-          ? Math.max(0, Math.min(10, nextImportance))
-          : null,
-      tags: nextTags,
-      metadata: nextMetadata,
-      updatedAt: now,
+      memoryId,
+      from: source.revision,
+      to: target.revision,
+      changes,
+      contentDiff:
+        source.content === target.content
+          ? ""
+          : formatDiff(diffLines(source.content, target.content)),
     };
   }
 
+  /** Restores the fields of an earlier revision, recorded as a new revision. */
+  revertMemory(memoryId: string, revision: number): MemoryRecord | null {
+    const snapshot = this.getRevision(memoryId, revision);
+    if (!snapshot) return null;
+    return this.applyUpdate(
+      {
+        id: memoryId,
+        title: snapshot.title,
+        content: snapshot.content,
+        importance: snapshot.importance,
+        tags: snapshot.tags,
+        metadata: snapshot.metadata,
+      },
+      "revert",
+      revision
+    );
+  }
+
+  /**
+   * Folds the other memories in `ids` into the first: contents are joined
+   * (unless `content` is given), tags and metadata combined with the kept
+   * memory's values winning, and the highest importance kept. Returns null
+   * when any memory is missing or trashed.
+   */
+  mergeMemories(input: MergeMemoriesInput): MemoryRecord | null {
+    const ids = [...new Set(input.ids)];
+    if (ids.length < 2) {
+      throw new Error("Merging needs at least two distinct memories");
+    }
+    const memories = ids.map((id) => this.getMemory(id));
+    if (memories.some((memory) => !memory)) return null;
+    const [kept, ...sources] = memories as MemoryRecord[];
+
+    const contents: string[] = [];
+    for (const memory of [kept, ...sources]) {
+      const content = memory.content.trim();
+      if (!contents.includes(content)) contents.push(content);
+    }
+    const importances = [kept, ...sources]
+      .map((memory) => memory.importance)
+      .filter((importance): importance is number => importance !== null);
+
+    return this.db.transaction(() => {
+      const merged = this.applyUpdate(
+        {
+          id: kept.id,
+          title:
+            input.title !== undefined
+              ? input.title
+              : kept.title ?? sources.find((memory) => memory.title)?.title ?? null,
+          content: input.content ?? contents.join("\n\n"),
+          importance: importances.length > 0 ? Math.max(...importances) : null,
+          tags: [kept, ...sources].flatMap((memory) => memory.tags),
+          metadata: Object.assign(
+            {},
+            ...[...sources].reverse().map((memory) => memory.metadata),
+            kept.metadata
+          ),
+        },
+        "update",
+        null
+      );
+
+      for (const source of sources) {
+        if (input.sources === "link") {
+          this.linkMemories(kept.id, source.id, "supersedes");
+          continue;
+        }
+        this.moveLinks(source.id, kept.id);
+        this.deleteMemory(source.id);
+      }
+      return merged;
+    })();
+  }
+
+  /**
+   * Re-points the edges of `fromId` at `toId`. Edges that would duplicate one
+   * of `toId`'s, or point at it, stay behind.
+   */
+  private moveLinks(fromId: string, toId: string) {
+    const insert = this.db.prepare(
+      `INSERT INTO memory_links (source_id, target_id, type, created_at)
+       VALUES (?, ?, ?, ?)
+       ON CONFLICT (source_id, target_id, type) DO NOTHING`
+    );
+    const remove = this.db.prepare(
+      `DELETE FROM memory_links WHERE source_id = ? AND target_id = ? AND type = ?`
+    );
+    const links = (
+      this.db
+        .prepare(
+          `SELECT * FROM memory_links
+           WHERE (source_id = @from AND target_id != @to) OR (target_id = @from AND source_id != @to)`
+        )
+        .all({ from: fromId, to: toId }) as Record<string, unknown>[]
+    ).map((row) => this.mapLinkRow(row));
+    for (const link of links) {
+      const moved =
+        link.sourceId === fromId
+          ? { ...link, sourceId: toId }
+          : { ...link, targetId: toId };
+      if (insert.run(moved.sourceId, moved.targetId, moved.type, moved.createdAt).changes === 0) {
+        continue;
+      }
+      remove.run(link.sourceId, link.targetId, link.type);
+      this.logChange(link.sourceId, { [linkField(link.type, link.targetId)]: null });
+      this.logChange(moved.sourceId, {
+        [linkField(moved.type, moved.targetId)]: moved.createdAt,
+      });
+    }
+  }
+
+  /** Moves a memory to the trash. It stays restorable until purged. */
   deleteMemory(id: string): boolean {
-    const result = this.db.prepare(`DELETE FROM memories WHERE id = ?`).run(id);
-    return result.changes > 0;
+    const existing = this.getMemory(id);
+    if (!existing) return false;
+    const deletedAt = new Date().toISOString();
+    this.db.transaction(() => {
+      this.db
+        .prepare(`UPDATE memories SET deleted_at = ? WHERE id = ? AND deleted_at IS NULL`)
+        .run(deletedAt, id);
+      this.logChange(id, { deletedAt });
+    })();
+    this.emitChange({ type: "deleted", id, tags: existing.tags });
+    return true;
+  }
+
+  restoreMemory(id: string): MemoryRecord | null {
+    const trashed = this.getMemory(id, { includeDeleted: true });
+    if (!trashed || !trashed.deletedAt) return null;
+    // An expiry that has passed would send the memory straight back to the trash.
+    const now = new Date().toISOString();
+    const expired = trashed.expiresAt !== undefined && trashed.expiresAt <= now;
+    this.db.transaction(() => {
+      this.db
+        .prepare(
+          `UPDATE memories SET deleted_at = NULL,
+             expires_at = CASE WHEN expires_at <= @now THEN NULL ELSE expires_at END
+           WHERE id = @id`
+        )
+        .run({ id, now });
+      this.logChange(id, { deletedAt: null, ...(expired ? { expiresAt: null } : {}) });
+    })();
+    this.emitChange({ type: "added", id, tags: trashed.tags });
+    return this.getMemory(id);
+  }
+
+  /**
+   * Permanently removes trashed memories, optionally limited to some ids or
+   * to entries trashed before a cutoff. Returns the purged ids.
+   */
+  purgeTrash(options: PurgeOptions = {}): string[] {
+    const clauses = [`deleted_at IS NOT NULL`];
+    const params: Record<string, unknown> = {};
+    if (options.deletedBefore) {
+      clauses.push(`deleted_at < @deletedBefore`);
+      params.deletedBefore = options.deletedBefore;
+    }
+    if (options.ids) {
+      if (options.ids.length === 0) return [];
+      clauses.push(`id IN (SELECT value FROM json_each(@ids))`);
+      params.ids = JSON.stringify(options.ids);
+    }
+    if (options.namespace) {
+      clauses.push(`namespace = @namespace`);
+      params.namespace = options.namespace;
+    } else if (options.namespaces && options.namespaces.length > 0) {
+      clauses.push(`namespace IN (SELECT value FROM json_each(@namespaces))`);
+      params.namespaces = JSON.stringify(options.namespaces);
+    }
+
+    return this.db.transaction(() => {
+      const rows = this.db
+        .prepare(`SELECT id FROM memories WHERE ${clauses.join(" AND ")}`)
+        .all(params) as Array<{ id: string }>;
+      const ids = rows.map((row) => row.id);
+      const deleteRevisions = this.db.prepare(`DELETE FROM memory_revisions WHERE memory_id = ?`);
+      const deleteMemory = this.db.prepare(`DELETE FROM memories WHERE id = ?`);
+      for (const id of ids) {
+        if (!this.revisionPolicy.keepAfterDelete) {
+          deleteRevisions.run(id);
+        }
+        deleteMemory.run(id);
+        this.logPurge(id);
+      }
+      return ids;
+    })();
+  }
+
+  /**
+   * Live memories in scope whose title, content or metadata match a
+   * redaction rule, most recently updated first. Nothing is changed.
+   */
+  scanMemories(scope: NamespaceScope = {}): SensitiveMemory[] {
+    const { from, where, params } = this.buildFilterQuery({ ...scope, expired: "include" });
+    const rows = this.db
+      .prepare(`SELECT memories.* FROM ${from} ${where} ORDER BY memories.updated_at DESC`)
+      .all(params) as Record<string, unknown>[];
+    return rows.flatMap((row) => {
+      const memory = this.mapRow(row);
+      const findings = this.redactor.scan(memory);
+      return findings.length > 0
+        ? [{ id: memory.id, namespace: memory.namespace, title: memory.title, findings }]
+        : [];
+    });
+  }
+
+  /**
+   * Notes that memories were read: bumps `accessCount` and `lastAccessedAt`,
+   * which feed the `relevance` order and hold off importance decay.
+   */
+  recordAccess(ids: string[]) {
+    if (ids.length === 0) return;
+    this.db
+      .prepare(
+        `UPDATE memories SET last_accessed_at = @now, access_count = access_count + 1
+         WHERE id IN (SELECT value FROM json_each(@ids))`
+      )
+      .run({ ids: JSON.stringify(ids), now: new Date().toISOString() });
+  }
+
+  /** Moves memories whose expiry has passed to the trash. Returns their ids. */
+  sweepExpired(): string[] {
+    const now = new Date().toISOString();
+    const rows = this.db.transaction(() => {
+      const expired = this.db
+        .prepare(
+          `UPDATE memories SET deleted_at = @now
+           WHERE deleted_at IS NULL AND expires_at IS NOT NULL AND expires_at <= @now
+           RETURNING id, tags`
+        )
+        .all({ now }) as Array<{ id: string; tags: string }>;
+      for (const row of expired) {
+        this.logChange(row.id, { deletedAt: now });
+      }
+      return expired;
+    })();
+    for (const row of rows) {
+      this.emitChange({ type: "deleted", id: row.id, tags: parseJson<string[]>(row.tags, []) });
+    }
+    return rows.map((row) => row.id);
+  }
+
+  /**
+   * Applies the importance decay policy: memories idle (not read, updated or
+   * decayed) for `afterDays` lose `step` importance, down to `floor`. Decay
+   * does not touch `updatedAt` or write a revision. Returns the decayed ids.
+   */
+  decayImportance(): string[] {
+    const policy = this.decayPolicy;
+    if (!policy || !(policy.afterDays > 0)) return [];
+    const step = policy.step ?? 1;
+    const floor = policy.floor ?? 0;
+    const now = new Date();
+    const cutoff = new Date(now.getTime() - policy.afterDays * DAY_MS).toISOString();
+    const rows = this.db.transaction(() => {
+      const decayed = this.db
+        .prepare(
+          `UPDATE memories SET importance = MAX(@floor, importance - @step), decayed_at = @now
+           WHERE deleted_at IS NULL AND importance > @floor
+             AND MAX(updated_at, COALESCE(last_accessed_at, ''), COALESCE(decayed_at, '')) < @cutoff
+           RETURNING id, tags, importance`
+        )
+        .all({ floor, step, cutoff, now: now.toISOString() }) as Array<{
+        id: string;
+        tags: string;
+        importance: number;
+      }>;
+      for (const row of decayed) {
+        this.logChange(row.id, { importance: row.importance });
+      }
+      return decayed;
+    })();
+    for (const row of rows) {
+      this.emitChange({ type: "updated", id: row.id, tags: parseJson<string[]>(row.tags, []) });
+    }
+    return rows.map((row) => row.id);
+  }
+
+  /** Expiry sweep, importance decay and trash retention in one pass. */
+  runMaintenance(): MaintenanceReport {
+    return {
+      expired: this.sweepExpired(),
+      decayed: this.decayImportance(),
+      purged: this.purgeExpiredTrash(),
+      auditPruned: this.pruneAudit(),
+    };
+  }
+
+  /**
+   * Runs {@link runMaintenance} every `intervalMs` until the store is closed.
+   * The timer does not keep the process alive.
+   */
+  startMaintenance(intervalMs: number) {
+    this.stopMaintenance();
+    this.maintenanceTimer = setInterval(() => {
+      try {
+        this.runMaintenance();
+      } catch (error) {
+        console.error("Memory vault maintenance failed", error);
+      }
+    }, intervalMs);
+    this.maintenanceTimer.unref();
+  }
+
+  stopMaintenance() {
+    if (this.maintenanceTimer) {
+      clearInterval(this.maintenanceTimer);
+      this.maintenanceTimer = null;
+    }
+  }
+
+  /** Purges memories that have been in the trash longer than the retention window. */
+  purgeExpiredTrash(): string[] {
+    const cutoff = new Date(Date.now() - this.trashRetentionDays * DAY_MS).toISOString();
+    return this.purgeTrash({ deletedBefore: cutoff });
+  }
+
+  /** Drops audit log entries older than the retention window. Returns how many went. */
+  pruneAudit(): number {
+    const cutoff = new Date(Date.now() - this.auditRetentionDays * DAY_MS).toISOString();
+    return this.db.prepare(`DELETE FROM audit_log WHERE at < ?`).run(cutoff).changes;
+  }
+
+  /** Appends a tool call to the audit log. Returns null when the log is turned off. */
+  recordAudit(entry: AuditEntryInput): AuditEntry | null {
+    if (this.auditRetentionDays <= 0) return null;
+    const { at = new Date().toISOString(), ...fields } = entry;
+    const memoryIds = [...new Set(entry.memoryIds)];
+    const { lastInsertRowid } = this.db
+      .prepare(
+        `INSERT INTO audit_log (at, tool, client_name, client_version, session_id, arguments, status, error, memory_ids)
+         VALUES (@at, @tool, @clientName, @clientVersion, @sessionId, @arguments, @status, @error, @memoryIds)`
+      )
+      .run({
+        at,
+        tool: entry.tool,
+        clientName: entry.clientName,
+        clientVersion: entry.clientVersion,
+        sessionId: entry.sessionId,
+        arguments: this.seal(JSON.stringify(entry.arguments)),
+        status: entry.status,
+        error: entry.error,
+        memoryIds: JSON.stringify(memoryIds),
+      });
+    return { id: Number(lastInsertRowid), at, ...fields, memoryIds };
+  }
+
+  /** Audit log entries matching `query`, newest first. */
+  listAudit(query: AuditQuery = {}): AuditEntry[] {
+    const conditions: string[] = [];
+    const params: Record<string, unknown> = { limit: query.limit ?? 50 };
+    if (query.memoryId) {
+      conditions.push(`EXISTS (SELECT 1 FROM json_each(audit_log.memory_ids) WHERE value = @memoryId)`);
+      params.memoryId = query.memoryId;
+    }
+    if (query.clientName) {
+      conditions.push(`client_name = @clientName`);
+      params.clientName = query.clientName;
+    }
+    if (query.tool) {
+      conditions.push(`tool = @tool`);
+      params.tool = query.tool;
+    }
+    if (query.status) {
+      conditions.push(`status = @status`);
+      params.status = query.status;
+    }
+    if (query.since) {
+      conditions.push(`at >= @since`);
+      params.since = query.since;
+    }
+    if (query.until) {
+      conditions.push(`at <= @until`);
+      params.until = query.until;
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+    const rows = this.db
+      .prepare(`SELECT * FROM audit_log ${where} ORDER BY id DESC LIMIT @limit`)
+      .all(params) as Record<string, unknown>[];
+    return rows.map((row) => ({
+      id: row.id as number,
+      at: row.at as string,
+      tool: row.tool as string,
+      clientName: (row.client_name as string | null) ?? null,
+      clientVersion: (row.client_version as string | null) ?? null,
+      sessionId: (row.session_id as string | null) ?? null,
+      arguments: parseJson<Record<string, unknown>>(this.unseal(row.arguments as string), {}),
+      status: row.status as AuditEntry["status"],
+      error: (row.error as string | null) ?? null,
+      memoryIds: parseJson<string[]>(row.memory_ids as string, []),
+    }));
+  }
+
+  /** Every tag in use with the number of memories carrying it, most used first. */
+  listTags(scope: NamespaceScope = {}): TagCount[] {
+    const { from, where, params } = this.buildFilterQuery({
+      namespace: scope.namespace,
+      namespaces: scope.namespaces,
+    });
+    return this.db
+      .prepare(
+        `SELECT tag.value AS tag, COUNT(*) AS count
+         FROM ${from}, json_each(memories.tags) AS tag
+         ${where}
+         GROUP BY tag.value
+         ORDER BY count DESC, tag.value ASC`
+      )
+      .all(params) as TagCount[];
+  }
+
+  /**
+   * Renames a tag, and the tags nested below it, on every memory in scope
+   * (trashed ones included). Returns the ids of the memories that changed.
+   */
+  renameTag(from: string, to: string, scope: NamespaceScope = {}): string[] {
+    return this.mergeTags([from], to, scope);
+  }
+
+  /**
+   * Replaces each source tag (and its children, re-rooted under `target`)
+   * with `target` in one transaction. Memories that end up with the same tag
+   * twice keep one copy. Returns the ids of the memories that changed.
+   */
+  mergeTags(sources: string[], target: string, scope: NamespaceScope = {}): string[] {
+    const parents = normalizeTags(sources);
+    const destination = normalizeTag(target);
+    const retag = (tag: string) => {
+      const parent = parents.find((candidate) => isTagWithin(tag, candidate));
+      return parent === undefined ? tag : destination + tag.slice(parent.length);
+    };
+
+    const { from, where, params } = this.buildFilterQuery({
+      namespace: scope.namespace,
+      namespaces: scope.namespaces,
+      tags: parents,
+      tagMode: "any",
+      trash: "include",
+      expired: "include",
+    });
+    const events: MemoryChangeEvent[] = [];
+    const changedIds = this.db.transaction(() => {
+      const ids = this.db
+        .prepare(`SELECT memories.id FROM ${from} ${where}`)
+        .all(params) as Array<{ id: string }>;
+      const now = new Date().toISOString();
+      const update = this.db.prepare(`UPDATE memories SET tags = ?, updated_at = ? WHERE id = ?`);
+      const changed: string[] = [];
+      for (const { id } of ids) {
+        const existing = this.getMemory(id, { includeDeleted: true });
+        if (!existing) continue;
+        const tags = normalizeTags(existing.tags.map(retag));
+        if (JSON.stringify(tags) === JSON.stringify(existing.tags)) continue;
+
+        const updated: MemoryRecord = { ...existing, tags, updatedAt: now };
+        update.run(JSON.stringify(tags), now, id);
+        this.saveEmbedding(updated);
+        if (this.latestRevisionNumber(id) === 0) {
+          this.writeRevision(existing, "baseline", []);
+        }
+        this.writeRevision(updated, "update", ["tags"]);
+        this.logChange(id, changedValues(existing, updated));
+        changed.push(id);
+        if (!existing.deletedAt) {
+          events.push({ type: "updated", id, tags: normalizeTags([...existing.tags, ...tags]) });
+        }
+      }
+      return changed;
+    })();
+
+    for (const event of events) {
+      this.emitChange(event);
+    }
+    return changedIds;
+  }
+
+  listNamespaces(): NamespaceCount[] {
+    return this.db
+      .prepare(
+        `SELECT namespace, COUNT(*) AS count FROM memories
+         WHERE deleted_at IS NULL
+         GROUP BY namespace
+         ORDER BY namespace ASC`
+      )
+      .all() as NamespaceCount[];
+  }
+
+  /** Moves memories into another namespace. Returns the memories that were moved. */
+  moveMemories(ids: string[], namespace: string): MemoryRecord[] {
+    const target = namespace.trim();
+    const moved = this.db.transaction(() => {
+      const now = new Date().toISOString();
+      const update = this.db.prepare(
+        `UPDATE memories SET namespace = ?, updated_at = ? WHERE id = ? AND deleted_at IS NULL AND namespace != ?`
+      );
+      return ids.filter((id) => {
+        if (update.run(target, now, id, target).changes === 0) return false;
+        this.logChange(id, { namespace: target, updatedAt: now });
+        return true;
+      });
+    })();
+
+    return moved.flatMap((id) => {
+      const memory = this.getMemory(id);
+      if (!memory) return [];
+      this.emitChange({ type: "updated", id, tags: memory.tags });
+      return [memory];
+    });
+  }
+
+  /**
+   * Adds a directed, typed edge between two live memories. Linking the same
+   * pair with the same type again is a no-op. Returns null when either memory
+   * is missing or trashed.
+   */
+  linkMemories(sourceId: string, targetId: string, type: MemoryLinkType): MemoryLink | null {
+    if (sourceId === targetId) {
+      throw new Error("A memory cannot link to itself");
+    }
+    if (!this.getMemory(sourceId) || !this.getMemory(targetId)) {
+      return null;
+    }
+    const createdAt = new Date().toISOString();
+    this.db.transaction(() => {
+      const inserted = this.db
+        .prepare(
+          `INSERT INTO memory_links (source_id, target_id, type, created_at)
+           VALUES (?, ?, ?, ?)
+           ON CONFLICT (source_id, target_id, type) DO NOTHING`
+        )
+        .run(sourceId, targetId, type, createdAt).changes;
+      if (inserted > 0) {
+        this.logChange(sourceId, { [linkField(type, targetId)]: createdAt });
+      }
+    })();
+    const row = this.db
+      .prepare(`SELECT * FROM memory_links WHERE source_id = ? AND target_id = ? AND type = ?`)
+      .get(sourceId, targetId, type) as Record<string, unknown>;
+    return this.mapLinkRow(row);
+  }
+
+  /** Removes the edges from `sourceId` to `targetId`, of one type or all. Returns how many. */
+  unlinkMemories(sourceId: string, targetId: string, type?: MemoryLinkType): number {
+    const typeClause = type ? ` AND type = @type` : "";
+    return this.db.transaction(() => {
+      const removed = this.db
+        .prepare(
+          `DELETE FROM memory_links WHERE source_id = @sourceId AND target_id = @targetId${typeClause}
+           RETURNING type`
+        )
+        .all({ sourceId, targetId, ...(type ? { type } : {}) }) as Array<{ type: MemoryLinkType }>;
+      if (removed.length > 0) {
+        this.logChange(
+          sourceId,
+          Object.fromEntries(removed.map((row) => [linkField(row.type, targetId), null]))
+        );
+      }
+      return removed.length;
+    })();
+  }
+
+  /**
+   * Links of a memory in both directions. Edges to trashed memories are
+   * hidden until they are restored; purging removes them for good.
+   */
+  getLinks(id: string): MemoryLinks {
+    const query = (own: "source_id" | "target_id", peer: "source_id" | "target_id") =>
+      (
+        this.db
+          .prepare(
+            `SELECT memory_links.${peer} AS id, memories.title, memory_links.type, memory_links.created_at
+             FROM memory_links
+             JOIN memories ON memories.id = memory_links.${peer}
+             WHERE memory_links.${own} = ? AND memories.deleted_at IS NULL
+             ORDER BY memory_links.created_at ASC`
+          )
+          .all(id) as Array<Record<string, unknown>>
+      ).map(
+        (row): LinkedMemory => ({
+          id: row.id as string,
+          title: this.unseal((row.title as string | null) ?? null),
+          type: row.type as MemoryLinkType,
+          createdAt: row.created_at as string,
+        })
+      );
+    return { outbound: query("source_id", "target_id"), inbound: query("target_id", "source_id") };
+  }
+
+  /**
+   * Walks the link graph breadth first from a memory, returning every memory
+   * reachable within `depth` hops together with the edge that reached it.
+   */
+  findRelated(query: RelatedMemoryQuery): RelatedMemory[] {
+    const depth = Math.max(1, query.depth ?? 1);
+    const limit = query.limit ?? 50;
+    const direction = query.direction ?? "both";
+    const typeClause =
+      query.types && query.types.length > 0
+        ? ` AND type IN (SELECT value FROM json_each(@types))`
+        : "";
+    const edgeClauses = [
+      direction !== "inbound" ? `source_id IN (SELECT value FROM json_each(@frontier))` : null,
+      direction !== "outbound" ? `target_id IN (SELECT value FROM json_each(@frontier))` : null,
+    ].filter(Boolean);
+    const edges = this.db.prepare(
+      `SELECT * FROM memory_links WHERE (${edgeClauses.join(" OR ")})${typeClause}
+       ORDER BY created_at ASC`
+    );
+
+    const visited = new Set([query.id]);
+    const related: RelatedMemory[] = [];
+    let frontier = [query.id];
+    for (let level = 1; level <= depth && frontier.length > 0; level++) {
+      const rows = edges.all({
+        frontier: JSON.stringify(frontier),
+        ...(typeClause ? { types: JSON.stringify(query.types) } : {}),
+      }) as Array<Record<string, unknown>>;
+      const frontierSet = new Set(frontier);
+      const next: string[] = [];
+      for (const row of rows) {
+        const link = this.mapLinkRow(row);
+        const candidates = [
+          direction !== "inbound" && frontierSet.has(link.sourceId) ? link.targetId : null,
+          direction !== "outbound" && frontierSet.has(link.targetId) ? link.sourceId : null,
+        ];
+        for (const peerId of candidates) {
+          if (!peerId || visited.has(peerId)) continue;
+          visited.add(peerId);
+          const memory = this.getMemory(peerId);
+          if (!memory) continue;
+          related.push({ memory, depth: level, via: link });
+          next.push(peerId);
+          if (related.length >= limit) return related;
+        }
+      }
+      frontier = next;
+    }
+    return related;
+  }
+
+  /**
+   * Every memory matching the filters (ignoring `limit`/`offset`), with its
+   * outbound links, in the shape `importMemories` accepts back.
+   */
+  exportMemories(filters: MemoryFilters = {}): PortableMemory[] {
+    const links = this.db.prepare(
+      `SELECT target_id, type FROM memory_links WHERE source_id = ? ORDER BY created_at ASC`
+    );
+    const exported: PortableMemory[] = [];
+    const pageSize = 200;
+    // Cursors keep pages from shifting if memories are added during the export.
+    let cursor: string | undefined;
+    for (let offset = 0; ; offset += pageSize) {
+      const page = this.listMemories({ ...filters, limit: pageSize, offset, cursor });
+      // Access statistics are local to this vault and would churn every export.
+      for (const {
+        score: _score,
+        snippet: _snippet,
+        lastAccessedAt: _lastAccessedAt,
+        accessCount: _accessCount,
+        ...memory
+      } of page.items) {
+        const rows = links.all(memory.id) as Array<{ target_id: string; type: MemoryLinkType }>;
+        exported.push({
+          ...memory,
+          links: rows.map((row) => ({ type: row.type, targetId: row.target_id })),
+        });
+      }
+      if (page.items.length < pageSize || offset + pageSize >= page.total) break;
+      cursor = page.nextCursor;
+    }
+    return exported;
+  }
+
+  /**
+   * Imports memories in a single transaction, keeping their ids and
+   * timestamps. `conflict` decides what happens when an id already exists:
+   * keep the vault copy (`skip`, the default), replace it (`overwrite`),
+   * replace it only if the import was updated later (`keep-newer`), or store
+   * the import under a new id (`duplicate`). Links are recreated once every
+   * entry is in, pointing at the new ids of duplicated memories. Entries to
+   * be written pass the redaction policy like `addMemory`; those a `reject`
+   * rule refuses are left out and reported as `rejected`.
+   */
+  importMemories(entries: ImportEntry[], options: ImportOptions = {}): ImportReport {
+    const conflict = options.conflict ?? "skip";
+    const report: ImportReport = {
+      total: entries.length,
+      created: 0,
+      overwritten: 0,
+      skipped: 0,
+      duplicated: 0,
+      rejected: 0,
+      links: 0,
+      items: [],
+    };
+    const events: MemoryChangeEvent[] = [];
+
+    this.db.transaction(() => {
+      const now = new Date().toISOString();
+      const vaultIds = new Map<string, string>();
+      const written: Array<{ id: string; entry: ImportEntry }> = [];
+
+      for (const entry of entries) {
+        const existing = entry.id ? this.getMemory(entry.id, { includeDeleted: true }) : null;
+        const createdAt = entry.createdAt ?? now;
+        const updatedAt = entry.updatedAt ?? createdAt;
+        if (
+          existing &&
+          (conflict === "skip" ||
+            (conflict === "keep-newer" && Date.parse(updatedAt) <= Date.parse(existing.updatedAt)))
+        ) {
+          report.skipped++;
+          report.items.push({ id: existing.id, action: "skipped" });
+          continue;
+        }
+
+        let redacted: ReturnType<Redactor["redact"]>;
+        try {
+          redacted = this.redactor.redact({
+            title: entry.title ?? null,
+            content: entry.content,
+            metadata: entry.metadata ?? {},
+          });
+        } catch (error) {
+          if (!(error instanceof SensitiveContentError)) throw error;
+          report.rejected++;
+          report.items.push({
+            ...(entry.id ? { sourceId: entry.id } : {}),
+            action: "rejected",
+            reason: error.message,
+          });
+          continue;
+        }
+        const { fields, findings } = redacted;
+        const record: MemoryRecord = {
+          id: entry.id ?? uuidv4(),
+          namespace:
+            options.namespace ?? entry.namespace ?? options.defaultNamespace ?? DEFAULT_NAMESPACE,
+          title: fields.title ?? null,
+          content: fields.content ?? entry.content,
+          importance: clampImportance(entry.importance),
+          tags: normalizeTags(entry.tags),
+          metadata: flagSensitive(fields.metadata ?? {}, findings, Object.keys(fields)),
+          createdAt,
+          updatedAt,
+          ...(entry.deletedAt ? { deletedAt: entry.deletedAt } : {}),
+          ...(entry.expiresAt ? { expiresAt: entry.expiresAt } : {}),
+        };
+
+        if (!existing) {
+          this.insertMemory(record);
+          this.writeRevision(record, "create", MEMORY_FIELDS);
+          report.created++;
+          report.items.push({ id: record.id, action: "created" });
+          written.push({ id: record.id, entry });
+          if (!record.deletedAt) {
+            events.push({ type: "added", id: record.id, tags: record.tags });
+          }
+        } else if (conflict === "duplicate") {
+          const duplicate = { ...record, id: uuidv4() };
+          this.insertMemory(duplicate);
+          this.writeRevision(duplicate, "create", MEMORY_FIELDS);
+          vaultIds.set(record.id, duplicate.id);
+          report.duplicated++;
+          report.items.push({ id: duplicate.id, sourceId: record.id, action: "duplicated" });
+          written.push({ id: duplicate.id, entry });
+          if (!duplicate.deletedAt) {
+            events.push({ type: "added", id: duplicate.id, tags: duplicate.tags });
+          }
+        } else {
+          // Update in place so links pointing at the memory survive.
+          this.db
+            .prepare(
+              `UPDATE memories SET namespace = @namespace, title = @title, content = @content, importance = @importance, tags = @tags, metadata = @metadata, created_at = @created_at, updated_at = @updated_at, deleted_at = @deleted_at, expires_at = @expires_at WHERE id = @id`
+            )
+            .run(this.rowParams(record));
+          this.saveEmbedding(record);
+          this.logChange(record.id, changedValues(existing, record));
+          const changed = changedFields(existing, record);
+          if (changed.length > 0) {
+            if (this.latestRevisionNumber(existing.id) === 0) {
+              this.writeRevision(existing, "baseline", []);
+            }
+            this.writeRevision(record, "update", changed);
+          }
+          report.overwritten++;
+          report.items.push({ id: record.id, action: "overwritten" });
+          written.push({ id: record.id, entry });
+          events.push({
+            type: record.deletedAt ? "deleted" : "updated",
+            id: record.id,
+            tags: normalizeTags([...existing.tags, ...record.tags]),
+          });
+        }
+      }
+
+      const exists = this.db.prepare(`SELECT 1 FROM memories WHERE id = ?`);
+      const insertLink = this.db.prepare(
+        `INSERT INTO memory_links (source_id, target_id, type, created_at)
+         VALUES (?, ?, ?, ?)
+         ON CONFLICT (source_id, target_id, type) DO NOTHING`
+      );
+      for (const { id, entry } of written) {
+        for (const link of entry.links ?? []) {
+          const targetId = vaultIds.get(link.targetId) ?? link.targetId;
+          if (targetId === id || !exists.get(targetId)) continue;
+          if (insertLink.run(id, targetId, link.type, now).changes > 0) {
+            this.logChange(id, { [linkField(link.type, targetId)]: now });
+            report.links++;
+          }
+        }
+      }
+    })();
+
+    for (const event of events) {
+      this.emitChange(event);
+    }
+    return report;
+  }
+
+  /**
+   * Every change this vault has made or received, oldest first, in plain
+   * text even when the vault is encrypted.
+   */
+  exportChanges(): ChangeLog {
+    return { deviceId: this.device, changes: this.readChanges() };
+  }
+
+  /**
+   * Merges another vault's change log. Changes seen before are skipped. For
+   * every memory the new ones touch, each field takes the value of its latest
+   * change (logical clock first, then device id), so vaults converge whichever
+   * side syncs first. A field both sides changed without seeing the other's
+   * edit is reported as a conflict. Purges always win. Incoming titles,
+   * content and metadata pass the redaction policy first.
+   */
+  applyChanges(log: ChangeLog): SyncReport {
+    if (log.deviceId === this.device) {
+      throw new TransferFormatError("Cannot sync a vault with its own change log");
+    }
+    const report: SyncReport = {
+      source: log.deviceId,
+      received: 0,
+      created: 0,
+      updated: 0,
+      trashed: 0,
+      restored: 0,
+      purged: 0,
+      links: 0,
+      conflicts: [],
+      rejected: [],
+    };
+    const events: MemoryChangeEvent[] = [];
+
+    this.db.transaction(() => {
+      const local = this.readChanges();
+      const known = new Set(local.map(changeKey));
+      const theirs = new Set(log.changes.map(changeKey));
+      const fresh = log.changes.filter((change) => !known.has(changeKey(change)));
+      if (fresh.length === 0) return;
+      report.received = fresh.length;
+
+      // Incoming text passes the redaction policy before it is logged, so a
+      // masked secret is not handed on to the next vault either. Rejected
+      // changes are left out, and reported again on every sync that brings them.
+      const accepted: VaultChange[] = [];
+      for (const change of fresh) {
+        try {
+          accepted.push(this.redactChange(change));
+        } catch (error) {
+          if (!(error instanceof SensitiveContentError)) throw error;
+          report.rejected.push({ memoryId: change.memoryId, reason: error.message });
+        }
+      }
+
+      const insert = this.db.prepare(
+        `INSERT OR IGNORE INTO memory_changes (device_id, clock, memory_id, fields, changed_at)
+         VALUES (?, ?, ?, ?, ?)`
+      );
+      let clock = Number(this.getMeta("sync.clock") ?? 0);
+      for (const change of accepted) {
+        insert.run(
+          change.deviceId,
+          change.clock,
+          change.memoryId,
+          this.seal(JSON.stringify(change.fields)),
+          change.changedAt
+        );
+        clock = Math.max(clock, change.clock);
+      }
+      this.setMeta("sync.clock", String(clock));
+
+      const history = new Map<string, VaultChange[]>();
+      for (const change of [...local, ...accepted]) {
+        const changes = history.get(change.memoryId) ?? [];
+        changes.push(change);
+        history.set(change.memoryId, changes);
+      }
+      const touched = new Set(accepted.map((change) => change.memoryId));
+
+      for (const memoryId of touched) {
+        const changes = history.get(memoryId)!;
+        const winners = resolveFields(changes);
+        this.applyResolved(memoryId, winners, report, events);
+
+        // Local changes the other vault had not seen, against its new ones.
+        const unseen = changes.filter(
+          (change) => known.has(changeKey(change)) && !theirs.has(changeKey(change))
+        );
+        const incoming = changes.filter((change) => !known.has(changeKey(change)));
+        const latest = (candidates: VaultChange[], field: string) =>
+          candidates
+            .filter((change) => field in change.fields)
+            .reduce<VaultChange | null>(
+              (best, change) => (!best || compareChanges(best, change) < 0 ? change : best),
+              null
+            );
+        const fields = new Set(incoming.flatMap((change) => Object.keys(change.fields)));
+        for (const field of fields) {
+          if (field === "updatedAt") continue;
+          const ours = latest(unseen, field);
+          const remote = latest(incoming, field);
+          if (!ours || !remote) continue;
+          if (JSON.stringify(ours.fields[field]) === JSON.stringify(remote.fields[field])) continue;
+          const title = winners.get("title")?.fields.title;
+          report.conflicts.push({
+            memoryId,
+            title: typeof title === "string" ? title : null,
+            field,
+            local: ours.fields[field],
+            remote: remote.fields[field],
+            kept: compareChanges(ours, remote) > 0 ? "local" : "remote",
+          });
+        }
+      }
+
+      // Links last, once every memory they connect exists. Memories created
+      // now may be the target of links logged before them.
+      const present = new Set(
+        [...touched].filter((id) => this.getMemory(id, { includeDeleted: true }))
+      );
+      const sources = new Set(touched);
+      for (const [memoryId, changes] of history) {
+        if (sources.has(memoryId)) continue;
+        const pointsAtNew = changes.some((change) =>
+          Object.keys(change.fields).some((field) => {
+            const link = parseLinkField(field);
+            return link !== null && present.has(link.targetId);
+          })
+        );
+        if (pointsAtNew) sources.add(memoryId);
+      }
+      for (const memoryId of sources) {
+        if (!this.getMemory(memoryId, { includeDeleted: true })) continue;
+        for (const [field, change] of resolveFields(history.get(memoryId)!)) {
+          const link = parseLinkField(field);
+          if (!link || !this.getMemory(link.targetId, { includeDeleted: true })) continue;
+          const createdAt = change.fields[field];
+          report.links +=
+            typeof createdAt === "string"
+              ? this.db
+                  .prepare(
+                    `INSERT INTO memory_links (source_id, target_id, type, created_at)
+                     VALUES (?, ?, ?, ?)
+                     ON CONFLICT (source_id, target_id, type) DO NOTHING`
+                  )
+                  .run(memoryId, link.targetId, link.type, createdAt).changes
+              : this.db
+                  .prepare(
+                    `DELETE FROM memory_links WHERE source_id = ? AND target_id = ? AND type = ?`
+                  )
+                  .run(memoryId, link.targetId, link.type).changes;
+        }
+      }
+    })();
+
+    for (const event of events) {
+      this.emitChange(event);
+    }
+    return report;
+  }
+
+  /** `change` with the secrets in its title, content and metadata masked. */
+  private redactChange(change: VaultChange): VaultChange {
+    const { title, content, metadata } = change.fields;
+    const { fields } = this.redactor.redact({
+      ...(typeof title === "string" ? { title } : {}),
+      ...(typeof content === "string" ? { content } : {}),
+      ...(metadata && typeof metadata === "object" && !Array.isArray(metadata)
+        ? { metadata: metadata as Record<string, unknown> }
+        : {}),
+    });
+    return { ...change, fields: { ...change.fields, ...fields } };
+  }
+
+  /** Brings one memory in line with the winning change of each field. */
+  private applyResolved(
+    memoryId: string,
+    winners: Map<string, VaultChange>,
+    report: SyncReport,
+    events: MemoryChangeEvent[]
+  ) {
+    const existing = this.getMemory(memoryId, { includeDeleted: true });
+    const tombstone = winners.get("purged");
+    if (tombstone?.fields.purged === true) {
+      if (existing) {
+        if (!this.revisionPolicy.keepAfterDelete) {
+          this.db.prepare(`DELETE FROM memory_revisions WHERE memory_id = ?`).run(memoryId);
+        }
+        this.db.prepare(`DELETE FROM memories WHERE id = ?`).run(memoryId);
+        report.purged++;
+        if (!existing.deletedAt) {
+          events.push({ type: "deleted", id: memoryId, tags: existing.tags });
+        }
+      }
+      this.db
+        .prepare(
+          `UPDATE memory_changes SET fields = ?
+           WHERE memory_id = ? AND NOT (device_id = ? AND clock = ?)`
+        )
+        .run(this.seal("{}"), memoryId, tombstone.deviceId, tombstone.clock);
+      return;
+    }
+
+    const current: Partial<Record<SyncedField, unknown>> = existing ? syncedValues(existing) : {};
+    const value = <T>(field: SyncedField, fallback: T): T => {
+      const winner = winners.get(field);
+      return (winner ? winner.fields[field] : current[field] ?? fallback) as T;
+    };
+    const content = value<string | undefined>("content", undefined);
+    // Fields alone, such as a link, cannot bring a memory into being.
+    if (typeof content !== "string") return;
+
+    const createdAt = value("createdAt", new Date().toISOString());
+    const deletedAt = value<string | null>("deletedAt", null);
+    const expiresAt = value<string | null>("expiresAt", null);
+    const title = value<string | null>("title", null);
+    const metadata = value<Record<string, unknown>>("metadata", {});
+    // Secrets were masked as the changes came in; flags follow the merged text.
+    const findings = this.redactor.enabled ? this.redactor.scan({ title, content, metadata }) : [];
+    const next: MemoryRecord = {
+      id: memoryId,
+      namespace: value("namespace", DEFAULT_NAMESPACE),
+      title,
+      content,
+      importance: clampImportance(value<number | null>("importance", null)),
+      tags: normalizeTags(value<string[]>("tags", [])),
+      metadata: flagSensitive(metadata, findings, ["title", "content", "metadata"]),
+      createdAt,
+      updatedAt: value("updatedAt", createdAt),
+      ...(deletedAt ? { deletedAt } : {}),
+      ...(expiresAt ? { expiresAt } : {}),
+    };
+
+    if (!existing) {
+      this.insertRow(next);
+      this.writeRevision(next, "create", MEMORY_FIELDS);
+      report.created++;
+      if (!next.deletedAt) {
+        events.push({ type: "added", id: memoryId, tags: next.tags });
+      }
+      return;
+    }
+    if (Object.keys(changedValues(existing, next)).length === 0) return;
+
+    this.db
+      .prepare(
+        `UPDATE memories SET namespace = @namespace, title = @title, content = @content, importance = @importance, tags = @tags, metadata = @metadata, created_at = @created_at, updated_at = @updated_at, deleted_at = @deleted_at, expires_at = @expires_at WHERE id = @id`
+      )
+      .run(this.rowParams(next));
+    this.saveEmbedding(next);
+    const changed = changedFields(existing, next);
+    if (changed.length > 0) {
+      if (this.latestRevisionNumber(memoryId) === 0) {
+        this.writeRevision(existing, "baseline", []);
+      }
+      this.writeRevision(next, "update", changed);
+    }
+
+    const tags = normalizeTags([...existing.tags, ...next.tags]);
+    if (!existing.deletedAt && next.deletedAt) {
+      report.trashed++;
+      events.push({ type: "deleted", id: memoryId, tags });
+    } else if (existing.deletedAt && !next.deletedAt) {
+      report.restored++;
+      events.push({ type: "added", id: memoryId, tags });
+    } else {
+      report.updated++;
+      if (!next.deletedAt) {
+        events.push({ type: "updated", id: memoryId, tags });
+      }
+    }
+  }
+
+  private mapLinkRow(row: Record<string, unknown>): MemoryLink {
+    return {
+      sourceId: row.source_id as string,
+      targetId: row.target_id as string,
+      type: row.type as MemoryLinkType,
+      createdAt: row.created_at as string,
+    };
+  }
+
+  private mapRevisionRow(row: Record<string, unknown>): MemoryRevision {
+    return {
+      memoryId: row.memory_id as string,
+      revision: row.revision as number,
+      action: row.action as MemoryRevision["action"],
+      title: this.unseal((row.title as string | null) ?? null),
+      content: this.unseal(row.content as string) as string,
+      importance: (row.importance as number | null) ?? null,
+      tags: parseJson<string[]>(row.tags as string | null, []),
+      metadata: parseJson<Record<string, unknown>>(
+        this.unseal(row.metadata as string | null),
+        {}
+      ),
+      changedFields: parseJson<MemoryField[]>(row.changed_fields as string | null, []),
+      revertedFrom: (row.reverted_from as number | null) ?? null,
+      createdAt: row.created_at as string,
+    };
   }
 
   private mapRow(row: Record<string, unknown>): MemoryRecord {
     const tags = Array.isArray(row.tags)
       ? normalizeTags(row.tags as string[])
       : normalizeTags(parseJson<string[]>(row.tags as string | null, []));
-    const metadata = parseJson<Record<string, unknown>>(row.metadata as string | null, {});
+    const metadata = parseJson<Record<string, unknown>>(
+      this.unseal(row.metadata as string | null),
+      {}
+    );
 
     return {
       id: row.id as string,
-      title: (row.title as string | null) ?? null,
-      content: row.content as string,
+      namespace: (row.namespace as string | undefined) ?? DEFAULT_NAMESPACE,
+      title: this.unseal((row.title as string | null) ?? null),
+      content: this.unseal(row.content as string) as string,
       importance:
         typeof row.importance === "number"
           ? Math.max(0, Math.min(10, row.importance))
@@ -271,6 +2561,10 @@ export class MemoryStore {
       metadata,
       createdAt: row.created_at as string,
       updatedAt: row.updated_at as string,
+      ...(row.deleted_at ? { deletedAt: row.deleted_at as string } : {}),
+      ...(row.expires_at ? { expiresAt: row.expires_at as string } : {}),
+      ...(row.last_accessed_at ? { lastAccessedAt: row.last_accessed_at as string } : {}),
+      accessCount: Number(row.access_count ?? 0),
     };
   }
 }
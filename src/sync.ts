@@ -0,0 +1,215 @@
+import Database from "better-sqlite3";
+import fs from "fs";
+import type { MemoryBackend } from "./backend.js";
+import {
+  VaultCipher,
+  VaultKeyError,
+  type EncryptionKeySource,
+  type KdfParams,
+} from "./crypto.js";
+import { changeLogSchema } from "./schemas.js";
+import { TransferFormatError } from "./transfer.js";
+import type { ChangeLog, MemoryLinkType, MemoryRecord, SyncReport, VaultChange } from "./types.js";
+
+const CHANGE_LOG_FORMAT = "context-memory-changes";
+const CHANGE_LOG_VERSION = 1;
+const SQLITE_HEADER = "SQLite format 3\0";
+
+/** Memory columns carried by the change log, by their record names. */
+export const SYNCED_FIELDS = [
+  "namespace",
+  "title",
+  "content",
+  "importance",
+  "tags",
+  "metadata",
+  "createdAt",
+  "updatedAt",
+  "deletedAt",
+  "expiresAt",
+] as const;
+
+export type SyncedField = (typeof SYNCED_FIELDS)[number];
+
+/** Change log values of every synced field of a memory. */
+export function syncedValues(memory: MemoryRecord): Record<SyncedField, unknown> {
+  return {
+    namespace: memory.namespace,
+    title: memory.title,
+    content: memory.content,
+    importance: memory.importance,
+    tags: memory.tags,
+    metadata: memory.metadata,
+    createdAt: memory.createdAt,
+    updatedAt: memory.updatedAt,
+    deletedAt: memory.deletedAt ?? null,
+    expiresAt: memory.expiresAt ?? null,
+  };
+}
+
+/** The synced fields whose values differ between two versions of a memory. */
+export function changedValues(
+  before: MemoryRecord,
+  after: MemoryRecord
+): Partial<Record<SyncedField, unknown>> {
+  const previous = syncedValues(before);
+  return Object.fromEntries(
+    Object.entries(syncedValues(after)).filter(
+      ([field, value]) => JSON.stringify(value) !== JSON.stringify(previous[field as SyncedField])
+    )
+  );
+}
+
+export function linkField(type: MemoryLinkType, targetId: string) {
+  return `link:${type}:${targetId}`;
+}
+
+export function parseLinkField(field: string): { type: MemoryLinkType; targetId: string } | null {
+  const match = /^link:([^:]+):(.+)$/.exec(field);
+  return match ? { type: match[1] as MemoryLinkType, targetId: match[2] } : null;
+}
+
+export function changeKey(change: Pick<VaultChange, "deviceId" | "clock">) {
+  return `${change.deviceId}:${change.clock}`;
+}
+
+/** Orders changes oldest first: by clock, then by device id. */
+export function compareChanges(a: VaultChange, b: VaultChange): number {
+  if (a.clock !== b.clock) return a.clock - b.clock;
+  return a.deviceId < b.deviceId ? -1 : a.deviceId > b.deviceId ? 1 : 0;
+}
+
+/** The latest change to each field: the last writer wins, field by field. */
+export function resolveFields(changes: VaultChange[]): Map<string, VaultChange> {
+  const winners = new Map<string, VaultChange>();
+  for (const change of changes) {
+    for (const field of Object.keys(change.fields)) {
+      const current = winners.get(field);
+      if (!current || compareChanges(current, change) < 0) {
+        winners.set(field, change);
+      }
+    }
+  }
+  return winners;
+}
+
+export function serializeChangeLog(log: ChangeLog): string {
+  return `${JSON.stringify({ format: CHANGE_LOG_FORMAT, version: CHANGE_LOG_VERSION, ...log })}\n`;
+}
+
+export function parseChangeLog(text: string): ChangeLog {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new TransferFormatError("Change log is not valid JSON");
+  }
+  const { format, version } = (raw ?? {}) as { format?: unknown; version?: unknown };
+  if (format !== CHANGE_LOG_FORMAT) {
+    throw new TransferFormatError(`Not a change log; expected format "${CHANGE_LOG_FORMAT}"`);
+  }
+  if (typeof version !== "number" || version > CHANGE_LOG_VERSION) {
+    throw new TransferFormatError(
+      `Change log version ${String(version)} is not supported; upgrade context-memory-mcp-server`
+    );
+  }
+  const parsed = changeLogSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .map((issue) => `${issue.path.join(".") || "log"}: ${issue.message}`)
+      .join("; ");
+    throw new TransferFormatError(`Change log: ${issues}`);
+  }
+  return parsed.data;
+}
+
+export interface ReadChangeLogOptions {
+  /** Key of the vault being read, if it is encrypted. */
+  encryption?: EncryptionKeySource;
+}
+
+/**
+ * Reads the change log of another vault file, opened read-only, or a file
+ * written by {@link serializeChangeLog}.
+ */
+export function readChangeLog(filePath: string, options: ReadChangeLogOptions = {}): ChangeLog {
+  const header = Buffer.alloc(SQLITE_HEADER.length);
+  const fd = fs.openSync(filePath, "r");
+  try {
+    fs.readSync(fd, header, 0, header.length, 0);
+  } finally {
+    fs.closeSync(fd);
+  }
+  if (header.toString("latin1") !== SQLITE_HEADER) {
+    return parseChangeLog(fs.readFileSync(filePath, "utf8"));
+  }
+
+  const db = new Database(filePath, { readonly: true, fileMustExist: true });
+  try {
+    const meta = (key: string) =>
+      (
+        db.prepare(`SELECT value FROM vault_meta WHERE key = ?`).get(key) as
+          | { value: string }
+          | undefined
+      )?.value ?? null;
+    const hasLog = db
+      .prepare(`SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'memory_changes'`)
+      .get();
+    const deviceId = hasLog ? meta("sync.device") : null;
+    if (!deviceId) {
+      throw new TransferFormatError(
+        `${filePath} has no change log yet; open it once with this version of the server`
+      );
+    }
+
+    let cipher: VaultCipher | null = null;
+    const kdf = meta("encryption.kdf");
+    if (kdf) {
+      if (!options.encryption) {
+        throw new VaultKeyError(`${filePath} is encrypted; its key is needed to read its changes`);
+      }
+      cipher = VaultCipher.derive(options.encryption, JSON.parse(kdf) as KdfParams);
+      cipher.verifyCheck(meta("encryption.check") ?? "");
+    }
+
+    const rows = db
+      .prepare(`SELECT * FROM memory_changes ORDER BY clock ASC, device_id ASC`)
+      .all() as Array<{
+      device_id: string;
+      clock: number;
+      memory_id: string;
+      fields: string;
+      changed_at: string;
+    }>;
+    return {
+      deviceId,
+      changes: rows.map((row) => ({
+        deviceId: row.device_id,
+        clock: row.clock,
+        memoryId: row.memory_id,
+        fields: JSON.parse(cipher ? cipher.decrypt(row.fields) : row.fields) as Record<
+          string,
+          unknown
+        >,
+        changedAt: row.changed_at,
+      })),
+    };
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Merges another vault file, or an exported change log, into `store`.
+ * Encrypted vault files are read with `options.encryption`.
+ */
+export function syncVault(
+  store: MemoryBackend,
+  source: string,
+  options: ReadChangeLogOptions = {}
+): SyncReport {
+  if (!store.applyChanges) {
+    throw new Error("This storage backend keeps no change log and cannot sync");
+  }
+  return store.applyChanges(readChangeLog(source, options));
+}
@@ -0,0 +1,163 @@
+import type { MemoryBackend } from "./backend.js";
+import { importEntrySchema } from "./schemas.js";
+import type {
+  ImportEntry,
+  ImportOptions,
+  ImportReport,
+  MemoryFilters,
+  PortableMemory,
+  TransferFormat,
+} from "./types.js";
+
+/** Thrown when import data cannot be parsed. Nothing is written in that case. */
+export class TransferFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TransferFormatError";
+  }
+}
+
+const FRONT_MATTER_DELIMITER = "---";
+const FRONT_MATTER_LINE = /^([A-Za-z][\w-]*):(?:\s+(.*))?$/;
+
+function toJsonLines(memories: PortableMemory[]) {
+  return memories.map((memory) => JSON.stringify(memory)).join("\n") + (memories.length ? "\n" : "");
+}
+
+/**
+ * Markdown with one front matter block per memory. Values are written as
+ * JSON, which YAML readers accept as well, so titles and metadata survive
+ * round trips unchanged.
+ */
+function toMarkdown(memories: PortableMemory[]) {
+  return memories
+    .map((memory) => {
+      const { content, links, deletedAt, ...fields } = memory;
+      const frontMatter = Object.entries({
+        ...fields,
+        ...(deletedAt ? { deletedAt } : {}),
+        ...(links.length > 0 ? { links } : {}),
+      }).map(([key, value]) => `${key}: ${JSON.stringify(value)}`);
+      return [FRONT_MATTER_DELIMITER, ...frontMatter, FRONT_MATTER_DELIMITER, content, ""].join(
+        "\n"
+      );
+    })
+    .join("\n");
+}
+
+export function serializeMemories(memories: PortableMemory[], format: TransferFormat): string {
+  return format === "markdown" ? toMarkdown(memories) : toJsonLines(memories);
+}
+
+function validateEntry(raw: unknown, location: string): ImportEntry {
+  const parsed = importEntrySchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .map((issue) => `${issue.path.join(".") || "entry"}: ${issue.message}`)
+      .join("; ");
+    throw new TransferFormatError(`${location}: ${issues}`);
+  }
+  return parsed.data;
+}
+
+function parseJsonLines(text: string): ImportEntry[] {
+  const entries: ImportEntry[] = [];
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) return;
+    let raw: unknown;
+    try {
+      raw = JSON.parse(line);
+    } catch {
+      throw new TransferFormatError(`Line ${index + 1}: not valid JSON`);
+    }
+    entries.push(validateEntry(raw, `Line ${index + 1}`));
+  });
+  return entries;
+}
+
+/** Index of the closing delimiter when a front matter block starts at `start`, else -1. */
+function frontMatterEnd(lines: string[], start: number) {
+  if (lines[start]?.trim() !== FRONT_MATTER_DELIMITER) return -1;
+  for (let index = start + 1; index < lines.length; index++) {
+    if (lines[index].trim() === FRONT_MATTER_DELIMITER) {
+      return index > start + 1 ? index : -1;
+    }
+    if (!FRONT_MATTER_LINE.test(lines[index])) return -1;
+  }
+  return -1;
+}
+
+/** Reads a front matter value: JSON when it parses, otherwise a plain YAML-style scalar or list. */
+function parseFrontMatterValue(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    if (/^\[.*\]$/.test(value)) {
+      return value
+        .slice(1, -1)
+        .split(",")
+        .map((item) => item.trim().replace(/^(['"])(.*)\1$/, "$2"))
+        .filter(Boolean);
+    }
+    return value.replace(/^'(.*)'$/, "$1");
+  }
+}
+
+function parseMarkdown(text: string): ImportEntry[] {
+  const lines = text.split(/\r?\n/);
+  const entries: ImportEntry[] = [];
+  let index = lines.findIndex((line) => line.trim() !== "");
+  if (index === -1) return entries;
+
+  while (index < lines.length) {
+    const end = frontMatterEnd(lines, index);
+    if (end === -1) {
+      throw new TransferFormatError(`Line ${index + 1}: expected a front matter block`);
+    }
+    const fields: Record<string, unknown> = {};
+    for (const line of lines.slice(index + 1, end)) {
+      const [, key, value = ""] = FRONT_MATTER_LINE.exec(line) as RegExpExecArray;
+      fields[key] = value === "" ? null : parseFrontMatterValue(value.trim());
+    }
+
+    let next = end + 1;
+    while (next < lines.length && frontMatterEnd(lines, next) === -1) next++;
+    const content = lines.slice(end + 1, next).join("\n").trim();
+    entries.push(validateEntry({ ...fields, content }, `Line ${index + 1}`));
+    index = next;
+  }
+  return entries;
+}
+
+/** Parses and validates exported data. Throws {@link TransferFormatError} on the first bad entry. */
+export function parseMemories(text: string, format: TransferFormat): ImportEntry[] {
+  return format === "markdown" ? parseMarkdown(text) : parseJsonLines(text);
+}
+
+export interface ExportOptions {
+  format?: TransferFormat;
+  filters?: Omit<MemoryFilters, "limit" | "offset">;
+}
+
+/** Serializes every memory matching the filters. JSONL keeps ids, timestamps and links. */
+export function exportMemories(store: MemoryBackend, options: ExportOptions = {}) {
+  const memories = store.exportMemories(options.filters);
+  return {
+    count: memories.length,
+    data: serializeMemories(memories, options.format ?? "jsonl"),
+  };
+}
+
+export interface ImportDataOptions extends ImportOptions {
+  format?: TransferFormat;
+}
+
+/** Parses `data` and imports every entry in one transaction. */
+export function importMemories(
+  store: MemoryBackend,
+  data: string,
+  options: ImportDataOptions = {}
+): ImportReport {
+  const { format = "jsonl", ...importOptions } = options;
+  return store.importMemories(parseMemories(data, format), importOptions);
+}
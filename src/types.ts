@@ -1,5 +1,6 @@
 export interface MemoryRecord {
   id: string;
+  namespace: string;
   title: string | null;
   content: string;
   importance: number | null;
@@ -7,32 +8,217 @@ export interface MemoryRecord {
   createdAt: string;
   updatedAt: string;
   metadata: Record<string, unknown>;
+  /** Set while the memory sits in the trash. */
+  deletedAt?: string;
+  /** When set, the memory is hidden after this time and later moved to the trash. */
+  expiresAt?: string;
+  /** Last time `memory.get` or `memory.list` returned the memory. */
+  lastAccessedAt?: string;
+  /** Number of times `memory.get` or `memory.list` returned the memory. */
+  accessCount?: number;
 }
 
+/** List orders. `relevance` weighs recency, read frequency, importance and the search match. */
+export type MemorySort = "updated" | "created" | "importance" | "accessed" | "relevance";
+
 export interface MemoryFilters {
+  /** Restrict to one namespace. Every namespace is searched when neither this nor `namespaces` is set. */
+  namespace?: string;
+  namespaces?: string[];
   search?: string;
+  /** Matching a tag also matches the tags nested below it: `project` matches `project/api`. */
   tags?: string[];
+  /** Whether a memory needs every tag (default), at least one, or none of them. */
+  tagMode?: "all" | "any" | "none";
   minImportance?: number;
   maxImportance?: number;
   limit?: number;
   offset?: number;
+  /**
+   * Resume after the last item of an earlier page (its `nextCursor`). Unlike
+   * `offset`, pages do not shift when memories are added in the meantime.
+   * Pass the same filters and sort as for the first page.
+   */
+  cursor?: string;
+  /** Bounds on `updatedAt`. */
   before?: string;
   after?: string;
+  /** Bounds on `createdAt`. */
+  createdBefore?: string;
+  createdAfter?: string;
+  /** Tests on `metadata` values; all of them must hold. */
+  metadata?: MetadataPredicate[];
+  /** Further conditions, combined with AND, OR and NOT. Applies on top of the other filters. */
+  where?: MemoryFilterExpression;
+  /** Whether trashed memories are left out (default), included, or the only ones listed. */
+  trash?: "exclude" | "include" | "only";
+  /** Same for memories past their `expiresAt` that have not been swept yet. */
+  expired?: "exclude" | "include" | "only";
+  /**
+   * Defaults to search rank when searching, deletion time when listing only
+   * the trash, and `updated` otherwise.
+   */
+  sort?: MemorySort;
+}
+
+export type MetadataScalar = string | number | boolean | null;
+
+/** A test on one `metadata` value. When several operators are set, all of them must hold. */
+export interface MetadataPredicate {
+  /** Dotted path such as `ticket` or `owner.name` (numeric segments index arrays), or a JSON path starting with `$`. */
+  path: string;
+  equals?: MetadataScalar;
+  in?: MetadataScalar[];
+  /** Whether the path is present at all. A JSON `null` counts as present. */
+  exists?: boolean;
+  gt?: number;
+  gte?: number;
+  lt?: number;
+  lte?: number;
+  /** An element of an array value, or a substring of a string value. */
+  contains?: MetadataScalar;
+}
+
+/** The filters that can appear in a {@link MemoryFilterExpression}. Every field set must hold. */
+export type MemoryFilterCondition = Pick<
+  MemoryFilters,
+  | "namespace"
+  | "namespaces"
+  | "search"
+  | "tags"
+  | "tagMode"
+  | "minImportance"
+  | "maxImportance"
+  | "before"
+  | "after"
+  | "createdBefore"
+  | "createdAfter"
+  | "metadata"
+>;
+
+export type MemoryFilterExpression =
+  | { and: MemoryFilterExpression[] }
+  | { or: MemoryFilterExpression[] }
+  | { not: MemoryFilterExpression }
+  | MemoryFilterCondition;
+
+export interface MemoryListItem extends MemoryRecord {
+  /** Relevance of the match, higher is better. Set when searching or sorting by relevance. */
+  score?: number;
+  /** Excerpt around the matched terms, with hits wrapped in `**`. */
+  snippet?: string;
 }
 
 export interface MemoryListResult {
-  items: MemoryRecord[];
+  items: MemoryListItem[];
   total: number;
   limit: number;
   offset: number;
+  /** Pass as `cursor` for the next page. Set when more items follow and the order allows cursors. */
+  nextCursor?: string;
 }
 
 export interface MemoryCreateInput {
+  /** Defaults to `"default"`. */
+  namespace?: string;
   title?: string;
   content: string;
   importance?: number;
   tags?: string[];
   metadata?: Record<string, unknown>;
+  expiresAt?: string;
+  /** Store the memory even if the duplicate policy would reject it. */
+  allowDuplicate?: boolean;
+}
+
+/** A stored memory that closely resembles another text. */
+export interface DuplicateCandidate {
+  id: string;
+  title: string | null;
+  /** Jaccard similarity of the character trigrams, 0-1. */
+  similarity: number;
+}
+
+export interface AddedMemory extends MemoryRecord {
+  /** Near-duplicates that were already stored. Only set when the policy is `warn` and some were found. */
+  duplicates?: DuplicateCandidate[];
+  /** What the redaction scan masked or flagged. */
+  redactions?: RedactionFinding[];
+}
+
+/** What `addMemory` does when a new memory closely resembles a stored one in its namespace. */
+export interface DuplicatePolicy {
+  /** `warn` (default) stores it and reports the candidates, `reject` refuses it, `off` skips the check. */
+  action?: "warn" | "reject" | "off";
+  /** Minimum similarity (0-1) to count as a near-duplicate. Defaults to 0.55. */
+  threshold?: number;
+}
+
+/** Memories that resemble each other; each `similarity` is the member's best match within the group. */
+export interface DuplicateGroup {
+  memories: DuplicateCandidate[];
+}
+
+/** `mask` replaces the match, `reject` refuses the write, `flag` keeps it and notes it in metadata. */
+export type RedactionAction = "mask" | "reject" | "flag";
+
+export type BuiltinDetector =
+  | "private-key"
+  | "aws-access-key"
+  | "github-token"
+  | "jwt"
+  | "connection-string"
+  | "email"
+  | "high-entropy";
+
+export interface RedactionRule {
+  name: string;
+  /** Regular expression source; it is always matched globally. */
+  pattern: string;
+  flags?: string;
+  /** Defaults to `mask`. */
+  action?: RedactionAction;
+  /** What the rule finds, e.g. "an internal hostname". Used in rejection messages. */
+  description?: string;
+}
+
+/** Scanning of titles, content and metadata strings before they are stored. */
+export interface RedactionPolicy {
+  /** Set to false to store everything as given. */
+  enabled?: boolean;
+  /** Overrides the action of built-in detectors, or turns one `off`. */
+  builtins?: Partial<Record<BuiltinDetector, RedactionAction | "off">>;
+  /** Extra rules, checked after the built-in detectors. */
+  rules?: RedactionRule[];
+  /** Shannon entropy (bits per character) from which long tokens count as secrets. Defaults to 4. */
+  entropyThreshold?: number;
+}
+
+export interface RedactionFinding {
+  rule: string;
+  /** `title`, `content` or a metadata path such as `metadata.env.token`. */
+  field: string;
+  action: RedactionAction;
+  /** The first characters of the match; the rest is elided. */
+  preview: string;
+}
+
+export interface SensitiveMemory {
+  id: string;
+  namespace: string;
+  title: string | null;
+  findings: RedactionFinding[];
+}
+
+export interface MergeMemoriesInput {
+  /** The first id is kept and receives the merge; the others are the sources. */
+  ids: string[];
+  /** Replaces the kept title. */
+  title?: string | null;
+  /** Replaces the joined contents. */
+  content?: string;
+  /** Trash the sources (default, their links move to the kept memory) or keep them, linked as superseded. */
+  sources?: "delete" | "link";
 }
 
 export interface MemoryUpdateInput {
@@ -42,4 +228,426 @@ export interface MemoryUpdateInput {
   importance?: number | null;
   tags?: string[] | null;
   metadata?: Record<string, unknown> | null;
+  /** `null` removes the expiry. */
+  expiresAt?: string | null;
+}
+
+export interface SimilarMemoryQuery {
+  /** Free text to compare against. Either `text` or `id` is required. */
+  text?: string;
+  /** Use an existing memory as the query; it is excluded from the results. */
+  id?: string;
+  limit?: number;
+  minScore?: number;
+  filters?: Omit<MemoryFilters, "limit" | "offset">;
+}
+
+export interface SimilarMemory {
+  memory: MemoryRecord;
+  score: number;
+}
+
+export interface RecallQuery {
+  /** Description of the task the memories are recalled for. */
+  task: string;
+  /** Tokens the packed context may take, as counted by `estimateTokens`. */
+  budget: number;
+  /** Tags that raise a memory's score. Memories without them are still candidates. */
+  tags?: string[];
+  filters?: Omit<MemoryFilters, "limit" | "offset" | "search">;
+  /** Candidates scored before packing. Defaults to 50. */
+  candidates?: number;
+  /** Days after which the recency signal of an untouched memory has halved. Defaults to 14. */
+  recencyHalfLifeDays?: number;
+}
+
+export interface RecalledMemory {
+  id: string;
+  title: string | null;
+  /** 0..1: search match, tag overlap, importance and recency combined. */
+  score: number;
+  /** Tokens the memory takes in the packed context; 0 when it was left out. */
+  tokens: number;
+  /** Tokens the whole memory would take. */
+  fullTokens: number;
+}
+
+export interface RecallResult {
+  /** The packed memories, best first, ready to paste into a prompt. */
+  context: string;
+  budget: number;
+  usedTokens: number;
+  /** Memories packed whole. */
+  included: RecalledMemory[];
+  /** Memories cut down to their most relevant sentences to fit. */
+  trimmed: RecalledMemory[];
+  /** Candidates that did not fit. */
+  omitted: RecalledMemory[];
+}
+
+export interface MemoryChangeEvent {
+  type: "added" | "updated" | "deleted";
+  id: string;
+  /** Tags before and after the change, so tag views know whether they are affected. */
+  tags: string[];
+}
+
+export interface TagCount {
+  tag: string;
+  count: number;
+}
+
+export type NamespaceScope = Pick<MemoryFilters, "namespace" | "namespaces">;
+
+export type MemoryField = "title" | "content" | "importance" | "tags" | "metadata";
+
+export interface MemoryRevision {
+  memoryId: string;
+  /** 1-based, increasing with every write. */
+  revision: number;
+  /** `baseline` marks a snapshot of a memory written before history was kept. */
+  action: "create" | "update" | "revert" | "baseline";
+  title: string | null;
+  content: string;
+  importance: number | null;
+  tags: string[];
+  metadata: Record<string, unknown>;
+  changedFields: MemoryField[];
+  /** For reverts, the revision that was restored. */
+  revertedFrom: number | null;
+  createdAt: string;
+}
+
+export interface RevisionRetentionPolicy {
+  /** Keep at most this many revisions per memory. Unlimited by default. */
+  maxPerMemory?: number;
+  /** Drop revisions older than this, always keeping the latest. */
+  maxAgeDays?: number;
+  /** Keep the history of deleted memories. Defaults to false. */
+  keepAfterDelete?: boolean;
+}
+
+export interface FieldChange {
+  field: MemoryField;
+  before: unknown;
+  after: unknown;
+}
+
+export interface RevisionDiff {
+  memoryId: string;
+  from: number;
+  to: number;
+  changes: FieldChange[];
+  /** Line diff of `content` with `+`/`-` prefixes, empty when unchanged. */
+  contentDiff: string;
+}
+
+/**
+ * Lowers the importance of memories nobody reads. A memory that has not been
+ * read, updated or decayed for `afterDays` loses `step` importance, down to
+ * `floor`; the next step follows after another `afterDays` of idleness.
+ */
+export interface ImportanceDecayPolicy {
+  afterDays: number;
+  /** Defaults to 1. */
+  step?: number;
+  /** Importance never decays below this. Defaults to 0. */
+  floor?: number;
+}
+
+/** Relative weight of each signal in the `relevance` sort. Zero leaves a signal out. */
+export interface RelevanceWeights {
+  recency: number;
+  frequency: number;
+  importance: number;
+  match: number;
+}
+
+export interface RelevanceOptions {
+  weights?: Partial<RelevanceWeights>;
+  /** Days after which the recency signal of an untouched memory has halved. Defaults to 14. */
+  recencyHalfLifeDays?: number;
+}
+
+export interface VaultStats {
+  dbPath: string;
+  /** Database file plus its write-ahead log. */
+  sizeBytes: number;
+  schemaVersion: number;
+  encrypted: boolean;
+  /** Live memories, including expired ones not yet swept. */
+  memories: number;
+  trashed: number;
+  expired: number;
+  namespaces: NamespaceCount[];
+  tags: number;
+  links: number;
+  revisions: number;
+  /** Oldest `createdAt` and newest `updatedAt` among live memories. */
+  oldest: string | null;
+  newest: string | null;
+}
+
+export interface MaintenanceReport {
+  /** Memories moved to the trash because they expired. */
+  expired: string[];
+  /** Memories whose importance was lowered. */
+  decayed: string[];
+  /** Memories purged from the trash after the retention window. */
+  purged: string[];
+  /** Audit log entries dropped after the retention window. */
+  auditPruned: number;
+}
+
+/** Which trashed memories to purge; a namespace scope keeps other namespaces' trash. */
+export interface PurgeOptions extends NamespaceScope {
+  /** Purge only these trashed memories. */
+  ids?: string[];
+  /** Purge only memories trashed before this ISO timestamp. */
+  deletedBefore?: string;
+}
+
+export interface NamespaceCount {
+  namespace: string;
+  count: number;
+}
+
+export type MemoryLinkType =
+  | "supersedes"
+  | "relates-to"
+  | "depends-on"
+  | "derived-from"
+  | "contradicts"
+  | "part-of";
+
+/** A directed edge: `sourceId` <type> `targetId`, e.g. A supersedes B. */
+export interface MemoryLink {
+  sourceId: string;
+  targetId: string;
+  type: MemoryLinkType;
+  createdAt: string;
+}
+
+/** The memory at the other end of a link, as shown next to a memory. */
+export interface LinkedMemory {
+  id: string;
+  title: string | null;
+  type: MemoryLinkType;
+  createdAt: string;
+}
+
+export interface MemoryLinks {
+  outbound: LinkedMemory[];
+  inbound: LinkedMemory[];
+}
+
+export type LinkDirection = "outbound" | "inbound" | "both";
+
+export interface RelatedMemoryQuery {
+  id: string;
+  /** How many hops to follow. Defaults to 1. */
+  depth?: number;
+  /** Follow only these link types. All types by default. */
+  types?: MemoryLinkType[];
+  /** Which way edges are followed. Defaults to `both`. */
+  direction?: LinkDirection;
+  limit?: number;
+}
+
+export interface RelatedMemory {
+  memory: MemoryRecord;
+  /** Hops from the starting memory. */
+  depth: number;
+  /** The edge through which the memory was first reached. */
+  via: MemoryLink;
+}
+
+export type TransferFormat = "jsonl" | "markdown";
+
+/** What to do when an imported memory has the id of one already in the vault. */
+export type ImportConflictMode = "skip" | "overwrite" | "keep-newer" | "duplicate";
+
+/** A memory as written by an export, with its outbound links. */
+export interface PortableMemory extends MemoryRecord {
+  links: Array<{ type: MemoryLinkType; targetId: string }>;
+}
+
+/** An entry to import. Everything but `content` is optional. */
+export interface ImportEntry {
+  id?: string;
+  namespace?: string;
+  title?: string | null;
+  content: string;
+  importance?: number | null;
+  tags?: string[];
+  metadata?: Record<string, unknown>;
+  createdAt?: string;
+  updatedAt?: string;
+  deletedAt?: string;
+  expiresAt?: string;
+  links?: Array<{ type: MemoryLinkType; targetId: string }>;
+}
+
+export interface ImportOptions {
+  conflict?: ImportConflictMode;
+  /** Namespace for entries that carry none. Defaults to `"default"`. */
+  defaultNamespace?: string;
+  /** Put every entry in this namespace, whatever the entry says. */
+  namespace?: string;
+}
+
+export interface ImportOutcome {
+  /** Id in the vault after the import; unset for rejected entries. */
+  id?: string;
+  /** Id in the imported data when it differs, e.g. for duplicates and rejected entries. */
+  sourceId?: string;
+  action: "created" | "overwritten" | "skipped" | "duplicated" | "rejected";
+  /** Why a rejected entry was not stored. */
+  reason?: string;
+}
+
+export interface ImportReport {
+  total: number;
+  created: number;
+  overwritten: number;
+  skipped: number;
+  duplicated: number;
+  /** Entries a redaction rule with the `reject` action refused. */
+  rejected: number;
+  /** Links recreated between imported memories and memories already in the vault. */
+  links: number;
+  /** One outcome per entry, in the order of the entries. */
+  items: ImportOutcome[];
+}
+
+/**
+ * One mutation of a memory as recorded in the change log. `fields` holds the
+ * new value of every field it touched: the memory columns, `purged` for a
+ * permanent deletion, and `link:<type>:<targetId>` (creation time, or null
+ * once removed) for outbound links.
+ */
+export interface VaultChange {
+  deviceId: string;
+  /** Lamport clock of the writing vault; with the device id it identifies the change. */
+  clock: number;
+  memoryId: string;
+  fields: Record<string, unknown>;
+  changedAt: string;
+}
+
+export interface ChangeLog {
+  /** Device id of the vault that produced the log. */
+  deviceId: string;
+  changes: VaultChange[];
+}
+
+/** A field both vaults changed without seeing the other's edit. */
+export interface SyncConflict {
+  memoryId: string;
+  title: string | null;
+  field: string;
+  local: unknown;
+  remote: unknown;
+  /** The side whose value the vault now holds: the later clock, then the higher device id. */
+  kept: "local" | "remote";
+}
+
+export interface SyncReport {
+  /** Device id of the vault the changes came from. */
+  source: string;
+  /** Changes this vault had not seen before. */
+  received: number;
+  created: number;
+  updated: number;
+  trashed: number;
+  restored: number;
+  purged: number;
+  /** Links added or removed. */
+  links: number;
+  conflicts: SyncConflict[];
+  /** Changes a redaction rule with the `reject` action refused; they are not stored. */
+  rejected: Array<{ memoryId: string; reason: string }>;
+}
+
+/** One tool call, as recorded in the audit log. */
+export interface AuditEntry {
+  id: number;
+  at: string;
+  tool: string;
+  /** Client name and version from the MCP initialize handshake, when known. */
+  clientName: string | null;
+  clientVersion: string | null;
+  /** MCP session id, set for HTTP clients. */
+  sessionId: string | null;
+  /** The call's arguments with secrets masked and long strings shortened. */
+  arguments: Record<string, unknown>;
+  status: "ok" | "error";
+  /** The error text returned to the client, when the call failed. */
+  error: string | null;
+  /** Memories the call named or changed. */
+  memoryIds: string[];
+}
+
+export type AuditEntryInput = Omit<AuditEntry, "id" | "at"> & { at?: string };
+
+export interface AuditQuery {
+  /** Only calls that named or changed this memory. */
+  memoryId?: string;
+  /** Only calls from clients with this name. */
+  clientName?: string;
+  tool?: string;
+  status?: AuditEntry["status"];
+  /** ISO timestamps bounding `at`, inclusive. */
+  since?: string;
+  until?: string;
+  /** Newest first; defaults to 50. */
+  limit?: number;
+}
+
+/** A line range in a workspace file. */
+export interface AnchorLocation {
+  /** Path relative to the workspace root, with `/` separators. */
+  path: string;
+  /** First and last line of the snippet, 1-based and inclusive. */
+  startLine: number;
+  endLine: number;
+}
+
+export type AnchorStatus = "intact" | "moved" | "broken";
+
+/** Ties a memory to a snippet of source code. Kept in `metadata.anchors`. */
+export interface CodeAnchor extends AnchorLocation {
+  /** Hash of the snippet's lines with surrounding whitespace trimmed. */
+  hash: string;
+  /** Set when the last verification could not find the snippet; cleared once it turns up. */
+  broken?: boolean;
+}
+
+export interface AnchoredMemory {
+  memory: MemoryRecord;
+  /** The memory's anchors inside the requested path. */
+  anchors: CodeAnchor[];
+}
+
+export interface AnchorCheck {
+  memoryId: string;
+  title: string | null;
+  /** Where the anchor pointed before the check. */
+  anchor: AnchorLocation;
+  status: AnchorStatus;
+  /** Where the snippet was found, for moved anchors. */
+  movedTo?: AnchorLocation;
+  /** Why a broken anchor could not be found. */
+  reason?: string;
+}
+
+export interface AnchorReport {
+  checked: number;
+  intact: number;
+  moved: number;
+  broken: number;
+  /** Every anchor that is not intact. */
+  problems: AnchorCheck[];
+  /** Memories whose anchors were rewritten: moved ones re-anchored, broken ones marked or cleared. */
+  updated: string[];
 }
@@ -0,0 +1,146 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, test } from "node:test";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import {
+  AnchorError,
+  createAnchor,
+  readAnchors,
+  verifyAnchors,
+  withAnchors,
+} from "../src/anchors.js";
+import { InMemoryBackend } from "../src/in-memory.js";
+import { createContextMemoryServer } from "../src/server.js";
+import type { CodeAnchor } from "../src/types.js";
+
+const SOURCE = ["function deploy() {", "  runScript();", "  notify();", "}", ""].join("\n");
+
+let dir: string;
+let workspace: string;
+let store: InMemoryBackend;
+
+function anchorMemory(anchors: CodeAnchor[]) {
+  return store.addMemory({ content: "Deploy notes", metadata: withAnchors({}, anchors) });
+}
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "context-memory-anchors-"));
+  workspace = path.join(dir, "workspace");
+  fs.mkdirSync(path.join(workspace, "src"), { recursive: true });
+  fs.writeFileSync(path.join(workspace, "src", "deploy.ts"), SOURCE);
+  store = new InMemoryBackend();
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+test("reports an untouched snippet as intact", () => {
+  anchorMemory([createAnchor(workspace, { path: "src/deploy.ts", startLine: 2, endLine: 3 })]);
+  const report = verifyAnchors(store, workspace);
+  assert.deepEqual([report.intact, report.moved, report.broken], [1, 0, 0]);
+  assert.deepEqual(report.updated, []);
+});
+
+test("re-anchors a snippet that moved in its file or folder", () => {
+  const memory = anchorMemory([
+    createAnchor(workspace, { path: "src/deploy.ts", startLine: 2, endLine: 3 }),
+  ]);
+  fs.writeFileSync(path.join(workspace, "src", "deploy.ts"), `// header\n\n${SOURCE}`);
+  const report = verifyAnchors(store, workspace);
+  assert.equal(report.moved, 1);
+  assert.deepEqual(report.problems[0].movedTo, { path: "src/deploy.ts", startLine: 4, endLine: 5 });
+  assert.deepEqual(report.updated, [memory.id]);
+  assert.equal(readAnchors(store.getMemory(memory.id)!)[0].startLine, 4);
+  assert.equal(verifyAnchors(store, workspace).intact, 1);
+
+  fs.renameSync(path.join(workspace, "src", "deploy.ts"), path.join(workspace, "src", "ship.ts"));
+  fs.writeFileSync(path.join(workspace, "src", "deploy.ts"), "export {};\n");
+  assert.equal(verifyAnchors(store, workspace).problems[0].movedTo?.path, "src/ship.ts");
+});
+
+test("marks an edited snippet broken, and only reports with reanchor false", () => {
+  const memory = anchorMemory([
+    createAnchor(workspace, { path: "src/deploy.ts", startLine: 2, endLine: 3 }),
+  ]);
+  fs.writeFileSync(path.join(workspace, "src", "deploy.ts"), SOURCE.replace("notify", "page"));
+  const dryRun = verifyAnchors(store, workspace, { reanchor: false });
+  assert.equal(dryRun.broken, 1);
+  assert.deepEqual(dryRun.updated, []);
+  assert.equal(readAnchors(store.getMemory(memory.id)!)[0].broken, undefined);
+
+  assert.deepEqual(verifyAnchors(store, workspace).updated, [memory.id]);
+  assert.equal(readAnchors(store.getMemory(memory.id)!)[0].broken, true);
+  // Nothing changed since, so nothing is rewritten.
+  assert.deepEqual(verifyAnchors(store, workspace).updated, []);
+});
+
+test("refuses to anchor files outside the workspace", () => {
+  fs.writeFileSync(path.join(dir, "secret.txt"), SOURCE);
+  assert.throws(
+    () => createAnchor(workspace, { path: "../secret.txt", startLine: 2, endLine: 3 }),
+    AnchorError
+  );
+  fs.symlinkSync(path.join(dir, "secret.txt"), path.join(workspace, "link.txt"));
+  assert.throws(
+    () => createAnchor(workspace, { path: "link.txt", startLine: 2, endLine: 3 }),
+    AnchorError
+  );
+});
+
+test("never reads stored anchors that lead outside the workspace", () => {
+  // The same lines outside the workspace would check out as intact if read.
+  fs.writeFileSync(path.join(dir, "secret.txt"), SOURCE);
+  fs.symlinkSync(path.join(dir, "secret.txt"), path.join(workspace, "link.txt"));
+  const { hash } = createAnchor(workspace, { path: "src/deploy.ts", startLine: 2, endLine: 3 });
+  anchorMemory([
+    { path: "../secret.txt", startLine: 2, endLine: 3, hash },
+    { path: "link.txt", startLine: 2, endLine: 3, hash },
+  ]);
+  const report = verifyAnchors(store, workspace);
+  assert.equal(report.broken, 2);
+  for (const problem of report.problems) {
+    assert.equal(problem.reason, "the path is outside the workspace");
+  }
+});
+
+test("memory.add and memory.update ignore anchors given in metadata", async () => {
+  const { server } = createContextMemoryServer({ store, workspaceRoot: workspace });
+  const [serverSide, clientSide] = InMemoryTransport.createLinkedPair();
+  await server.connect(serverSide);
+  const client = new Client({ name: "test", version: "1.0.0" });
+  await client.connect(clientSide);
+  const forged = [{ path: "../secret.txt", startLine: 1, endLine: 1, hash: "0".repeat(16) }];
+
+  await client.callTool({
+    name: "memory.add",
+    arguments: { content: "Forged anchors", metadata: { anchors: forged, ticket: "X" } },
+  });
+  const [memory] = store.listMemories().items;
+  assert.deepEqual(memory.metadata, { ticket: "X" });
+
+  await client.callTool({
+    name: "memory.update",
+    arguments: {
+      id: memory.id,
+      metadata: { anchors: forged },
+      anchors: [{ path: "src/deploy.ts", startLine: 2, endLine: 3 }],
+    },
+  });
+  assert.deepEqual(
+    readAnchors(store.getMemory(memory.id)!).map((anchor) => anchor.path),
+    ["src/deploy.ts"]
+  );
+  await client.callTool({
+    name: "memory.update",
+    arguments: { id: memory.id, metadata: { anchors: forged } },
+  });
+  assert.deepEqual(
+    readAnchors(store.getMemory(memory.id)!).map((anchor) => anchor.path),
+    ["src/deploy.ts"]
+  );
+  await client.close();
+});
@@ -0,0 +1,88 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, test } from "node:test";
+import { createKdfParams, VaultCipher, VaultKeyError } from "../src/crypto.js";
+import { MemoryStore } from "../src/storage.js";
+
+const SECRET_TEXT = "marmalade quokka rendezvous";
+
+let dir: string;
+let dbPath: string;
+
+/** The vault file and its write-ahead log, as stored on disk. */
+function storedBytes() {
+  return [dbPath, `${dbPath}-wal`]
+    .filter((file) => fs.existsSync(file))
+    .map((file) => fs.readFileSync(file).toString("latin1"))
+    .join("");
+}
+
+function fillVault(store: MemoryStore) {
+  const memory = store.addMemory({
+    title: `Title ${SECRET_TEXT}`,
+    content: `Content ${SECRET_TEXT}`,
+    metadata: { note: SECRET_TEXT },
+  });
+  store.updateMemory({ id: memory.id, content: `Edited ${SECRET_TEXT}` });
+  return memory;
+}
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "context-memory-encryption-"));
+  dbPath = path.join(dir, "memories.db");
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+test("refuses to open an encrypted vault with a wrong key or none", () => {
+  const store = new MemoryStore(dbPath, { encryption: { passphrase: "secret" } });
+  const memory = fillVault(store);
+  store.close();
+
+  assert.throws(
+    () => new MemoryStore(dbPath, { encryption: { passphrase: "guess" } }),
+    VaultKeyError
+  );
+  assert.throws(() => new MemoryStore(dbPath), VaultKeyError);
+
+  const reopened = new MemoryStore(dbPath, { encryption: { passphrase: "secret" } });
+  assert.equal(reopened.getMemory(memory.id)?.content, `Edited ${SECRET_TEXT}`);
+  reopened.close();
+});
+
+test("a cipher derived from another key cannot decrypt", () => {
+  const params = createKdfParams();
+  const sealed = VaultCipher.derive({ passphrase: "secret" }, params).encrypt(SECRET_TEXT);
+  const wrong = VaultCipher.derive({ passphrase: "guess" }, params);
+  assert.throws(() => wrong.decrypt(sealed), VaultKeyError);
+  assert.throws(() => wrong.verifyCheck(sealed), VaultKeyError);
+});
+
+test("stores no plaintext of titles, content, metadata or history", () => {
+  const plain = new MemoryStore(dbPath);
+  fillVault(plain);
+  plain.close();
+  // The check below would pass vacuously if the text never reached the file.
+  assert.ok(storedBytes().includes(SECRET_TEXT));
+  fs.rmSync(dbPath);
+  fs.rmSync(`${dbPath}-wal`, { force: true });
+  fs.rmSync(`${dbPath}-shm`, { force: true });
+
+  const store = new MemoryStore(dbPath, { encryption: { passphrase: "secret" } });
+  fillVault(store);
+  store.close();
+  assert.ok(!storedBytes().includes(SECRET_TEXT));
+});
+
+test("encrypting an existing vault leaves no plaintext behind", () => {
+  const store = new MemoryStore(dbPath);
+  const memory = fillVault(store);
+  store.enableEncryption({ passphrase: "secret" });
+  assert.equal(store.getMemory(memory.id)?.content, `Edited ${SECRET_TEXT}`);
+  store.close();
+  assert.ok(!storedBytes().includes(SECRET_TEXT));
+});
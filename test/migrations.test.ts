@@ -0,0 +1,110 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, test } from "node:test";
+import Database from "better-sqlite3";
+import { readSchemaVersion, SCHEMA_VERSION, SchemaVersionError } from "../src/migrations.js";
+import { MemoryStore } from "../src/storage.js";
+
+const LEGACY_ID = "3f1c2b9e-8d4a-4e6f-9b7a-5c2d1e0f4a6b";
+
+let dir: string;
+let dbPath: string;
+
+/** A vault as written before the schema was versioned: user_version 0, the first tables only. */
+function writeLegacyVault() {
+  const db = new Database(dbPath);
+  db.exec(`
+    CREATE TABLE memories (
+      id TEXT PRIMARY KEY,
+      title TEXT,
+      content TEXT NOT NULL,
+      importance INTEGER,
+      tags TEXT NOT NULL DEFAULT '[]',
+      metadata TEXT NOT NULL DEFAULT '{}',
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    );
+  `);
+  const at = "2024-01-02T03:04:05.000Z";
+  db.prepare(
+    `INSERT INTO memories (id, title, content, importance, tags, metadata, created_at, updated_at)
+     VALUES (?, 'Deploy', 'Run the deploy script from the root.', 6, ?, ?, ?, ?)`
+  ).run(LEGACY_ID, '["ops"]', '{"ticket":"X"}', at, at);
+  db.close();
+}
+
+function inspect<T>(file: string, read: (db: Database.Database) => T): T {
+  const db = new Database(file, { readonly: true });
+  try {
+    return read(db);
+  } finally {
+    db.close();
+  }
+}
+
+const schemaVersionOf = (file: string) => inspect(file, readSchemaVersion);
+
+const tablesOf = (file: string) =>
+  inspect(
+    file,
+    (db) =>
+      db
+        .prepare(`SELECT name FROM sqlite_master WHERE type = 'table' ORDER BY name`)
+        .pluck()
+        .all() as string[]
+  );
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "context-memory-migrations-"));
+  dbPath = path.join(dir, "memories.db");
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+test("upgrades an unversioned vault after backing it up", () => {
+  writeLegacyVault();
+  const store = new MemoryStore(dbPath);
+  const { from, to, backupPath } = store.migration;
+  assert.deepEqual([from, to], [0, SCHEMA_VERSION]);
+
+  const memory = store.getMemory(LEGACY_ID);
+  assert.equal(memory?.namespace, "default");
+  assert.deepEqual(memory?.tags, ["ops"]);
+  assert.deepEqual(memory?.metadata, { ticket: "X" });
+  assert.deepEqual(
+    store.listMemories({ search: "deploy" }).items.map((item) => item.id),
+    [LEGACY_ID]
+  );
+  // The upgraded vault takes writes that need the new tables.
+  assert.ok(store.updateMemory({ id: LEGACY_ID, importance: 7 }));
+  assert.equal(store.listRevisions(LEGACY_ID).length, 2);
+  store.close();
+
+  assert.ok(backupPath && fs.existsSync(backupPath));
+  assert.equal(schemaVersionOf(backupPath), 0);
+  assert.equal(schemaVersionOf(dbPath), SCHEMA_VERSION);
+
+  const reopened = new MemoryStore(dbPath);
+  assert.deepEqual(reopened.migration, {
+    from: SCHEMA_VERSION,
+    to: SCHEMA_VERSION,
+    backupPath: null,
+  });
+  reopened.close();
+});
+
+test("refuses a vault written by a newer schema and leaves it untouched", () => {
+  writeLegacyVault();
+  const db = new Database(dbPath);
+  db.pragma(`user_version = ${SCHEMA_VERSION + 1}`);
+  db.close();
+
+  assert.throws(() => new MemoryStore(dbPath), SchemaVersionError);
+  assert.equal(schemaVersionOf(dbPath), SCHEMA_VERSION + 1);
+  assert.deepEqual(tablesOf(dbPath), ["memories"]);
+  assert.deepEqual(fs.readdirSync(dir).filter((file) => file.endsWith(".bak")), []);
+});
@@ -0,0 +1,90 @@
+import assert from "node:assert/strict";
+import { createHash } from "node:crypto";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, test } from "node:test";
+import Database from "better-sqlite3";
+import { SCHEMA_VERSION } from "../src/migrations.js";
+import { MemoryStore } from "../src/storage.js";
+
+let dir: string;
+let dbPath: string;
+
+/**
+ * Every file in the vault's folder with a hash of its bytes, leaving out the
+ * empty write-ahead log and shared-memory index SQLite keeps next to a vault
+ * in WAL mode even for read-only connections.
+ */
+function folderState() {
+  return fs
+    .readdirSync(dir)
+    .filter((file) => !file.endsWith("-shm") && !(file.endsWith("-wal") && fileSize(file) === 0))
+    .sort()
+    .map((file) => {
+      const hash = createHash("sha256").update(fs.readFileSync(path.join(dir, file)));
+      return `${file} ${hash.digest("hex")}`;
+    });
+}
+
+function fileSize(file: string) {
+  return fs.statSync(path.join(dir, file)).size;
+}
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "context-memory-read-only-"));
+  dbPath = path.join(dir, "memories.db");
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+test("reads a vault without writing to it", () => {
+  const writer = new MemoryStore(dbPath);
+  const memory = writer.addMemory({ title: "Deploy", content: "Run the deploy script." });
+  writer.close();
+  const before = folderState();
+
+  const reader = new MemoryStore(dbPath, { readOnly: true });
+  assert.equal(reader.getMemory(memory.id)?.title, "Deploy");
+  assert.equal(reader.listMemories({ search: "deploy" }).total, 1);
+  assert.equal(reader.exportChanges().changes.length, 1);
+  assert.throws(() => reader.addMemory({ content: "Refused" }), /readonly/);
+  reader.close();
+  assert.deepEqual(folderState(), before);
+});
+
+test("upgrades an older vault in memory only", () => {
+  const legacy = new Database(dbPath);
+  legacy.pragma("journal_mode = WAL");
+  legacy.exec(`
+    CREATE TABLE memories (
+      id TEXT PRIMARY KEY,
+      title TEXT,
+      content TEXT NOT NULL,
+      importance INTEGER,
+      tags TEXT NOT NULL DEFAULT '[]',
+      metadata TEXT NOT NULL DEFAULT '{}',
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    );
+    INSERT INTO memories (id, content, created_at, updated_at)
+    VALUES ('legacy', 'Written before versioning', '2024-01-02', '2024-01-02');
+  `);
+  legacy.close();
+  const before = folderState();
+
+  const reader = new MemoryStore(dbPath, { readOnly: true });
+  assert.deepEqual(reader.migration, { from: 0, to: SCHEMA_VERSION, backupPath: null });
+  assert.equal(reader.getMemory("legacy")?.content, "Written before versioning");
+  reader.close();
+  assert.deepEqual(folderState(), before);
+});
+
+test("reads a missing vault as empty without creating it", () => {
+  const reader = new MemoryStore(path.join(dir, "nested", "memories.db"), { readOnly: true });
+  assert.equal(reader.listMemories().total, 0);
+  reader.close();
+  assert.deepEqual(fs.readdirSync(dir), []);
+});
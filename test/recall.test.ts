@@ -0,0 +1,41 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { InMemoryBackend } from "../src/in-memory.js";
+import { estimateTokens, recallForTask } from "../src/recall.js";
+
+function seed() {
+  const store = new InMemoryBackend();
+  store.addMemory({
+    title: "Deploy script",
+    content:
+      "The deploy script lives in tools and needs the staging credentials. " +
+      "Run it from the repository root. It fails when the cache is cold, so warm it first.",
+    tags: ["deploy"],
+    importance: 7,
+  });
+  store.addMemory({
+    title: "Release checklist",
+    content:
+      "Before a release, fix the changelog and bump the version. " +
+      "The deploy step follows once the tag is pushed and the build is green.",
+    tags: ["release"],
+    importance: 5,
+  });
+  return store;
+}
+
+test("packs whole memories when the budget allows", () => {
+  const result = recallForTask(seed(), { task: "fix deploy script", budget: 2000 });
+  assert.equal(result.included.length, 2);
+  assert.deepEqual(result.trimmed, []);
+  assert.ok(result.usedTokens <= result.budget);
+});
+
+test("trims memories to fit a small budget", () => {
+  const result = recallForTask(seed(), { task: "fix deploy script", budget: 50 });
+  assert.equal(result.trimmed[0]?.title, "Deploy script");
+  assert.ok(result.usedTokens <= 50, `${result.usedTokens} tokens`);
+  assert.equal(result.usedTokens, estimateTokens(result.context));
+  assert.match(result.context, /\(excerpt\)/);
+  assert.doesNotMatch(result.context, /updated:/);
+});